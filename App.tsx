@@ -20,20 +20,67 @@ import {
   Platform,
   Linking,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useCallLogMonitor } from './hooks/useCallLogMonitor';
 import { startMonitoring, stopMonitoring } from './CallLogModule';
 import { AnalyzedCall } from './hooks/types';
 
-import notifee, { EventType } from '@notifee/react-native';
+import notifee from '@notifee/react-native';
 import { usePermissions } from './hooks/usePermissions';
-import { openWhatsApp } from './utils/OpenWhatsApp';
+import { useCallHistoryFilter } from './hooks/useCallHistoryFilter';
+import { useSnoozedPromptCount } from './hooks/useSnoozedPromptCount';
+import { handleNotificationEvent } from './utils/NotificationActions';
 import {
-  createNotificationChannel,
-  displayClientCheckNotification,
-} from './utils/Notification';
-
-export const CALL_HISTORY_STORAGE_KEY = '@CallDetectorApp:callHistory';
+  clearCallHistory,
+  loadCallHistory as loadStoredCallHistory,
+  subscribeToCallHistory,
+} from './utils/CallHistoryRepository';
+import { processDetectedCall } from './utils/CallProcessing';
+import { claimCall } from './utils/ProcessedCalls';
+import {
+  dismissUnprocessedCalls,
+  findUnprocessedCalls,
+} from './utils/CallBackfill';
+import { loadDefaultCountryCode } from './utils/PhoneNumber';
+import { filterCallHistory, isFilterActive } from './utils/CallHistoryFilter';
+import { annotateCall, getAllTags } from './utils/CallAnnotations';
+import {
+  ExportFormat,
+  shareCallHistoryExport,
+} from './utils/CallHistoryExport';
+import { TemplateManager } from './components/TemplateManager';
+import { CallHistoryFilterBar } from './components/CallHistoryFilterBar';
+import { ImportPanel } from './components/ImportPanel';
+import { StatisticsDashboard } from './components/StatisticsDashboard';
+import { LeadPipelinePanel } from './components/LeadPipelinePanel';
+import { CallRulesManager } from './components/CallRulesManager';
+import { BusinessHoursManager } from './components/BusinessHoursManager';
+import { CallbackReminderSettingsPanel } from './components/CallbackReminderSettingsPanel';
+import {
+  CALL_OUTCOME_LABELS,
+  CallClassificationSettingsPanel,
+} from './components/CallClassificationSettingsPanel';
+import { getCallClassification } from './utils/CallLogAnalyzer';
+import { ContactClassificationManager } from './components/ContactClassificationManager';
+import { OutboxPanel } from './components/OutboxPanel';
+import {
+  CRM_SYNC_STATUS_LABELS,
+  CrmSyncPanel,
+} from './components/CrmSyncPanel';
+import { useCrmSync } from './hooks/useCrmSync';
+import { getCrmSyncStatusForCall } from './utils/CrmSync';
+import { MissedCallsReview } from './components/MissedCallsReview';
+import { ChannelChoicePrompt } from './components/ChannelChoicePrompt';
+import { MonitoringSettingsPanel } from './components/MonitoringSettingsPanel';
+import {
+  MONITORING_HEALTH_DISPLAY,
+  MonitoringStatusRow,
+} from './components/MonitoringStatusRow';
+import { MonitoringHealth } from './utils/MonitoringHealth';
+import {
+  CallAnnotationEditor,
+  formatAnnotationLabels,
+} from './components/CallAnnotationEditor';
+import { createNotificationChannel } from './utils/Notification';
 
 interface CompleteAppState {
   callHistory: AnalyzedCall[];
@@ -66,6 +113,10 @@ export default function App() {
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
   const isInitializedRef = useRef(false);
 
+  // Only the health lives here; MonitoringStatusRow follows the heartbeat.
+  const [monitoringHealth, setMonitoringHealth] =
+    useState<MonitoringHealth>('stopped');
+
   const statusColor = useMemo(() => {
     if (
       permissionState.status === 'denied' ||
@@ -73,17 +124,38 @@ export default function App() {
     ) {
       return '#e74c3c';
     }
-    if (appState.isMonitoring) {
-      return '#27ae60';
+    if (monitoringHealth === 'active' || monitoringHealth === 'error') {
+      return MONITORING_HEALTH_DISPLAY[monitoringHealth].color;
     }
     return '#f39c12';
-  }, [permissionState.status, appState.isMonitoring]);
+  }, [permissionState.status, monitoringHealth]);
 
   const callHistoryCount = useMemo(
     () => appState.callHistory.length,
     [appState.callHistory.length],
   );
 
+  const {
+    filter: historyFilter,
+    updateFilter: updateHistoryFilter,
+    resetFilter: resetHistoryFilter,
+  } = useCallHistoryFilter();
+  const snoozedPromptCount = useSnoozedPromptCount();
+  const { jobs: crmSyncJobs } = useCrmSync();
+
+  const filteredCallHistory = useMemo(
+    () => filterCallHistory(appState.callHistory, historyFilter),
+    [appState.callHistory, historyFilter],
+  );
+
+  const historyTags = useMemo(
+    () => getAllTags(appState.callHistory),
+    [appState.callHistory],
+  );
+
+  // The call whose notes are open, identified by `${timestamp}-${number}`.
+  const [editingCallKey, setEditingCallKey] = useState<string | null>(null);
+
   const updateAppState = useCallback((updates: Partial<CompleteAppState>) => {
     setAppState(prev => ({ ...prev, ...updates }));
   }, []);
@@ -95,45 +167,11 @@ export default function App() {
     [],
   );
 
-  const addCallToHistory = useCallback((call: AnalyzedCall) => {
-    setAppState(prev => {
-      const isDuplicate = prev.callHistory.some(
-        existingCall =>
-          existingCall.timestamp === call.timestamp &&
-          existingCall.number === call.number,
-      );
-
-      if (isDuplicate) {
-        return prev;
-      }
-
-      return {
-        ...prev,
-        callHistory: [call, ...prev.callHistory],
-      };
-    });
-  }, []);
-
-  const clearCallHistory = useCallback(() => {
-    setAppState(prev => ({
-      ...prev,
-      callHistory: [],
-    }));
-  }, []);
-
   const loadCallHistory = useCallback(async () => {
     try {
       updateAppState({ isLoadingHistory: true });
-      const storedHistory = await AsyncStorage.getItem(
-        CALL_HISTORY_STORAGE_KEY,
-      );
-
-      if (storedHistory) {
-        const parsedHistory = JSON.parse(storedHistory);
-        if (Array.isArray(parsedHistory)) {
-          updateAppState({ callHistory: parsedHistory });
-        }
-      }
+      const storedHistory = await loadStoredCallHistory();
+      updateAppState({ callHistory: storedHistory });
     } catch (error) {
       Alert.alert('Error', 'Failed to load call history. Starting fresh.');
     } finally {
@@ -141,26 +179,11 @@ export default function App() {
     }
   }, [updateAppState]);
 
-  const saveCallHistory = useCallback(async (history: AnalyzedCall[]) => {
-    try {
-      await AsyncStorage.setItem(
-        CALL_HISTORY_STORAGE_KEY,
-        JSON.stringify(history),
-      );
-    } catch (error) {
-      console.error('Failed to save call history to AsyncStorage:', error);
-    }
-  }, []);
-
   useEffect(() => {
-    if (!appState.isLoadingHistory && appState.callHistory.length >= 0) {
-      const timeoutId = setTimeout(() => {
-        saveCallHistory(appState.callHistory);
-      }, 500); // Debounce saves by 500ms
-
-      return () => clearTimeout(timeoutId);
-    }
-  }, [appState.callHistory, appState.isLoadingHistory, saveCallHistory]);
+    return subscribeToCallHistory(callHistory =>
+      updateAppState({ callHistory }),
+    );
+  }, [updateAppState]);
 
   const handlePermissionRequest = useCallback(async (): Promise<boolean> => {
     updatePermissionState({
@@ -239,8 +262,7 @@ export default function App() {
           style: 'destructive',
           onPress: async () => {
             try {
-              clearCallHistory();
-              await AsyncStorage.removeItem(CALL_HISTORY_STORAGE_KEY);
+              await clearCallHistory();
               Alert.alert(
                 'History Cleared',
                 'All call history has been removed.',
@@ -252,7 +274,26 @@ export default function App() {
         },
       ],
     );
-  }, [clearCallHistory]);
+  }, []);
+
+  const handleExportHistory = useCallback(
+    async (format: ExportFormat) => {
+      if (filteredCallHistory.length === 0) {
+        Alert.alert(
+          'Nothing to Export',
+          'There are no calls matching the current filters.',
+        );
+        return;
+      }
+      try {
+        await shareCallHistoryExport(filteredCallHistory, format);
+      } catch (error) {
+        console.error('Error exporting call history:', error);
+        Alert.alert('Error', 'Failed to export call history.');
+      }
+    },
+    [filteredCallHistory],
+  );
 
   useEffect(() => {
     const handleAppStateChange = async (nextAppState: AppStateStatus) => {
@@ -311,6 +352,7 @@ export default function App() {
   useEffect(() => {
     if (!isInitializedRef.current) {
       isInitializedRef.current = true;
+      loadDefaultCountryCode();
       loadCallHistory();
     }
   }, [loadCallHistory]);
@@ -359,68 +401,54 @@ export default function App() {
   useCallLogMonitor({
     onCallDetected: useCallback(
       async (event: AnalyzedCall) => {
-        if (corePermissionStatus === 'granted') {
-          await displayClientCheckNotification(event);
-        } else {
+        if (corePermissionStatus !== 'granted') {
           console.warn(
             'Skipping notification display: Permissions not granted.',
           );
+          return false;
         }
+        await processDetectedCall(event);
+        return true;
       },
       [corePermissionStatus],
     ),
   });
 
-  useEffect(() => {
-    const unsubscribe = notifee.onForegroundEvent(async ({ type, detail }) => {
-      const { notification, pressAction } = detail;
-
-      if (!notification || !pressAction) return;
+  // Calls made while monitoring was stopped, offered for review on start-up.
+  const [unprocessedCalls, setUnprocessedCalls] = useState<AnalyzedCall[]>([]);
 
-      const callDataString = notification.data?.callData as string;
+  useEffect(() => {
+    if (corePermissionStatus !== 'granted') return;
+    let isMounted = true;
+    findUnprocessedCalls().then(calls => {
+      if (isMounted) {
+        setUnprocessedCalls(calls);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [corePermissionStatus]);
 
-      if (!callDataString) {
-        console.warn('No callData found in notification payload.');
-        return;
+  const handleReviewUnprocessedCalls = useCallback(async () => {
+    for (const call of unprocessedCalls) {
+      if (await claimCall(call)) {
+        await processDetectedCall(call);
       }
-      const call: AnalyzedCall = JSON.parse(callDataString);
-
-      switch (type) {
-        case EventType.PRESS:
-          await notifee.cancelNotification(notification.id);
-          break;
-
-        case EventType.ACTION_PRESS:
-          switch (pressAction.id) {
-            case 'no_client':
-              console.log(
-                `❌ User chose NO (client check), call will NOT be stored for: ${call.number}`,
-              );
-              await notifee.cancelNotification(notification.id);
-              break;
+    }
+    setUnprocessedCalls([]);
+  }, [unprocessedCalls]);
 
-            case 'yes_send_message':
-              console.log(
-                `✅ User chose YES (message prompt), opening WhatsApp for: ${call.number}`,
-              );
-              await addCallToHistory(call);
-              await openWhatsApp(
-                call.number,
-                'Hello! We recently had a call. How can I help you today?',
-              );
-              await notifee.cancelNotification(notification.id);
-              break;
+  const handleDismissUnprocessedCalls = useCallback(async () => {
+    await dismissUnprocessedCalls(unprocessedCalls);
+    setUnprocessedCalls([]);
+  }, [unprocessedCalls]);
 
-            default:
-              console.log(`Unknown action ID: ${pressAction.id}`);
-              break;
-          }
-          break;
-      }
-    });
+  useEffect(() => {
+    const unsubscribe = notifee.onForegroundEvent(handleNotificationEvent);
 
     return () => unsubscribe();
-  }, [addCallToHistory]);
+  }, []);
 
   const formatTimestamp = useCallback((timestamp: number) => {
     if (!timestamp) return 'N/A';
@@ -486,32 +514,31 @@ export default function App() {
               </Text>
             </View>
 
+            <MonitoringStatusRow
+              isMonitoringRequested={appState.isMonitoring}
+              onRestart={() => startMonitoring()}
+              onHealthChange={setMonitoringHealth}
+            />
+
             <View style={styles.statusRow}>
-              <Text style={styles.statusLabel}>Monitoring</Text>
-              <View style={styles.monitoringBadge}>
-                <View
-                  style={[
-                    styles.monitoringDot,
-                    {
-                      backgroundColor: appState.isMonitoring
-                        ? '#27ae60'
-                        : '#e74c3c',
-                    },
-                  ]}
-                />
-                <Text
-                  style={[
-                    styles.monitoringText,
-                    { color: appState.isMonitoring ? '#27ae60' : '#e74c3c' },
-                  ]}
-                >
-                  {appState.isMonitoring ? 'Active' : 'Inactive'}
-                </Text>
-              </View>
+              <Text style={styles.statusLabel}>Snoozed Prompts</Text>
+              <Text style={[styles.statusValue, styles.snoozedValue]}>
+                ⏰ {snoozedPromptCount}
+              </Text>
             </View>
           </View>
         </View>
 
+        {/* Calls missed while not monitoring */}
+        <MissedCallsReview
+          calls={unprocessedCalls}
+          onReview={handleReviewUnprocessedCalls}
+          onDismiss={handleDismissUnprocessedCalls}
+        />
+
+        {/* Channels picked in the app after "More…" on a notification */}
+        <ChannelChoicePrompt />
+
         {/* Control Buttons */}
         <View style={styles.controlSection}>
           <Text style={styles.sectionTitle}>Controls</Text>
@@ -547,15 +574,79 @@ export default function App() {
           </View>
         </View>
 
+        {/* Statistics */}
+        <StatisticsDashboard calls={appState.callHistory} />
+
+        {/* Lead Pipeline */}
+        <LeadPipelinePanel calls={appState.callHistory} />
+
+        {/* Message Templates */}
+        <TemplateManager />
+
+        {/* Monitoring Settings */}
+        <MonitoringSettingsPanel />
+
+        {/* Call Rules */}
+        <CallRulesManager />
+
+        {/* Business Hours */}
+        <BusinessHoursManager />
+
+        {/* Call-back Reminders */}
+        <CallbackReminderSettingsPanel />
+
+        {/* Call Classification */}
+        <CallClassificationSettingsPanel />
+
+        {/* Contact Classifications */}
+        <ContactClassificationManager />
+
+        {/* Outbox */}
+        <OutboxPanel />
+
+        {/* CRM Sync */}
+        <CrmSyncPanel />
+
+        {/* Import */}
+        <ImportPanel />
+
         {/* Call History */}
         <View style={styles.historySection}>
           <View style={styles.historyHeader}>
             <Text style={styles.sectionTitle}>Call History</Text>
             <View style={styles.historyBadge}>
-              <Text style={styles.historyCount}>{callHistoryCount}</Text>
+              <Text style={styles.historyCount}>
+                {isFilterActive(historyFilter)
+                  ? `${filteredCallHistory.length} / ${callHistoryCount}`
+                  : callHistoryCount}
+              </Text>
             </View>
           </View>
 
+          <CallHistoryFilterBar
+            filter={historyFilter}
+            availableTags={historyTags}
+            onChange={updateHistoryFilter}
+            onReset={resetHistoryFilter}
+          />
+
+          <View style={styles.exportRow}>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => handleExportHistory('csv')}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.exportButtonText}>📤 Export CSV</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={() => handleExportHistory('json')}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.exportButtonText}>📤 Export JSON</Text>
+            </TouchableOpacity>
+          </View>
+
           {appState.isLoadingHistory ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#3498db" />
@@ -563,35 +654,95 @@ export default function App() {
             </View>
           ) : (
             <View style={styles.historyList}>
-              {appState.callHistory.length > 0 ? (
-                appState.callHistory.map((call, index) => (
-                  <View
-                    key={`${call.timestamp}-${index}`}
-                    style={styles.callCard}
-                  >
-                    <View style={styles.callHeader}>
-                      <View style={styles.callTypeContainer}>
-                        <Text style={styles.callTypeIcon}>
-                          {getCallTypeIcon(call.type)}
+              {filteredCallHistory.length > 0 ? (
+                filteredCallHistory.map((call, index) => {
+                  const callKey = `${call.timestamp}-${call.number}`;
+                  const isEditing = editingCallKey === callKey;
+                  const crmSyncStatus = getCrmSyncStatusForCall(
+                    crmSyncJobs,
+                    call,
+                  );
+                  return (
+                    <View
+                      key={`${call.timestamp}-${index}`}
+                      style={styles.callCard}
+                    >
+                      <View style={styles.callHeader}>
+                        <View style={styles.callTypeContainer}>
+                          <Text style={styles.callTypeIcon}>
+                            {getCallTypeIcon(call.type)}
+                          </Text>
+                          <Text
+                            style={[
+                              styles.callType,
+                              { color: getCallTypeColor(call.type) },
+                            ]}
+                          >
+                            {call.type.toUpperCase()}
+                          </Text>
+                        </View>
+                        <Text style={styles.callDuration}>
+                          {
+                            CALL_OUTCOME_LABELS[
+                              getCallClassification(call).outcome
+                            ]
+                          }{' '}
+                          · {call.duration}s
                         </Text>
+                      </View>
+
+                      <Text style={styles.callNumber}>{call.number}</Text>
+                      <Text style={styles.callTime}>
+                        {formatTimestamp(call.timestamp)}
+                      </Text>
+                      {crmSyncStatus && (
                         <Text
                           style={[
-                            styles.callType,
-                            { color: getCallTypeColor(call.type) },
+                            styles.crmSync,
+                            crmSyncStatus === 'failed' && styles.crmSyncFailed,
                           ]}
                         >
-                          {call.type.toUpperCase()}
+                          {CRM_SYNC_STATUS_LABELS[crmSyncStatus]}
                         </Text>
-                      </View>
-                      <Text style={styles.callDuration}>{call.duration}s</Text>
-                    </View>
+                      )}
+
+                      {!isEditing && call.note ? (
+                        <Text style={styles.callNote}>{call.note}</Text>
+                      ) : null}
+                      {!isEditing && formatAnnotationLabels(call) ? (
+                        <Text style={styles.callTags}>
+                          {formatAnnotationLabels(call)}
+                        </Text>
+                      ) : null}
 
-                    <Text style={styles.callNumber}>{call.number}</Text>
-                    <Text style={styles.callTime}>
-                      {formatTimestamp(call.timestamp)}
-                    </Text>
-                  </View>
-                ))
+                      <TouchableOpacity
+                        onPress={() =>
+                          setEditingCallKey(isEditing ? null : callKey)
+                        }
+                        activeOpacity={0.8}
+                      >
+                        <Text style={styles.notesToggle}>
+                          {isEditing ? 'Done' : '📝 Notes'}
+                        </Text>
+                      </TouchableOpacity>
+                      {isEditing && (
+                        <CallAnnotationEditor
+                          call={call}
+                          availableTags={historyTags}
+                          onChange={changes => annotateCall(call, changes)}
+                        />
+                      )}
+                    </View>
+                  );
+                })
+              ) : appState.callHistory.length > 0 ? (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyStateIcon}>🔍</Text>
+                  <Text style={styles.emptyStateTitle}>No matching calls</Text>
+                  <Text style={styles.emptyStateDescription}>
+                    Try a different search or reset the filters
+                  </Text>
+                </View>
               ) : (
                 <View style={styles.emptyState}>
                   <Text style={styles.emptyStateIcon}>📞</Text>
@@ -682,19 +833,8 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
-  monitoringBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 6,
-  },
-  monitoringDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-  },
-  monitoringText: {
-    fontSize: 14,
-    fontWeight: '600',
+  snoozedValue: {
+    color: '#f39c12',
   },
   controlSection: {
     marginHorizontal: 20,
@@ -769,6 +909,26 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderWidth: 2,
+    borderColor: '#3498db',
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  exportButtonText: {
+    color: '#3498db',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   historyList: {
     gap: 12,
   },
@@ -817,6 +977,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6c757d',
   },
+  crmSync: {
+    fontSize: 12,
+    color: '#6c757d',
+    marginTop: 4,
+  },
+  crmSyncFailed: {
+    color: '#e74c3c',
+  },
+  callNote: {
+    fontSize: 14,
+    color: '#2c3e50',
+    marginTop: 8,
+  },
+  callTags: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+    marginTop: 4,
+  },
+  notesToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+    marginTop: 8,
+  },
   loadingContainer: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -1,32 +1,193 @@
 import { NativeModules, NativeEventEmitter } from 'react-native';
 import type { EmitterSubscription } from 'react-native';
-import { CallLogEntry } from './hooks/types';
+import { CallLogEntry, CallType } from './hooks/types';
 
 const { CallLogModule } = NativeModules;
 
-export const startMonitoring = () => CallLogModule.startMonitoring();
+/**
+ * How the monitoring service saves battery. 'standard' always polls at the
+ * configured interval; 'adaptive' polls at most once a minute while
+ * Android's battery saver is on.
+ */
+export type BatteryMode = 'standard' | 'adaptive';
+
+/**
+ * Configuration of the native monitoring service. It is persisted natively,
+ * so the service restarts with it after a reboot.
+ */
+export type MonitoringOptions = {
+  /** How often the call log is polled, from 1 second to 10 minutes. */
+  pollIntervalMs: number;
+  batteryMode: BatteryMode;
+  /** The call types forwarded to the app; empty forwards every call. */
+  callTypes: CallType[];
+  /** Title of the ongoing "monitoring" notification; empty restores the default. */
+  notificationTitle: string;
+  /** Text of the ongoing "monitoring" notification; empty restores the default. */
+  notificationText: string;
+};
+
+export const DEFAULT_MONITORING_OPTIONS: MonitoringOptions = {
+  pollIntervalMs: 5000,
+  batteryMode: 'standard',
+  callTypes: [],
+  notificationTitle: 'Monitoring Call Logs',
+  notificationText: 'Watching call history for changes...',
+};
+
+/**
+ * Starts the monitoring service, or updates the running service.
+ * @param {Partial<MonitoringOptions>} [options] - Options to change; omitted options keep
+ * their saved value.
+ */
+export const startMonitoring = (options?: Partial<MonitoringOptions>) =>
+  CallLogModule.startMonitoring(options ?? null);
 export const stopMonitoring = () => CallLogModule.stopMonitoring();
 
+/**
+ * Saves monitoring options without starting the service. A running service
+ * applies them from its next poll.
+ * @param {Partial<MonitoringOptions>} options - Options to change.
+ * @returns {Promise<MonitoringOptions>} The complete saved configuration.
+ */
+export const setMonitoringOptions = (
+  options: Partial<MonitoringOptions>,
+): Promise<MonitoringOptions> => CallLogModule.setMonitoringOptions(options);
+
+/**
+ * Reads the saved monitoring configuration.
+ * @returns {Promise<MonitoringOptions>} The configuration, or the defaults.
+ */
+export const getMonitoringOptions = (): Promise<MonitoringOptions> =>
+  CallLogModule.getMonitoringOptions();
+
+/**
+ * What the native monitoring service is actually doing. Kept in memory by
+ * the native side, so it reads as stopped after Android kills the app.
+ */
+export type MonitoringStatus = {
+  isRunning: boolean;
+  startedAt: number | null;
+  /** When the call log was last read successfully. */
+  lastPollAt: number | null;
+  /** The delay until the next poll, longer while battery saver is on. */
+  pollDelayMs: number | null;
+  /** The last error the service ran into, such as a missing permission. */
+  lastError: string | null;
+  lastErrorAt: number | null;
+  /** The calls forwarded to the app since the service started. */
+  callsEmitted: number;
+};
+
+/**
+ * Reads the current state of the monitoring service.
+ * @returns {Promise<MonitoringStatus>} The status.
+ */
+export const getMonitoringStatus = (): Promise<MonitoringStatus> =>
+  CallLogModule.getMonitoringStatus();
+
+/**
+ * Reads the calls logged after a timestamp, oldest first. Used to catch up on
+ * calls made while the monitoring service was not running. Rejects with code
+ * "E_PERMISSION" when READ_CALL_LOG has not been granted.
+ * @param {number} timestamp - Only calls strictly newer than this timestamp are returned.
+ * @param {number} limit - The maximum number of calls to return; the oldest are kept.
+ * @returns {Promise<CallLogEntry[]>} The calls, in chronological order.
+ */
+export const getCallsSince = (
+  timestamp: number,
+  limit: number,
+): Promise<CallLogEntry[]> => CallLogModule.getCallsSince(timestamp, limit);
+
+/**
+ * Checks whether an app is installed, e.g. "com.whatsapp.w4b". The package
+ * must be listed under `<queries>` in the Android manifest.
+ * @param {string} packageName - The Android package name.
+ * @returns {Promise<boolean>} Whether the package is installed.
+ */
+export const isPackageInstalled = (packageName: string): Promise<boolean> =>
+  CallLogModule.isPackageInstalled(packageName);
+
+/**
+ * Opens a URL in a specific app, for links that several installed apps can
+ * handle (e.g. `whatsapp://` for WhatsApp and WhatsApp Business).
+ * @param {string} url - The URL to open.
+ * @param {string} packageName - The Android package that should open it.
+ * @returns {Promise<boolean>} Whether the app could be started.
+ */
+export const openUrlInPackage = (
+  url: string,
+  packageName: string,
+): Promise<boolean> => CallLogModule.openUrlInPackage(url, packageName);
+
+/**
+ * Writes text to a file in the app's cache and opens the system share sheet
+ * for it, so large exports are shared as a file rather than as message text.
+ * @param {string} fileName - The file name, e.g. "call-history-2024-01-31.csv".
+ * @param {string} content - The file content.
+ * @param {string} mimeType - The MIME type offered to the receiving app.
+ * @param {string} title - The title of the share sheet.
+ * @returns {Promise<string>} The content:// URI of the shared file.
+ */
+export const shareFile = (
+  fileName: string,
+  content: string,
+  mimeType: string,
+  title: string,
+): Promise<string> =>
+  CallLogModule.shareFile(fileName, content, mimeType, title);
+
 const emitter = new NativeEventEmitter(CallLogModule);
 
+/**
+ * Payload of the 'CallLogBatch' event: every call logged since the previous
+ * batch, oldest first. Calls that end within the same poll window arrive in
+ * one batch.
+ */
+export type CallLogBatch = {
+  calls: CallLogEntry[];
+};
+
 /**
  * Subscribes to call log updates from the native module. This function sets up an event listener
- * that listens for 'CallLogUpdated' events emitted by the native module. When a new call log entry
- * is detected, the provided callback function is invoked with the call log data.
+ * that listens for 'CallLogBatch' events emitted by the native module. When new call log entries
+ * are detected, the provided callback function is invoked with all of them.
  *
- * @param {function(CallLogEntry): void} callback - The function to be called when a new call log
- * update is received. It receives a CallLogEntry object as an argument.
+ * @param {function(CallLogBatch): void} callback - The function to be called when a batch of new
+ * call log entries is received.
  * @returns {function(): void} A function that can be called to unsubscribe from call log updates
  * and remove the event listener.
  */
-
 export const subscribeToCallUpdates = (
-  callback: (data: CallLogEntry) => void,
+  callback: (batch: CallLogBatch) => void,
+): (() => void) => {
+  CallLogModule.addListener('CallLogBatch');
+
+  const listener: EmitterSubscription = emitter.addListener(
+    'CallLogBatch',
+    callback,
+  );
+
+  return () => {
+    listener.remove();
+    CallLogModule.removeListeners(1);
+  };
+};
+
+/**
+ * Subscribes to 'MonitoringStatus' events. The service sends one after every
+ * poll and when it starts or stops, so a missing event means it has stalled.
+ *
+ * @param {function(MonitoringStatus): void} callback - Called with the new status.
+ * @returns {function(): void} A function that removes the listener.
+ */
+export const subscribeToMonitoringStatus = (
+  callback: (status: MonitoringStatus) => void,
 ): (() => void) => {
-  CallLogModule.addListener('CallLogUpdated');
+  CallLogModule.addListener('MonitoringStatus');
 
   const listener: EmitterSubscription = emitter.addListener(
-    'CallLogUpdated',
+    'MonitoringStatus',
     callback,
   );
 
@@ -7,7 +7,12 @@ import ReactTestRenderer from 'react-test-renderer';
 import App from '../App';
 
 test('renders correctly', async () => {
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<App />);
+  });
+  // Stops the periodic monitoring status refresh.
   await ReactTestRenderer.act(() => {
-    ReactTestRenderer.create(<App />);
+    renderer?.unmount();
   });
 });
@@ -0,0 +1,109 @@
+import notifee from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, BusinessHours } from '../hooks/types';
+import {
+  DEFAULT_BUSINESS_HOURS,
+  deliverClientCheck,
+  getNextBusinessWindowStart,
+  getZonedDateParts,
+  isValidTimeZone,
+  isWithinBusinessHours,
+  parseTimeOfDay,
+  saveBusinessHours,
+  zonedTimeToTimestamp,
+} from '../utils/BusinessHours';
+
+// Mon-Fri 09:00-18:00 in India (UTC+05:30, no daylight saving).
+const hours: BusinessHours = {
+  ...DEFAULT_BUSINESS_HOURS,
+  enabled: true,
+  timeZone: 'Asia/Kolkata',
+  holidays: ['2024-01-26'],
+};
+
+// 2024-01-15 is a Monday.
+const ist = (day: number, hour: number, minute = 0) =>
+  Date.UTC(2024, 0, day, hour, minute) - 330 * 60 * 1000;
+
+const call: AnalyzedCall = {
+  type: 'missed',
+  number: '+919876543210',
+  duration: 0,
+  timestamp: ist(15, 22),
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+});
+
+test('parses times of day and time zones', () => {
+  expect(parseTimeOfDay('09:30')).toBe(570);
+  expect(parseTimeOfDay('24:00')).toBeNull();
+  expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+  expect(isValidTimeZone('')).toBe(true);
+  expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+});
+
+test('reads the wall clock in the schedule time zone', () => {
+  expect(getZonedDateParts(ist(15, 23, 45), 'Asia/Kolkata')).toEqual({
+    dateKey: '2024-01-15',
+    weekday: 1,
+    minutes: 23 * 60 + 45,
+  });
+  expect(zonedTimeToTimestamp('2024-01-15', 9 * 60, 'Asia/Kolkata')).toBe(
+    ist(15, 9),
+  );
+});
+
+test('handles daylight saving changes', () => {
+  // New York moves to UTC-4 on 2024-03-10.
+  expect(zonedTimeToTimestamp('2024-03-11', 9 * 60, 'America/New_York')).toBe(
+    Date.UTC(2024, 2, 11, 13),
+  );
+  expect(zonedTimeToTimestamp('2024-03-08', 9 * 60, 'America/New_York')).toBe(
+    Date.UTC(2024, 2, 8, 14),
+  );
+});
+
+test('checks business hours, weekends and holidays', () => {
+  expect(isWithinBusinessHours(ist(15, 9), hours)).toBe(true);
+  expect(isWithinBusinessHours(ist(15, 18), hours)).toBe(false);
+  expect(isWithinBusinessHours(ist(20, 12), hours)).toBe(false);
+  expect(isWithinBusinessHours(ist(26, 12), hours)).toBe(false);
+  expect(isWithinBusinessHours(ist(20, 12), DEFAULT_BUSINESS_HOURS)).toBe(true);
+});
+
+test('finds the next opening', () => {
+  expect(getNextBusinessWindowStart(ist(15, 12), hours)).toBe(ist(15, 12));
+  expect(getNextBusinessWindowStart(ist(15, 7), hours)).toBe(ist(15, 9));
+  expect(getNextBusinessWindowStart(ist(15, 22), hours)).toBe(ist(16, 9));
+  // Friday evening before a weekend.
+  expect(getNextBusinessWindowStart(ist(19, 20), hours)).toBe(ist(22, 9));
+  // Thursday evening before the Friday holiday.
+  expect(getNextBusinessWindowStart(ist(25, 20), hours)).toBe(ist(29, 9));
+  expect(
+    getNextBusinessWindowStart(ist(15, 22), {
+      ...hours,
+      weekly: hours.weekly.map(day => ({ ...day, enabled: false })),
+    }),
+  ).toBeNull();
+});
+
+test('prompts right away inside business hours', async () => {
+  await saveBusinessHours(hours);
+  await expect(deliverClientCheck(call, ist(16, 10))).resolves.toBe('prompted');
+  expect(notifee.displayNotification).toHaveBeenCalledTimes(1);
+});
+
+test('holds prompts until the next opening', async () => {
+  jest.spyOn(Date, 'now').mockReturnValue(ist(15, 22));
+  await saveBusinessHours(hours);
+  await expect(deliverClientCheck(call, ist(15, 22))).resolves.toBe('held');
+  expect(notifee.displayNotification).not.toHaveBeenCalled();
+  expect(notifee.createTriggerNotification).toHaveBeenCalledWith(
+    expect.objectContaining({ id: `client_check_${call.timestamp}` }),
+    expect.objectContaining({ timestamp: ist(16, 9) }),
+  );
+  jest.restoreAllMocks();
+});
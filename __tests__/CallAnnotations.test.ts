@@ -0,0 +1,117 @@
+import notifee, { Event, EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  annotateCall,
+  annotateCallInList,
+  getAllTags,
+  parseNoteInput,
+  parseTagList,
+} from '../utils/CallAnnotations';
+import {
+  addCallToHistory,
+  loadCallHistory,
+} from '../utils/CallHistoryRepository';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+import { getCallNotesId } from '../utils/Notification';
+
+const call: AnalyzedCall = {
+  type: 'incoming',
+  number: '+919876543210',
+  duration: 45,
+  timestamp: 1700000000000,
+};
+
+function buildEvent(actionId: string, input?: string): Event {
+  return {
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: {
+        id: getCallNotesId(call),
+        data: { callData: JSON.stringify(call) },
+      },
+      pressAction: { id: actionId },
+      input,
+    },
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('turns hashtags in a note into tags', () => {
+  expect(
+    parseNoteInput('Wants pricing for 20 units #quote_requested #Urgent'),
+  ).toEqual({
+    note: 'Wants pricing for 20 units',
+    tags: ['quote requested', 'urgent'],
+  });
+  expect(parseTagList(' Complaint, ,complaint,  late   delivery ')).toEqual([
+    'complaint',
+    'late delivery',
+  ]);
+});
+
+test('annotates a call in the list, adding it when missing', () => {
+  const other = { ...call, timestamp: call.timestamp - 1000 };
+  const history = annotateCallInList([other], call, {
+    note: 'Asked for a quote',
+    tags: ['Quote requested'],
+  });
+
+  expect(history).toEqual([
+    { ...call, note: 'Asked for a quote', tags: ['quote requested'] },
+    other,
+  ]);
+  expect(
+    annotateCallInList(
+      history,
+      { ...call, number: '098765 43210' },
+      current => ({
+        tags: [...current.tags, 'complaint'],
+      }),
+    )[0].tags,
+  ).toEqual(['quote requested', 'complaint']);
+  expect(getAllTags(history)).toEqual(['quote requested']);
+});
+
+test('saves annotations to the stored history', async () => {
+  await addCallToHistory(call);
+  await annotateCall(call, { followUpStatus: 'done' });
+
+  await expect(loadCallHistory()).resolves.toEqual([
+    { ...call, followUpStatus: 'done' },
+  ]);
+});
+
+test('the note action stores the typed note and keeps existing tags', async () => {
+  await addCallToHistory({ ...call, tags: ['order'] });
+
+  await handleNotificationEvent(
+    buildEvent(NOTIFICATION_ACTIONS.ADD_NOTE, 'Delivery was late #complaint'),
+  );
+
+  const [stored] = await loadCallHistory();
+  expect(stored).toMatchObject({
+    note: 'Delivery was late',
+    tags: ['order', 'complaint'],
+  });
+  expect(notifee.cancelNotification).toHaveBeenCalledWith(getCallNotesId(call));
+});
+
+test('the follow-up action marks the call as pending', async () => {
+  await handleNotificationEvent(buildEvent(NOTIFICATION_ACTIONS.FOLLOW_UP));
+
+  const [stored] = await loadCallHistory();
+  expect(stored.followUpStatus).toBe('pending');
+});
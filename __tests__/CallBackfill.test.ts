@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, CallLogEntry } from '../hooks/types';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+import {
+  BACKFILL_LIMIT,
+  dismissUnprocessedCalls,
+  findUnprocessedCalls,
+  loadLastProcessedTimestamp,
+  markCallProcessed,
+} from '../utils/CallBackfill';
+import { claimCall, hasProcessedCall } from '../utils/ProcessedCalls';
+
+const now = Date.UTC(2024, 0, 15, 10, 0);
+
+const missedEntry: CallLogEntry = {
+  number: '+919876543210',
+  type: 3,
+  duration: 0,
+  timestamp: now - 60 * 60 * 1000,
+};
+const answeredEntry: CallLogEntry = {
+  number: '+14155550123',
+  type: 1,
+  duration: 90,
+  timestamp: now - 30 * 60 * 1000,
+};
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  fakeCallLogModule.reset();
+  await AsyncStorage.clear();
+});
+
+test('starts from now on the first run instead of offering the whole log', async () => {
+  await expect(findUnprocessedCalls(now)).resolves.toEqual([]);
+  expect(fakeCallLogModule.getCallsSince).not.toHaveBeenCalled();
+  await expect(loadLastProcessedTimestamp()).resolves.toBe(now);
+});
+
+test('offers the calls logged since the last processed call', async () => {
+  await markCallProcessed(now - 2 * 60 * 60 * 1000);
+  fakeCallLogModule.setCallLog([missedEntry, answeredEntry]);
+
+  const calls = await findUnprocessedCalls(now);
+
+  expect(fakeCallLogModule.getCallsSince).toHaveBeenCalledWith(
+    now - 2 * 60 * 60 * 1000,
+    BACKFILL_LIMIT,
+  );
+  expect(calls.map(call => [call.type, call.number])).toEqual([
+    ['missed', '+919876543210'],
+    ['incoming', '+14155550123'],
+  ]);
+});
+
+test('leaves out calls that were already handled', async () => {
+  await markCallProcessed(now - 2 * 60 * 60 * 1000);
+  await claimCall({
+    type: 'missed',
+    number: '098765 43210',
+    duration: 0,
+    timestamp: missedEntry.timestamp,
+  });
+  fakeCallLogModule.setCallLog([missedEntry, answeredEntry]);
+
+  const calls = await findUnprocessedCalls(now);
+  expect(calls.map(call => call.number)).toEqual(['+14155550123']);
+});
+
+test('leaves out call types the monitoring service does not forward', async () => {
+  await markCallProcessed(now - 2 * 60 * 60 * 1000);
+  await fakeCallLogModule.setMonitoringOptions({ callTypes: ['incoming'] });
+  fakeCallLogModule.setCallLog([missedEntry, answeredEntry]);
+
+  const calls = await findUnprocessedCalls(now);
+
+  expect(calls.map(call => call.number)).toEqual(['+14155550123']);
+  // The excluded missed call is skipped for good.
+  await expect(loadLastProcessedTimestamp()).resolves.toBe(
+    missedEntry.timestamp,
+  );
+});
+
+test('moves past a window of calls that are all excluded', async () => {
+  await markCallProcessed(now - 2 * 60 * 60 * 1000);
+  await fakeCallLogModule.setMonitoringOptions({ callTypes: ['outgoing'] });
+  fakeCallLogModule.setCallLog([missedEntry, answeredEntry]);
+
+  await expect(findUnprocessedCalls(now)).resolves.toEqual([]);
+  await expect(loadLastProcessedTimestamp()).resolves.toBe(
+    answeredEntry.timestamp,
+  );
+});
+
+test('offers nothing when the call log cannot be read', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  await markCallProcessed(now - 1000);
+  fakeCallLogModule.setCallLog([missedEntry]);
+  fakeCallLogModule.setPermissionGranted(false);
+
+  await expect(findUnprocessedCalls(now)).resolves.toEqual([]);
+});
+
+test('dismissing moves past the newest offered call and never backwards', async () => {
+  const calls: AnalyzedCall[] = [
+    { type: 'missed', number: '1', duration: 0, timestamp: now - 2000 },
+    { type: 'missed', number: '2', duration: 0, timestamp: now - 1000 },
+  ];
+  await markCallProcessed(now - 5000);
+
+  await dismissUnprocessedCalls(calls);
+  await expect(loadLastProcessedTimestamp()).resolves.toBe(now - 1000);
+  await expect(hasProcessedCall(calls[0])).resolves.toBe(true);
+
+  await markCallProcessed(now - 3000);
+  await expect(loadLastProcessedTimestamp()).resolves.toBe(now - 1000);
+});
+
+test('keeps the newest timestamp when calls are marked at the same time', async () => {
+  await Promise.all([
+    markCallProcessed(now - 1000),
+    markCallProcessed(now - 3000),
+    markCallProcessed(now - 2000),
+  ]);
+  await expect(loadLastProcessedTimestamp()).resolves.toBe(now - 1000);
+});
@@ -0,0 +1,72 @@
+import { AnalyzedCall } from '../hooks/types';
+import {
+  EXPORT_FORMAT_IDENTIFIER,
+  callHistoryToCsv,
+  callHistoryToJson,
+  shareCallHistoryExport,
+} from '../utils/CallHistoryExport';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+
+const calls: AnalyzedCall[] = [
+  {
+    type: 'incoming',
+    number: '+919876543210',
+    duration: 42,
+    timestamp: Date.UTC(2024, 0, 15, 10, 30),
+  },
+  {
+    type: 'missed',
+    number: '022,2345 "6789"',
+    duration: 0,
+    timestamp: Date.UTC(2024, 0, 16, 8),
+  },
+];
+
+test('writes CSV with ISO timestamps and escaped values', () => {
+  expect(callHistoryToCsv(calls).split('\r\n')).toEqual([
+    'number,type,duration,timestamp',
+    "'+919876543210,incoming,42,2024-01-15T10:30:00.000Z",
+    '"022,2345 ""6789""",missed,0,2024-01-16T08:00:00.000Z',
+  ]);
+});
+
+test('keeps values a spreadsheet would run as formulas as text', () => {
+  const withNote = [
+    {
+      ...calls[0],
+      note: '=HYPERLINK("http://example.com","Click")',
+    } as AnalyzedCall,
+  ];
+  expect(callHistoryToCsv(withNote).split('\r\n')[1]).toBe(
+    "'+919876543210,incoming,42,2024-01-15T10:30:00.000Z," +
+      '"\'=HYPERLINK(""http://example.com"",""Click"")"',
+  );
+});
+
+test('adds columns for extra fields on the records', () => {
+  const withCampaign = [{ ...calls[0], campaign: 'spring' } as AnalyzedCall];
+  expect(callHistoryToCsv(withCampaign).split('\r\n')[0]).toBe(
+    'number,type,duration,timestamp,campaign',
+  );
+});
+
+test('writes JSON that carries the calls and the format', () => {
+  const exported = JSON.parse(callHistoryToJson(calls));
+  expect(exported.format).toBe(EXPORT_FORMAT_IDENTIFIER);
+  expect(exported.calls).toEqual(calls);
+});
+
+test('shares the export as a file', async () => {
+  fakeCallLogModule.reset();
+
+  await expect(shareCallHistoryExport(calls, 'csv')).resolves.toMatch(
+    /^content:\/\/.*\.csv$/,
+  );
+  expect(fakeCallLogModule.sharedFiles).toEqual([
+    {
+      fileName: expect.stringMatching(/^call-history-\d{4}-\d{2}-\d{2}\.csv$/),
+      content: callHistoryToCsv(calls),
+      mimeType: 'text/csv',
+    },
+  ]);
+});
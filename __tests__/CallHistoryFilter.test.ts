@@ -0,0 +1,85 @@
+import { AnalyzedCall } from '../hooks/types';
+import {
+  DEFAULT_CALL_HISTORY_FILTER,
+  filterCallHistory,
+  isFilterActive,
+  parseDateInput,
+} from '../utils/CallHistoryFilter';
+
+const calls: AnalyzedCall[] = [
+  {
+    type: 'incoming',
+    number: '+91 98765 43210',
+    duration: 120,
+    timestamp: new Date(2024, 0, 15, 10).getTime(),
+    tags: ['quote requested'],
+  },
+  {
+    type: 'missed',
+    number: '022-2345-6789',
+    duration: 0,
+    timestamp: new Date(2024, 0, 16, 23, 59).getTime(),
+    tags: ['complaint'],
+  },
+  {
+    type: 'outgoing',
+    number: '9123456780',
+    duration: 15,
+    timestamp: new Date(2024, 0, 20, 9).getTime(),
+  },
+];
+
+const filterNumbers = (filter: Partial<typeof DEFAULT_CALL_HISTORY_FILTER>) =>
+  filterCallHistory(calls, { ...DEFAULT_CALL_HISTORY_FILTER, ...filter }).map(
+    call => call.number,
+  );
+
+test('the default filter matches everything', () => {
+  expect(isFilterActive(DEFAULT_CALL_HISTORY_FILTER)).toBe(false);
+  expect(filterNumbers({})).toHaveLength(3);
+});
+
+test('matches partial numbers regardless of formatting', () => {
+  expect(filterNumbers({ query: '6543' })).toEqual(['+91 98765 43210']);
+  expect(filterNumbers({ query: '2345-6789' })).toEqual(['022-2345-6789']);
+  expect(filterNumbers({ query: '345' })).toHaveLength(2);
+});
+
+test('filters by call type', () => {
+  expect(filterNumbers({ types: ['missed', 'outgoing'] })).toEqual([
+    '022-2345-6789',
+    '9123456780',
+  ]);
+});
+
+test('filters by an inclusive date range', () => {
+  expect(
+    filterNumbers({ fromDate: '2024-01-16', toDate: '2024-01-16' }),
+  ).toEqual(['022-2345-6789']);
+  expect(filterNumbers({ fromDate: '2024-01-16' })).toHaveLength(2);
+  expect(filterNumbers({ toDate: 'not a date' })).toHaveLength(3);
+});
+
+test('filters by minimum duration', () => {
+  expect(filterNumbers({ minDuration: 15 })).toEqual([
+    '+91 98765 43210',
+    '9123456780',
+  ]);
+});
+
+test('filters by tags, matching calls with any of them', () => {
+  expect(
+    isFilterActive({ ...DEFAULT_CALL_HISTORY_FILTER, tags: ['order'] }),
+  ).toBe(true);
+  expect(filterNumbers({ tags: ['complaint'] })).toEqual(['022-2345-6789']);
+  expect(filterNumbers({ tags: ['complaint', 'quote requested'] })).toEqual([
+    '+91 98765 43210',
+    '022-2345-6789',
+  ]);
+  expect(filterNumbers({ tags: ['order'] })).toEqual([]);
+});
+
+test('rejects impossible dates', () => {
+  expect(parseDateInput('2024-02-30')).toBeNull();
+  expect(parseDateInput('2024-02-29')).toBe(new Date(2024, 1, 29).getTime());
+});
@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  applyImport,
+  detectColumnMapping,
+  parseCsv,
+  readCsvImport,
+  readJsonImport,
+} from '../utils/CallHistoryImport';
+import {
+  callHistoryToCsv,
+  callHistoryToJson,
+} from '../utils/CallHistoryExport';
+import {
+  addCallToHistory,
+  loadCallHistory,
+} from '../utils/CallHistoryRepository';
+import {
+  loadContactClassifications,
+  setContactClassification,
+} from '../utils/ContactClassification';
+
+const calls: AnalyzedCall[] = [
+  {
+    type: 'incoming',
+    number: '+919876543210',
+    duration: 42,
+    timestamp: Date.UTC(2024, 0, 15, 10, 30),
+  },
+  {
+    type: 'missed',
+    number: '+919876500000',
+    duration: 0,
+    timestamp: Date.UTC(2024, 0, 14, 8),
+  },
+];
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('parses quoted CSV fields', () => {
+  expect(parseCsv('a,b\r\n"1,2","say ""hi""\nthere"\n\n')).toEqual([
+    ['a', 'b'],
+    ['1,2', 'say "hi"\nthere'],
+  ]);
+});
+
+test('detects columns from common header names', () => {
+  expect(
+    detectColumnMapping(['Phone Number', 'Call Type', 'Date', 'Notes']),
+  ).toEqual({
+    number: 'Phone Number',
+    type: 'Call Type',
+    duration: null,
+    timestamp: 'Date',
+    clientStatus: null,
+  });
+});
+
+test('round-trips the JSON export including client decisions', () => {
+  const candidates = readJsonImport(
+    callHistoryToJson(calls, { '+919876500000': 'not_client' }),
+  );
+  expect(candidates).toEqual({
+    calls,
+    classifications: { '+919876500000': 'not_client' },
+    malformed: 0,
+  });
+});
+
+test('keeps only known fields with valid values from JSON records', () => {
+  const { calls: imported } = readJsonImport(
+    JSON.stringify([
+      {
+        ...calls[0],
+        direction: 'incoming',
+        outcome: 'answered',
+        note: 'Wants a quote',
+        tags: ['quote requested', 7],
+        followUpStatus: 'pending',
+        campaign: 'spring',
+      },
+      {
+        ...calls[1],
+        direction: 'sideways',
+        outcome: 42,
+        note: { text: 'not a note' },
+        tags: 'complaint',
+        followUpStatus: 'someday',
+      },
+    ]),
+  );
+
+  expect(imported).toEqual([
+    {
+      ...calls[0],
+      direction: 'incoming',
+      outcome: 'answered',
+      note: 'Wants a quote',
+      tags: ['quote requested'],
+      followUpStatus: 'pending',
+    },
+    calls[1],
+  ]);
+});
+
+test('round-trips the CSV export', () => {
+  const csv = callHistoryToCsv(calls);
+  const [headers] = parseCsv(csv);
+  expect(readCsvImport(csv, detectColumnMapping(headers)).calls).toEqual(calls);
+});
+
+test('reads generic CSVs with a custom mapping', () => {
+  const csv = [
+    'Caller,Kind,Length,When,Client?',
+    '98765 43210,Received,1:05,2024-01-15T10:30:00Z,yes',
+    '98765 00000,2,30,1705300000,',
+    ',missed,0,2024-01-15,',
+    '12345678,missed,abc,2024-01-15,',
+  ].join('\n');
+
+  const candidates = readCsvImport(csv, {
+    number: 'Caller',
+    type: 'Kind',
+    duration: 'Length',
+    timestamp: 'When',
+    clientStatus: 'Client?',
+  });
+
+  expect(candidates.malformed).toBe(2);
+  expect(candidates.calls).toEqual([
+    {
+      type: 'incoming',
+      number: '98765 43210',
+      duration: 65,
+      timestamp: Date.UTC(2024, 0, 15, 10, 30),
+    },
+    {
+      type: 'outgoing',
+      number: '98765 00000',
+      duration: 30,
+      timestamp: 1705300000000,
+    },
+  ]);
+  expect(candidates.classifications).toEqual({ '98765 43210': 'client' });
+});
+
+test('treats a CSV without timestamps as a client list', () => {
+  const candidates = readCsvImport('number,client\n9876543210,no\n55,maybe', {
+    number: 'number',
+    type: null,
+    duration: null,
+    timestamp: null,
+    clientStatus: 'client',
+  });
+  expect(candidates).toEqual({
+    calls: [],
+    classifications: { '9876543210': 'not_client' },
+    malformed: 1,
+  });
+});
+
+test('merges into history and reports duplicates and conflicts', async () => {
+  await addCallToHistory(calls[0]);
+  await setContactClassification('+919876543210', 'client');
+
+  const report = await applyImport({
+    calls: [{ ...calls[0], number: '098765 43210' }, calls[1], calls[1]],
+    classifications: {
+      '9876543210': 'not_client',
+      '9876500000': 'not_client',
+    },
+    malformed: 3,
+  });
+
+  expect(report).toEqual({
+    added: 1,
+    duplicates: 2,
+    malformed: 3,
+    contactsAdded: 1,
+    contactConflicts: 1,
+  });
+  await expect(loadCallHistory()).resolves.toEqual(calls);
+  await expect(loadContactClassifications()).resolves.toEqual({
+    '+919876543210': 'client',
+    '+919876500000': 'not_client',
+  });
+});
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  CALL_HISTORY_SCHEMA_VERSION,
+  CALL_HISTORY_STORAGE_KEY,
+  addCallToHistory,
+  clearCallHistory,
+  loadCallHistory,
+  migrateCallHistory,
+  subscribeToCallHistory,
+} from '../utils/CallHistoryRepository';
+
+const call: AnalyzedCall = {
+  type: 'incoming',
+  number: '+919876543210',
+  duration: 42,
+  timestamp: 1700000000000,
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('migrateCallHistory', () => {
+  test('wraps a legacy bare array and sanitizes its records', () => {
+    const migrated = migrateCallHistory([
+      call,
+      {
+        number: '9876500000',
+        type: 3,
+        duration: '0',
+        timestamp: '1700000001000',
+      },
+      {
+        number: '9876500001',
+        type: 'voicemail',
+        timestamp: 1700000002000,
+        outcome: 'hung up',
+        clientStatus: 'client',
+      },
+      { type: 'missed' },
+      null,
+    ]);
+
+    expect(migrated).toEqual({
+      version: CALL_HISTORY_SCHEMA_VERSION,
+      calls: [
+        call,
+        {
+          type: 'missed',
+          number: '9876500000',
+          duration: 0,
+          timestamp: 1700000001000,
+          direction: 'incoming',
+          outcome: 'missed',
+        },
+        {
+          type: 'unknown',
+          number: '9876500001',
+          duration: 0,
+          timestamp: 1700000002000,
+        },
+      ],
+    });
+  });
+
+  test('leaves current data untouched', () => {
+    const stored = { version: CALL_HISTORY_SCHEMA_VERSION, calls: [call] };
+    expect(migrateCallHistory(stored)).toEqual(stored);
+  });
+});
+
+test('reads history written in the legacy format', async () => {
+  await AsyncStorage.setItem(CALL_HISTORY_STORAGE_KEY, JSON.stringify([call]));
+
+  await expect(loadCallHistory()).resolves.toEqual([call]);
+});
+
+test('serializes concurrent writes so none are lost', async () => {
+  const calls = [0, 1, 2, 3, 4].map(i => ({
+    ...call,
+    timestamp: call.timestamp + i,
+  }));
+
+  await Promise.all(calls.map(addCallToHistory));
+
+  const stored = await loadCallHistory();
+  expect(stored).toHaveLength(5);
+  expect(
+    JSON.parse((await AsyncStorage.getItem(CALL_HISTORY_STORAGE_KEY))!).version,
+  ).toBe(CALL_HISTORY_SCHEMA_VERSION);
+});
+
+test('skips duplicates and notifies subscribers of changes', async () => {
+  const listener = jest.fn();
+  const unsubscribe = subscribeToCallHistory(listener);
+
+  await addCallToHistory(call);
+  await addCallToHistory({ ...call, number: '098765 43210' });
+  await clearCallHistory();
+  unsubscribe();
+
+  expect(listener.mock.calls).toEqual([[[call]], [[]]]);
+});
@@ -0,0 +1,135 @@
+import { CallLogEntry } from '../hooks/types';
+import {
+  analyzeCallLogBatch,
+  analyzeCallLogEntry,
+  getCallClassification,
+} from '../utils/CallLogAnalyzer';
+
+function entry(type: number, duration: number): CallLogEntry {
+  return { number: '+919876543210', type, duration, timestamp: 1700000000000 };
+}
+
+test('analyzes a batch oldest first', () => {
+  const missed = {
+    number: '+919876543210',
+    type: 3,
+    duration: 0,
+    timestamp: 1700000000000,
+  };
+  const callBack = {
+    number: '+919876543210',
+    type: 2,
+    duration: 42,
+    timestamp: 1700000003000,
+  };
+
+  expect(analyzeCallLogBatch([callBack, missed])).toEqual([
+    { ...missed, type: 'missed', direction: 'incoming', outcome: 'missed' },
+    {
+      ...callBack,
+      type: 'outgoing',
+      direction: 'outgoing',
+      outcome: 'answered',
+    },
+  ]);
+});
+
+test('drops malformed entries', () => {
+  expect(
+    analyzeCallLogBatch([
+      null,
+      { number: 12345, type: 1, duration: 0, timestamp: 1 },
+      { number: '12345', type: 1, duration: 10, timestamp: 2 },
+    ]),
+  ).toEqual([
+    {
+      number: '12345',
+      type: 'incoming',
+      duration: 10,
+      timestamp: 2,
+      direction: 'incoming',
+      outcome: 'answered',
+    },
+  ]);
+});
+
+test.each([
+  [4, 0, 'missed', 'incoming', 'voicemail'],
+  [5, 0, 'rejected', 'incoming', 'rejected'],
+  [6, 0, 'unknown', 'incoming', 'blocked'],
+  [7, 0, 'incoming', 'incoming', 'answered_elsewhere'],
+  [9, 0, 'unknown', 'unknown', 'unknown'],
+])(
+  'classifies call log type %i',
+  (type, duration, callType, direction, outcome) => {
+    expect(analyzeCallLogEntry(entry(type, duration))).toMatchObject({
+      type: callType,
+      direction,
+      outcome,
+    });
+  },
+);
+
+test('tells very short incoming calls apart while keeping their type', () => {
+  expect(analyzeCallLogEntry(entry(1, 0))).toMatchObject({
+    type: 'missed',
+    outcome: 'very_short',
+  });
+  expect(analyzeCallLogEntry(entry(1, 3))).toMatchObject({
+    type: 'incoming',
+    outcome: 'very_short',
+  });
+  expect(analyzeCallLogEntry(entry(1, 5))).toMatchObject({
+    type: 'incoming',
+    outcome: 'answered',
+  });
+});
+
+test('applies the configured thresholds', () => {
+  const thresholds = { veryShortCallSeconds: 10, unansweredOutgoingSeconds: 4 };
+  expect(analyzeCallLogEntry(entry(2, 0))?.outcome).toBe('unanswered');
+  expect(analyzeCallLogEntry(entry(2, 4), thresholds)?.outcome).toBe(
+    'unanswered',
+  );
+  expect(analyzeCallLogEntry(entry(2, 8), thresholds)?.outcome).toBe(
+    'very_short',
+  );
+  expect(analyzeCallLogEntry(entry(1, 8), thresholds)?.outcome).toBe(
+    'very_short',
+  );
+  expect(
+    analyzeCallLogEntry(entry(1, 8), {
+      ...thresholds,
+      veryShortCallSeconds: 0,
+    })?.outcome,
+  ).toBe('answered');
+});
+
+test('never counts an incoming call without talk time as answered', () => {
+  expect(
+    analyzeCallLogEntry(entry(1, 0), {
+      veryShortCallSeconds: 0,
+      unansweredOutgoingSeconds: 0,
+    }),
+  ).toMatchObject({ type: 'missed', outcome: 'very_short' });
+});
+
+test('classifies calls stored without a direction and outcome', () => {
+  const stored = {
+    type: 'outgoing' as const,
+    number: '+919876543210',
+    duration: 0,
+    timestamp: 1700000000000,
+  };
+  expect(getCallClassification(stored)).toEqual({
+    direction: 'outgoing',
+    outcome: 'unanswered',
+  });
+  expect(
+    getCallClassification({
+      ...stored,
+      direction: 'outgoing',
+      outcome: 'answered',
+    }),
+  ).toEqual({ direction: 'outgoing', outcome: 'answered' });
+});
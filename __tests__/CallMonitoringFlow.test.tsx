@@ -0,0 +1,269 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Linking } from 'react-native';
+import notifee, { EventType, Notification } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, CallLogEntry } from '../hooks/types';
+import { startMonitoring, stopMonitoring } from '../CallLogModule';
+import { useCallLogMonitor } from '../hooks/useCallLogMonitor';
+import { processDetectedCall } from '../utils/CallProcessing';
+import * as ProcessedCalls from '../utils/ProcessedCalls';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+import { loadCallHistory } from '../utils/CallHistoryRepository';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+
+const missedEntry: CallLogEntry = {
+  number: '+919876543210',
+  type: 3,
+  duration: 0,
+  timestamp: 1700000000000,
+};
+const answeredEntry: CallLogEntry = {
+  number: '+14155550123',
+  type: 1,
+  duration: 90,
+  timestamp: 1700000060000,
+};
+
+type CallHandler = (call: AnalyzedCall) => Promise<boolean | void>;
+
+function Monitor({ onCallDetected }: { onCallDetected: CallHandler }) {
+  useCallLogMonitor({ onCallDetected });
+  return null;
+}
+
+/**
+ * Retries an assertion until it passes, for work chained onto events that
+ * the test cannot await directly.
+ */
+async function waitFor(assertion: () => void) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      assertion();
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+  assertion();
+}
+
+async function renderMonitor(
+  onCallDetected: CallHandler = processDetectedCall,
+) {
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <Monitor onCallDetected={onCallDetected} />,
+    );
+  });
+  return renderer!;
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  fakeCallLogModule.reset();
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.mocked(Linking.canOpenURL).mockResolvedValue(true);
+  jest.restoreAllMocks();
+});
+
+test('starts and stops the service with the given options', () => {
+  startMonitoring({ callTypes: ['missed'] });
+  expect(fakeCallLogModule.isMonitoring).toBe(true);
+  expect(fakeCallLogModule.options.callTypes).toEqual(['missed']);
+
+  stopMonitoring();
+  expect(fakeCallLogModule.isMonitoring).toBe(false);
+});
+
+test('registers native listeners while mounted and removes them on unmount', async () => {
+  const renderer = await renderMonitor();
+  expect(fakeCallLogModule.listenerCount).toBeGreaterThan(0);
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+  expect(fakeCallLogModule.listenerCount).toBe(0);
+});
+
+test('hands every call of a batch over once, oldest first', async () => {
+  const onCallDetected = jest.fn(async (_call: AnalyzedCall) => {});
+  startMonitoring();
+  const renderer = await renderMonitor(onCallDetected);
+
+  fakeCallLogModule.logCalls([answeredEntry, missedEntry]);
+  fakeCallLogModule.logCalls([answeredEntry]);
+
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(2));
+  expect(onCallDetected.mock.calls.map(([call]) => call)).toEqual([
+    expect.objectContaining({ type: 'missed', number: missedEntry.number }),
+    expect.objectContaining({ type: 'incoming', number: answeredEntry.number }),
+  ]);
+  expect(fakeCallLogModule.status.callsEmitted).toBe(3);
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+});
+
+test('hands over a long call logged after a call that started later', async () => {
+  const onCallDetected = jest.fn(async (_call: AnalyzedCall) => {});
+  startMonitoring();
+  const renderer = await renderMonitor(onCallDetected);
+  const longCall = { ...answeredEntry, duration: 600 };
+  const waitingCall = {
+    ...missedEntry,
+    timestamp: longCall.timestamp + 100000,
+  };
+
+  // The call that came in while the long call was going on ends first.
+  fakeCallLogModule.logCalls([waitingCall]);
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(1));
+  fakeCallLogModule.logCalls([longCall]);
+
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(2));
+  expect(onCallDetected).toHaveBeenLastCalledWith(
+    expect.objectContaining({ number: longCall.number, duration: 600 }),
+  );
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+});
+
+test('does not hand over a call again after a restart', async () => {
+  const onCallDetected = jest.fn(async (_call: AnalyzedCall) => {});
+  startMonitoring();
+  const first = await renderMonitor(onCallDetected);
+  fakeCallLogModule.logCalls([missedEntry]);
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(1));
+  await ReactTestRenderer.act(() => {
+    first.unmount();
+  });
+
+  const second = await renderMonitor(onCallDetected);
+  fakeCallLogModule.logCalls([missedEntry, answeredEntry]);
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(2));
+  expect(onCallDetected).toHaveBeenLastCalledWith(
+    expect.objectContaining({ number: answeredEntry.number }),
+  );
+
+  await ReactTestRenderer.act(() => {
+    second.unmount();
+  });
+});
+
+test('hands a call over again when it was not handled', async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const onCallDetected = jest
+    .fn<Promise<boolean | void>, [AnalyzedCall]>()
+    .mockRejectedValueOnce(new Error('boom'))
+    .mockResolvedValueOnce(false)
+    .mockResolvedValue(undefined);
+  startMonitoring();
+  const renderer = await renderMonitor(onCallDetected);
+
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    fakeCallLogModule.logCalls([missedEntry]);
+    await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(attempt));
+  }
+  await expect(
+    ProcessedCalls.hasProcessedCall(onCallDetected.mock.calls[2][0]),
+  ).resolves.toBe(true);
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+});
+
+test('keeps handling batches after one of them fails', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest
+    .spyOn(ProcessedCalls, 'claimCall')
+    .mockRejectedValueOnce(new Error('storage unavailable'));
+  const onCallDetected = jest.fn(async (_call: AnalyzedCall) => {});
+  startMonitoring();
+  const renderer = await renderMonitor(onCallDetected);
+
+  fakeCallLogModule.logCalls([missedEntry]);
+  fakeCallLogModule.logCalls([answeredEntry]);
+
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(1));
+  expect(onCallDetected).toHaveBeenCalledWith(
+    expect.objectContaining({ number: answeredEntry.number }),
+  );
+  expect(console.error).toHaveBeenCalledWith(
+    'Failed to process call log batch:',
+    expect.any(Error),
+  );
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+});
+
+test('missed call → prompt → Yes stores the call and opens WhatsApp', async () => {
+  fakeCallLogModule.setInstalledPackages(['com.whatsapp']);
+  jest
+    .mocked(Linking.canOpenURL)
+    .mockImplementation(async url => url.startsWith('whatsapp:'));
+  startMonitoring();
+  const renderer = await renderMonitor();
+
+  fakeCallLogModule.logCalls([missedEntry]);
+
+  const promptId = `client_check_${missedEntry.timestamp}`;
+  await waitFor(() =>
+    expect(notifee.displayNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ id: promptId }),
+    ),
+  );
+  const prompt = jest
+    .mocked(notifee.displayNotification)
+    .mock.calls.map(([notification]) => notification as Notification)
+    .find(notification => notification.id === promptId);
+
+  await handleNotificationEvent({
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: prompt,
+      pressAction: { id: NOTIFICATION_ACTIONS.YES_SEND_MESSAGE },
+    },
+  });
+
+  await expect(loadCallHistory()).resolves.toEqual([
+    expect.objectContaining({ type: 'missed', number: missedEntry.number }),
+  ]);
+  expect(Linking.openURL).toHaveBeenCalledWith(
+    expect.stringMatching(/^whatsapp:\/\/send\?phone=919876543210/),
+  );
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+});
+
+test('only forwards the configured call types', async () => {
+  const onCallDetected = jest.fn(async (_call: AnalyzedCall) => {});
+  startMonitoring({ callTypes: ['missed'] });
+  const renderer = await renderMonitor(onCallDetected);
+
+  fakeCallLogModule.logCalls([missedEntry, answeredEntry]);
+
+  await waitFor(() => expect(onCallDetected).toHaveBeenCalledTimes(1));
+  expect(onCallDetected).toHaveBeenCalledWith(
+    expect.objectContaining({ number: missedEntry.number }),
+  );
+
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+});
@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, CallRule } from '../hooks/types';
+import {
+  DEFAULT_CALL_RULES,
+  EMPTY_RULE_CONDITIONS,
+  decideCallAction,
+  evaluateCallRules,
+  loadCallRules,
+  matchesRuleConditions,
+  saveCallRules,
+} from '../utils/CallRules';
+import { setContactClassification } from '../utils/ContactClassification';
+
+const call: AnalyzedCall = {
+  type: 'incoming',
+  number: '098765 43210',
+  duration: 90,
+  timestamp: Date.UTC(2024, 0, 15, 10, 30),
+};
+
+const rule = (overrides: Partial<CallRule>): CallRule => ({
+  id: 'rule',
+  name: 'Rule',
+  enabled: true,
+  conditions: EMPTY_RULE_CONDITIONS,
+  action: 'skip',
+  templateId: null,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('empty conditions match every call', () => {
+  expect(matchesRuleConditions(call, EMPTY_RULE_CONDITIONS, false)).toBe(true);
+});
+
+test('checks call type and duration bounds', () => {
+  const conditions = {
+    ...EMPTY_RULE_CONDITIONS,
+    types: ['incoming' as const],
+    minDuration: 10,
+    maxDuration: 90,
+  };
+  expect(matchesRuleConditions(call, conditions, false)).toBe(true);
+  expect(
+    matchesRuleConditions({ ...call, duration: 91 }, conditions, false),
+  ).toBe(false);
+  expect(
+    matchesRuleConditions({ ...call, type: 'missed' }, conditions, false),
+  ).toBe(false);
+});
+
+test('checks the call outcome', () => {
+  const conditions = {
+    ...EMPTY_RULE_CONDITIONS,
+    outcomes: ['voicemail' as const, 'very_short' as const],
+  };
+  expect(
+    matchesRuleConditions(
+      { ...call, type: 'missed', direction: 'incoming', outcome: 'voicemail' },
+      conditions,
+      false,
+    ),
+  ).toBe(true);
+  expect(matchesRuleConditions(call, conditions, false)).toBe(false);
+  // Calls stored without an outcome are classified from type and duration.
+  expect(
+    matchesRuleConditions({ ...call, duration: 2 }, conditions, false),
+  ).toBe(true);
+});
+
+test('matches prefixes against the raw and normalized number', () => {
+  const withPrefix = (numberPrefix: string) => ({
+    ...EMPTY_RULE_CONDITIONS,
+    numberPrefix,
+  });
+  expect(matchesRuleConditions(call, withPrefix('+9198'), false)).toBe(true);
+  expect(matchesRuleConditions(call, withPrefix('0987'), false)).toBe(true);
+  expect(matchesRuleConditions(call, withPrefix('1800'), false)).toBe(false);
+});
+
+test('checks whether the number is known', () => {
+  const known = { ...EMPTY_RULE_CONDITIONS, knownNumber: 'known' as const };
+  expect(matchesRuleConditions(call, known, true)).toBe(true);
+  expect(matchesRuleConditions(call, known, false)).toBe(false);
+});
+
+test('the first enabled matching rule wins', () => {
+  const rules = [
+    rule({ id: 'disabled', enabled: false }),
+    rule({
+      id: 'send',
+      action: 'auto_send',
+      templateId: 'default_missed',
+    }),
+    rule({ id: 'skip' }),
+  ];
+  expect(evaluateCallRules(call, rules, false)).toEqual({
+    action: 'auto_send',
+    rule: rules[1],
+    templateId: 'default_missed',
+  });
+});
+
+test('falls back to prompting when no rule matches', () => {
+  expect(evaluateCallRules(call, DEFAULT_CALL_RULES, false)).toEqual({
+    action: 'prompt',
+    rule: null,
+    templateId: null,
+  });
+});
+
+test('the default rules skip outgoing calls and very short calls', () => {
+  expect(
+    evaluateCallRules({ ...call, type: 'outgoing' }, DEFAULT_CALL_RULES, false)
+      .action,
+  ).toBe('skip');
+  expect(
+    evaluateCallRules({ ...call, duration: 2 }, DEFAULT_CALL_RULES, false)
+      .action,
+  ).toBe('skip');
+});
+
+test('persists the rule set', async () => {
+  await expect(loadCallRules()).resolves.toEqual(DEFAULT_CALL_RULES);
+  const rules = [rule({ id: 'saved' })];
+  await saveCallRules(rules);
+  await expect(loadCallRules()).resolves.toEqual(rules);
+});
+
+test('decides using the stored rules and client decisions', async () => {
+  await saveCallRules([
+    rule({
+      conditions: { ...EMPTY_RULE_CONDITIONS, knownNumber: 'unknown' },
+    }),
+  ]);
+  await expect(decideCallAction(call)).resolves.toMatchObject({
+    action: 'skip',
+  });
+
+  await setContactClassification(call.number, 'client');
+  await expect(decideCallAction(call)).resolves.toMatchObject({
+    action: 'prompt',
+  });
+});
@@ -0,0 +1,110 @@
+import { AnalyzedCall } from '../hooks/types';
+import {
+  buildCallStatistics,
+  countCallsByPeriod,
+  getBusiestHours,
+  getMissedCallRate,
+  getPeriodStart,
+  getTalkTimeStats,
+  getTopRepeatNumbers,
+} from '../utils/CallStatistics';
+
+const at = (day: number, hour: number) =>
+  new Date(2024, 0, day, hour, 15).getTime();
+
+// Jan 15 2024 is a Monday.
+const calls: AnalyzedCall[] = [
+  {
+    type: 'incoming',
+    number: '+919876543210',
+    duration: 60,
+    timestamp: at(15, 10),
+  },
+  {
+    type: 'missed',
+    number: '098765 43210',
+    duration: 0,
+    timestamp: at(15, 10),
+  },
+  {
+    type: 'outgoing',
+    number: '9123456780',
+    duration: 120,
+    timestamp: at(16, 14),
+  },
+  {
+    type: 'rejected',
+    number: '9123456780',
+    duration: 0,
+    timestamp: at(21, 10),
+  },
+  {
+    type: 'missed',
+    number: '+919876543210',
+    duration: 0,
+    timestamp: at(22, 9),
+  },
+];
+
+test('rounds timestamps to the start of the day or Monday', () => {
+  expect(getPeriodStart(at(21, 10), 'day')).toBe(
+    new Date(2024, 0, 21).getTime(),
+  );
+  expect(getPeriodStart(at(21, 10), 'week')).toBe(
+    new Date(2024, 0, 15).getTime(),
+  );
+  expect(getPeriodStart(at(22, 9), 'week')).toBe(
+    new Date(2024, 0, 22).getTime(),
+  );
+});
+
+test('counts calls per day by type', () => {
+  const perDay = countCallsByPeriod(calls, 'day');
+  expect(perDay.map(entry => entry.total)).toEqual([2, 1, 1, 1]);
+  expect(perDay[0].byType).toEqual({
+    incoming: 1,
+    outgoing: 0,
+    missed: 1,
+    rejected: 0,
+    unknown: 0,
+  });
+});
+
+test('counts calls per week', () => {
+  expect(countCallsByPeriod(calls, 'week').map(entry => entry.total)).toEqual([
+    4, 1,
+  ]);
+});
+
+test('computes the missed-call rate over inbound calls', () => {
+  expect(getMissedCallRate(calls)).toBe(0.5);
+  expect(getMissedCallRate([])).toBe(0);
+});
+
+test('computes talk time over connected calls', () => {
+  expect(getTalkTimeStats(calls)).toEqual({
+    totalSeconds: 180,
+    averageSeconds: 90,
+    answeredCalls: 2,
+  });
+});
+
+test('finds the busiest hours', () => {
+  expect(getBusiestHours(calls, 2)).toEqual([
+    { hour: 10, count: 3 },
+    { hour: 9, count: 1 },
+  ]);
+});
+
+test('groups repeat numbers across formats', () => {
+  expect(getTopRepeatNumbers(calls)).toEqual([
+    { number: '+919876543210', count: 3 },
+    { number: '+919123456780', count: 2 },
+  ]);
+});
+
+test('builds the full dashboard', () => {
+  const statistics = buildCallStatistics(calls);
+  expect(statistics.totalCalls).toBe(5);
+  expect(statistics.perWeek).toHaveLength(2);
+});
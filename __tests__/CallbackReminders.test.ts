@@ -0,0 +1,86 @@
+import notifee, { Event, EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  handleCallForReminders,
+  saveCallbackReminderSettings,
+} from '../utils/CallbackReminders';
+import { setContactClassification } from '../utils/ContactClassification';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+
+const now = Date.UTC(2024, 0, 15, 10, 0);
+
+const missed: AnalyzedCall = {
+  type: 'missed',
+  number: '098765 43210',
+  duration: 0,
+  timestamp: now - 60 * 1000,
+};
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+});
+
+test('schedules a reminder for a missed call after the configured delay', async () => {
+  await handleCallForReminders(missed, now);
+  expect(notifee.createTriggerNotification).toHaveBeenCalledWith(
+    expect.objectContaining({ id: 'callback_reminder_+919876543210' }),
+    expect.objectContaining({ timestamp: now + 30 * 60 * 1000 }),
+  );
+});
+
+test('does not remind automatically when turned off or for non-clients', async () => {
+  await setContactClassification(missed.number, 'not_client');
+  await handleCallForReminders(missed, now);
+
+  await setContactClassification(missed.number, 'undecided');
+  await saveCallbackReminderSettings({ autoRemind: false, delayMinutes: 30 });
+  await handleCallForReminders(missed, now);
+
+  expect(notifee.createTriggerNotification).not.toHaveBeenCalled();
+});
+
+test('cancels the reminder when the number is called back', async () => {
+  await handleCallForReminders(
+    { ...missed, type: 'outgoing', number: '+91 98765 43210', duration: 40 },
+    now,
+  );
+  expect(notifee.cancelNotification).toHaveBeenCalledWith(
+    'callback_reminder_+919876543210',
+  );
+  expect(notifee.createTriggerNotification).not.toHaveBeenCalled();
+});
+
+test('the remind me action schedules a reminder and asks the client question again', async () => {
+  await saveCallbackReminderSettings({ autoRemind: false, delayMinutes: 60 });
+  jest.spyOn(Date, 'now').mockReturnValue(now);
+  const event: Event = {
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: {
+        id: `client_check_${missed.timestamp}`,
+        data: { callData: JSON.stringify(missed) },
+      },
+      pressAction: { id: NOTIFICATION_ACTIONS.REMIND_ME },
+    },
+  };
+
+  await handleNotificationEvent(event);
+
+  expect(notifee.createTriggerNotification).toHaveBeenCalledWith(
+    expect.anything(),
+    expect.objectContaining({ timestamp: now + 60 * 60 * 1000 }),
+  );
+  const [prompt] = jest.mocked(notifee.displayNotification).mock.calls[0];
+  expect(prompt.id).toBe(`client_check_${missed.timestamp}`);
+  expect(prompt.data?.notificationStage).toBe('messagePrompt');
+  expect(prompt.android?.actions?.map(a => a.pressAction.id)).toContain(
+    NOTIFICATION_ACTIONS.YES_SEND_MESSAGE,
+  );
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,61 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getContactClassification,
+  loadContactClassifications,
+  setContactClassification,
+  subscribeToClassificationChanges,
+} from '../utils/ContactClassification';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('unknown numbers are undecided', async () => {
+  await expect(getContactClassification('+15550100')).resolves.toBe(
+    'undecided',
+  );
+});
+
+test('setting a number back to undecided removes it from the list', async () => {
+  await setContactClassification('+15550100', 'not_client');
+  await setContactClassification('+15550101', 'client');
+  await setContactClassification('+15550100', 'undecided');
+
+  await expect(loadContactClassifications()).resolves.toEqual({
+    '+15550101': 'client',
+  });
+});
+
+test('keeps every decision made at the same time', async () => {
+  await Promise.all([
+    setContactClassification('+15550100', 'client'),
+    setContactClassification('+15550101', 'not_client'),
+    setContactClassification('+15550102', 'client'),
+  ]);
+
+  await expect(loadContactClassifications()).resolves.toEqual({
+    '+15550100': 'client',
+    '+15550101': 'not_client',
+    '+15550102': 'client',
+  });
+});
+
+test('notifies listeners after every write', async () => {
+  const listener = jest.fn();
+  const unsubscribe = subscribeToClassificationChanges(listener);
+
+  await setContactClassification('+15550100', 'not_client');
+  unsubscribe();
+  await setContactClassification('+15550101', 'client');
+
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(listener).toHaveBeenCalledWith({ '+15550100': 'not_client' });
+});
+
+test('matches numbers in different formats', async () => {
+  await setContactClassification('098765 43210', 'not_client');
+
+  await expect(getContactClassification('+91 98765 43210')).resolves.toBe(
+    'not_client',
+  );
+});
@@ -0,0 +1,297 @@
+import { Event, EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, CrmSyncJob, CrmWebhookConfig } from '../hooks/types';
+import {
+  CRM_MAX_ATTEMPTS,
+  CRM_RETRY_BASE_DELAY_MS,
+  CRM_RETRY_MAX_DELAY_MS,
+  CRM_SYNC_QUEUE_STORAGE_KEY,
+  DEFAULT_CRM_WEBHOOK_CONFIG,
+  applyCrmSyncResult,
+  flushCrmSyncQueue,
+  formatHeaderLines,
+  getCrmRetryDelayMs,
+  getCrmSyncStatusForCall,
+  loadCrmSyncQueue,
+  parseHeaderLines,
+  queueCrmSync,
+  renderCrmPayload,
+  retryFailedCrmSyncJobs,
+  saveCrmWebhookConfig,
+  validateCrmWebhookConfig,
+} from '../utils/CrmSync';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+import { FakeCrmServer, startFakeCrmServer } from '../testing/FakeCrmServer';
+
+const call: AnalyzedCall = {
+  type: 'missed',
+  number: '+919876543210',
+  duration: 0,
+  timestamp: 1700000000000,
+};
+
+let server: FakeCrmServer;
+
+async function enableWebhook(changes: Partial<CrmWebhookConfig> = {}) {
+  await saveCrmWebhookConfig({
+    ...DEFAULT_CRM_WEBHOOK_CONFIG,
+    enabled: true,
+    url: server.url,
+    ...changes,
+  });
+}
+
+beforeAll(async () => {
+  server = await startFakeCrmServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  server.requests.length = 0;
+  server.respondWith();
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  fakeCallLogModule.reset();
+  jest.restoreAllMocks();
+});
+
+describe('renderCrmPayload', () => {
+  test('fills placeholders in as JSON values', () => {
+    const body = renderCrmPayload(
+      '{"phone": {number}, "seconds": {duration}, "text": {message}, "x": "{unknown}"}',
+      {
+        event: 'client_call',
+        call: { ...call, number: '+91 "98765"' },
+        message: null,
+      },
+    );
+
+    expect(JSON.parse(body)).toEqual({
+      phone: '+91 "98765"',
+      seconds: 0,
+      text: null,
+      x: '{unknown}',
+    });
+  });
+
+  test('renders the default template as valid JSON', () => {
+    const body = renderCrmPayload(DEFAULT_CRM_WEBHOOK_CONFIG.bodyTemplate, {
+      event: 'client_call',
+      call,
+      message: null,
+    });
+
+    expect(JSON.parse(body)).toEqual({
+      event: 'client_call',
+      phoneNumber: call.number,
+      callType: 'missed',
+      outcome: 'missed',
+      durationSeconds: 0,
+      calledAt: new Date(call.timestamp).toISOString(),
+      channel: null,
+      message: null,
+    });
+  });
+});
+
+describe('validateCrmWebhookConfig', () => {
+  test('accepts a disabled webhook without a URL', () => {
+    expect(validateCrmWebhookConfig(DEFAULT_CRM_WEBHOOK_CONFIG)).toBeNull();
+  });
+
+  test('requires an http(s) URL', () => {
+    expect(
+      validateCrmWebhookConfig({
+        ...DEFAULT_CRM_WEBHOOK_CONFIG,
+        enabled: true,
+        url: 'example.com/hook',
+      }),
+    ).toMatch(/URL/);
+  });
+
+  test('rejects a template that is not JSON', () => {
+    expect(
+      validateCrmWebhookConfig({
+        ...DEFAULT_CRM_WEBHOOK_CONFIG,
+        enabled: true,
+        url: 'https://example.com/hook',
+        bodyTemplate: '{"phone": "{number}"}',
+      }),
+    ).toMatch(/valid JSON/);
+  });
+});
+
+test('parses and formats header lines', () => {
+  const headers = parseHeaderLines(
+    'Authorization: Bearer abc:123\n\nbroken line\nX-Source:  phone ',
+  );
+
+  expect(headers).toEqual({
+    Authorization: 'Bearer abc:123',
+    'X-Source': 'phone',
+  });
+  expect(parseHeaderLines(formatHeaderLines(headers))).toEqual(headers);
+});
+
+describe('retries', () => {
+  const job: CrmSyncJob = {
+    id: 'crm_1',
+    event: 'client_call',
+    call,
+    message: null,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    createdAt: 0,
+    syncedAt: null,
+  };
+
+  test('back off exponentially up to a maximum', () => {
+    expect(getCrmRetryDelayMs(1)).toBe(CRM_RETRY_BASE_DELAY_MS);
+    expect(getCrmRetryDelayMs(2)).toBe(CRM_RETRY_BASE_DELAY_MS * 2);
+    expect(getCrmRetryDelayMs(3)).toBe(CRM_RETRY_BASE_DELAY_MS * 4);
+    expect(getCrmRetryDelayMs(20)).toBe(CRM_RETRY_MAX_DELAY_MS);
+  });
+
+  test('mark a job as failed after the last attempt', () => {
+    const retried = applyCrmSyncResult(job, 'HTTP 503', 1000);
+    expect(retried).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: 1000 + CRM_RETRY_BASE_DELAY_MS,
+      lastError: 'HTTP 503',
+    });
+
+    expect(
+      applyCrmSyncResult(
+        { ...job, attempts: CRM_MAX_ATTEMPTS - 1 },
+        'HTTP 503',
+        1000,
+      ).status,
+    ).toBe('failed');
+  });
+});
+
+test('queues nothing while the webhook is disabled', async () => {
+  await expect(queueCrmSync('client_call', call)).resolves.toBeNull();
+  await expect(loadCrmSyncQueue()).resolves.toEqual([]);
+});
+
+test('posts a confirmed client call to the webhook', async () => {
+  await enableWebhook({ headers: { Authorization: 'Bearer secret' } });
+
+  await queueCrmSync('client_call', call);
+  await flushCrmSyncQueue();
+
+  expect(server.requests).toHaveLength(1);
+  const [request] = server.requests;
+  expect(request.method).toBe('POST');
+  expect(request.path).toBe('/webhook');
+  expect(request.headers).toMatchObject({
+    authorization: 'Bearer secret',
+    'content-type': 'application/json',
+  });
+  expect(JSON.parse(request.body)).toMatchObject({
+    event: 'client_call',
+    phoneNumber: call.number,
+  });
+  const [job] = await loadCrmSyncQueue();
+  expect(job).toMatchObject({ status: 'synced', attempts: 1 });
+  expect(getCrmSyncStatusForCall([job], call)).toBe('synced');
+});
+
+test('keeps a rejected job in the stored queue until its retry is due', async () => {
+  await enableWebhook();
+  server.respondWith(503);
+  const now = Date.now();
+
+  await queueCrmSync('client_call', call, null, now);
+  await flushCrmSyncQueue(now);
+
+  const stored = JSON.parse(
+    (await AsyncStorage.getItem(CRM_SYNC_QUEUE_STORAGE_KEY)) ?? '[]',
+  );
+  expect(stored).toEqual([
+    expect.objectContaining({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'HTTP 503',
+    }),
+  ]);
+  expect(getCrmSyncStatusForCall(stored, call)).toBe('pending');
+
+  await flushCrmSyncQueue(now + 1000);
+  expect(server.requests).toHaveLength(1);
+
+  await flushCrmSyncQueue(now + 2 * CRM_RETRY_BASE_DELAY_MS);
+  expect(server.requests).toHaveLength(2);
+  await expect(loadCrmSyncQueue()).resolves.toEqual([
+    expect.objectContaining({ status: 'synced', attempts: 2 }),
+  ]);
+});
+
+test('retries failed jobs on request', async () => {
+  await enableWebhook();
+  const failed: CrmSyncJob = {
+    id: 'crm_failed',
+    event: 'client_call',
+    call,
+    message: null,
+    status: 'failed',
+    attempts: CRM_MAX_ATTEMPTS,
+    nextAttemptAt: 0,
+    lastError: 'HTTP 500',
+    createdAt: 0,
+    syncedAt: null,
+  };
+  await AsyncStorage.setItem(
+    CRM_SYNC_QUEUE_STORAGE_KEY,
+    JSON.stringify([failed]),
+  );
+  expect(getCrmSyncStatusForCall([failed], call)).toBe('failed');
+
+  await expect(retryFailedCrmSyncJobs()).resolves.toBe(1);
+
+  expect(server.requests).toHaveLength(1);
+  await expect(loadCrmSyncQueue()).resolves.toEqual([
+    expect.objectContaining({ id: 'crm_failed', status: 'synced' }),
+  ]);
+});
+
+test('"Yes, Send" syncs the client call and the message sent', async () => {
+  await enableWebhook();
+  const event: Event = {
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: {
+        id: `client_check_${call.timestamp}`,
+        data: { callData: JSON.stringify(call) },
+      },
+      pressAction: { id: NOTIFICATION_ACTIONS.YES_SEND_MESSAGE },
+    },
+  };
+
+  await handleNotificationEvent(event);
+  await flushCrmSyncQueue();
+
+  expect(server.requests.map(request => JSON.parse(request.body))).toEqual([
+    expect.objectContaining({ event: 'client_call', message: null }),
+    expect.objectContaining({
+      event: 'message_sent',
+      channel: 'sms',
+      message: expect.any(String),
+    }),
+  ]);
+});
@@ -0,0 +1,160 @@
+import { EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  advanceLeadStage,
+  canAdvanceLeadStage,
+  getLeadStage,
+  getLeadStageForTags,
+  loadLeadPipeline,
+  recordLeadCall,
+  setLeadStage,
+  subscribeToLeadPipeline,
+  summarizeLeadPipeline,
+} from '../utils/LeadPipeline';
+import { annotateCall } from '../utils/CallAnnotations';
+import { setContactClassification } from '../utils/ContactClassification';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+
+const call: AnalyzedCall = {
+  type: 'incoming',
+  number: '+919876543210',
+  duration: 120,
+  timestamp: 1700000000000,
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+  await setContactClassification(call.number, 'client');
+});
+
+afterEach(() => {
+  fakeCallLogModule.reset();
+  jest.restoreAllMocks();
+});
+
+test('numbers without a stage are new leads', async () => {
+  expect(getLeadStage(await loadLeadPipeline(), call.number)).toBe('new_lead');
+});
+
+describe('canAdvanceLeadStage', () => {
+  test('only moves a lead forward', () => {
+    expect(canAdvanceLeadStage(undefined, 'contacted')).toBe(true);
+    expect(canAdvanceLeadStage('new_lead', 'quoted')).toBe(true);
+    expect(canAdvanceLeadStage('quoted', 'contacted')).toBe(false);
+    expect(canAdvanceLeadStage('quoted', 'lost')).toBe(true);
+  });
+
+  test('never reopens a closed lead', () => {
+    expect(canAdvanceLeadStage('won', 'lost')).toBe(false);
+    expect(canAdvanceLeadStage('lost', 'won')).toBe(false);
+  });
+});
+
+test('maps stage tags to the furthest stage', () => {
+  expect(getLeadStageForTags(['complaint'])).toBeNull();
+  expect(getLeadStageForTags(['quote requested'])).toBe('quoted');
+  expect(getLeadStageForTags(['quote requested', 'order'])).toBe('won');
+});
+
+test('automatic updates skip leads that are already further along', async () => {
+  await advanceLeadStage(call.number, 'quoted', 1000);
+  await advanceLeadStage('+91 98765 43210', 'contacted', 2000);
+
+  await expect(loadLeadPipeline()).resolves.toEqual({
+    '+919876543210': { stage: 'quoted', updatedAt: 1000 },
+  });
+});
+
+test('activity with contacts who are not clients is ignored', async () => {
+  const other = '+14155550123';
+  await setContactClassification(other, 'not_client');
+
+  await advanceLeadStage(other, 'contacted');
+  await recordLeadCall({ ...call, number: '+442071234567' });
+  await annotateCall({ ...call, number: other }, { tags: ['quoted'] });
+
+  await expect(loadLeadPipeline()).resolves.toEqual({});
+});
+
+test('a stage set by hand can reopen a closed lead', async () => {
+  await advanceLeadStage(call.number, 'lost');
+  await setLeadStage(call.number, 'contacted', 3000);
+
+  expect(getLeadStage(await loadLeadPipeline(), call.number)).toBe('contacted');
+});
+
+test('answered calls mark a lead as contacted, missed calls do not', async () => {
+  await recordLeadCall({ ...call, type: 'missed', duration: 0 });
+  await expect(loadLeadPipeline()).resolves.toEqual({});
+
+  await recordLeadCall(call);
+  expect(getLeadStage(await loadLeadPipeline(), call.number)).toBe('contacted');
+});
+
+test('stage tags in notes move the lead forward', async () => {
+  await annotateCall(call, { note: 'Sent pricing', tags: ['quoted'] });
+
+  expect(getLeadStage(await loadLeadPipeline(), call.number)).toBe('quoted');
+});
+
+test('"Yes, Send" starts a lead and the message marks it as contacted', async () => {
+  const listener = jest.fn();
+  const unsubscribe = subscribeToLeadPipeline(listener);
+
+  await handleNotificationEvent({
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: {
+        id: `client_check_${call.timestamp}`,
+        data: { callData: JSON.stringify(call) },
+      },
+      pressAction: { id: NOTIFICATION_ACTIONS.YES_SEND_MESSAGE },
+    },
+  });
+  unsubscribe();
+
+  expect(
+    listener.mock.calls.map(([pipeline]) => pipeline[call.number].stage),
+  ).toEqual(['new_lead', 'contacted']);
+});
+
+test('summarizes the call history per client and stage', () => {
+  const calls: AnalyzedCall[] = [
+    { ...call, number: '+91 98765 43210', timestamp: 3000 },
+    { ...call, number: '+14155550123', timestamp: 2000 },
+    { ...call, timestamp: 1000 },
+  ];
+
+  const { contacts, counts } = summarizeLeadPipeline(
+    [...calls, { ...call, number: '+442071234567', timestamp: 500 }],
+    { '+14155550123': { stage: 'won', updatedAt: 0 } },
+    {
+      '+919876543210': 'client',
+      '+14155550123': 'client',
+      '+442071234567': 'not_client',
+    },
+  );
+
+  expect(contacts).toEqual([
+    {
+      number: '+91 98765 43210',
+      stage: 'new_lead',
+      callCount: 2,
+      lastCallAt: 3000,
+    },
+    { number: '+14155550123', stage: 'won', callCount: 1, lastCallAt: 2000 },
+  ]);
+  expect(counts).toEqual({
+    new_lead: 1,
+    contacted: 0,
+    quoted: 0,
+    won: 1,
+    lost: 0,
+  });
+});
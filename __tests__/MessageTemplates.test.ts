@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  DEFAULT_TEMPLATE_LIBRARY,
+  TEMPLATE_LIBRARY_STORAGE_KEY,
+  buildMessageForCall,
+  deleteTemplate,
+  formatDuration,
+  getTemplateForCallType,
+  loadTemplateLibrary,
+  renderTemplate,
+  saveTemplateLibrary,
+  upsertTemplate,
+} from '../utils/MessageTemplates';
+
+const call: AnalyzedCall = {
+  type: 'missed',
+  number: '+919876543210',
+  duration: 125,
+  timestamp: Date.UTC(2024, 0, 15, 10, 30),
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('formats durations', () => {
+  expect(formatDuration(0)).toBe('0s');
+  expect(formatDuration(45)).toBe('45s');
+  expect(formatDuration(125)).toBe('2m 05s');
+});
+
+test('fills placeholders from the call', () => {
+  const message = renderTemplate(
+    '{businessName}: {callType} call from {number} ({duration}) on {date} {unknown}',
+    call,
+    'Acme',
+  );
+  expect(message).toBe(
+    `Acme: missed call from +919876543210 (2m 05s) on ${new Date(
+      call.timestamp,
+    ).toLocaleString()} {unknown}`,
+  );
+});
+
+test('uses the default template for the call type', () => {
+  expect(getTemplateForCallType(DEFAULT_TEMPLATE_LIBRARY, 'missed').id).toBe(
+    'default_missed',
+  );
+  expect(getTemplateForCallType(DEFAULT_TEMPLATE_LIBRARY, 'incoming').id).toBe(
+    'default_answered',
+  );
+});
+
+test('deleting a default template falls back to the first remaining one', () => {
+  const library = deleteTemplate(DEFAULT_TEMPLATE_LIBRARY, 'default_missed');
+  expect(library.templates.map(t => t.id)).not.toContain('default_missed');
+  expect(library.defaults.missed).toBe('default_general');
+  expect(library.defaults.rejected).toBe('default_general');
+});
+
+test('upserts templates by id', () => {
+  const added = upsertTemplate(DEFAULT_TEMPLATE_LIBRARY, {
+    id: 'custom',
+    name: 'Custom',
+    body: 'Hi {number}',
+  });
+  expect(added.templates).toHaveLength(5);
+
+  const edited = upsertTemplate(added, {
+    id: 'custom',
+    name: 'Custom',
+    body: 'Hey {number}',
+  });
+  expect(edited.templates).toHaveLength(5);
+  expect(edited.templates[4].body).toBe('Hey {number}');
+});
+
+test('builds the message from the stored library', async () => {
+  await AsyncStorage.setItem(
+    TEMPLATE_LIBRARY_STORAGE_KEY,
+    JSON.stringify({
+      templates: [{ id: 'only', name: 'Only', body: 'Call {number} back' }],
+      defaults: { missed: 'only' },
+      businessName: 'Acme',
+    }),
+  );
+  await expect(buildMessageForCall(call)).resolves.toBe(
+    'Call +919876543210 back',
+  );
+});
+
+test('adds the after-hours template to a library saved before it existed', async () => {
+  const general = DEFAULT_TEMPLATE_LIBRARY.templates[0];
+  await AsyncStorage.setItem(
+    TEMPLATE_LIBRARY_STORAGE_KEY,
+    JSON.stringify({
+      templates: [{ ...general, body: 'Edited' }],
+      defaults: DEFAULT_TEMPLATE_LIBRARY.defaults,
+      businessName: 'Acme',
+    }),
+  );
+
+  const library = await loadTemplateLibrary();
+  expect(library.templates.map(template => template.id)).toEqual([
+    'default_general',
+    'default_after_hours',
+  ]);
+  expect(library.templates[0].body).toBe('Edited');
+});
+
+test('keeps a deleted after-hours template deleted', async () => {
+  await saveTemplateLibrary(
+    deleteTemplate(DEFAULT_TEMPLATE_LIBRARY, 'default_after_hours'),
+  );
+
+  const library = await loadTemplateLibrary();
+  expect(library.templates.map(template => template.id)).not.toContain(
+    'default_after_hours',
+  );
+});
+
+test('builds the message from a chosen template', async () => {
+  await expect(buildMessageForCall(call, 'default_general')).resolves.toBe(
+    renderTemplate(
+      DEFAULT_TEMPLATE_LIBRARY.templates[0].body,
+      call,
+      DEFAULT_TEMPLATE_LIBRARY.businessName,
+    ),
+  );
+});
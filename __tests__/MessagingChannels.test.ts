@@ -0,0 +1,162 @@
+import { Linking } from 'react-native';
+import notifee, { Event, EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+import {
+  getAvailableChannels,
+  getChannelOptions,
+  sendMessage,
+} from '../utils/MessagingChannels';
+import { getContactChannel, setContactChannel } from '../utils/ContactChannels';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+import { getSendViaActionId } from '../utils/Notification';
+import { loadPendingChannelChoices } from '../utils/PendingChannelChoices';
+
+const call: AnalyzedCall = {
+  type: 'incoming',
+  number: '098765 43210',
+  duration: 45,
+  timestamp: 1700000000000,
+};
+
+function buildEvent(actionId: string): Event {
+  return {
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: {
+        id: `client_check_${call.timestamp}`,
+        data: { callData: JSON.stringify(call) },
+      },
+      pressAction: { id: actionId },
+    },
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  // WhatsApp Business, SMS and email are installed.
+  fakeCallLogModule.setInstalledPackages(['com.whatsapp.w4b']);
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  fakeCallLogModule.reset();
+  jest.restoreAllMocks();
+});
+
+test('lists the channels installed on the device', async () => {
+  await expect(getAvailableChannels()).resolves.toEqual([
+    'whatsapp_business',
+    'sms',
+    'email',
+  ]);
+});
+
+test('only offers email when the contact has an address', async () => {
+  await expect(getChannelOptions(call.number)).resolves.toEqual({
+    recipient: { phone: '+919876543210', email: '' },
+    preferred: null,
+    available: ['whatsapp_business', 'sms'],
+  });
+
+  await setContactChannel(call.number, {
+    channel: 'email',
+    email: 'client@example.com',
+  });
+  await expect(getChannelOptions(call.number)).resolves.toMatchObject({
+    preferred: 'email',
+    available: ['whatsapp_business', 'sms', 'email'],
+  });
+});
+
+test('sends through the preferred channel', async () => {
+  await setContactChannel(call.number, { channel: 'sms' });
+  await expect(sendMessage(call, 'Hi & welcome')).resolves.toMatchObject({
+    channel: 'sms',
+    outcome: 'opened',
+  });
+  expect(Linking.openURL).toHaveBeenCalledWith(
+    'sms:+919876543210?body=Hi%20%26%20welcome',
+  );
+});
+
+test('opens WhatsApp Business in its own package', async () => {
+  await sendMessage(call, 'Hi', 'whatsapp_business');
+  expect(fakeCallLogModule.openUrlInPackage).toHaveBeenCalledWith(
+    'whatsapp://send?phone=919876543210&text=Hi',
+    'com.whatsapp.w4b',
+  );
+});
+
+test('does not message numbers that cannot be normalized', async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await expect(
+    sendMessage({ ...call, number: '12345' }, 'Hi'),
+  ).resolves.toMatchObject({
+    outcome: 'failed',
+    error: 'Not a messageable number',
+  });
+  expect(Linking.openURL).not.toHaveBeenCalled();
+});
+
+test('yes offers the available channels when the contact has no preference', async () => {
+  await handleNotificationEvent(
+    buildEvent(NOTIFICATION_ACTIONS.YES_SEND_MESSAGE),
+  );
+
+  const [notification] = jest.mocked(notifee.displayNotification).mock.calls[0];
+  expect(notification.android?.actions?.map(a => a.pressAction.id)).toEqual([
+    getSendViaActionId('whatsapp_business'),
+    getSendViaActionId('sms'),
+  ]);
+  expect(notifee.cancelNotification).not.toHaveBeenCalled();
+});
+
+test('choosing a channel sends the message and remembers the choice', async () => {
+  await handleNotificationEvent(buildEvent(getSendViaActionId('sms')));
+
+  expect(Linking.openURL).toHaveBeenCalledWith(
+    expect.stringMatching(/^sms:\+919876543210\?body=/),
+  );
+  await expect(getContactChannel(call.number)).resolves.toEqual({
+    channel: 'sms',
+    email: '',
+  });
+  expect(notifee.cancelNotification).toHaveBeenCalledWith(
+    `client_check_${call.timestamp}`,
+  );
+});
+
+test('offers the most used channels first and the rest through more', async () => {
+  fakeCallLogModule.setInstalledPackages([
+    'com.whatsapp',
+    'com.whatsapp.w4b',
+    'org.telegram.messenger',
+  ]);
+  await sendMessage({ ...call, number: '+14155550123' }, 'Hi', 'telegram');
+  jest.clearAllMocks();
+
+  await handleNotificationEvent(
+    buildEvent(NOTIFICATION_ACTIONS.YES_SEND_MESSAGE),
+  );
+
+  const [notification] = jest.mocked(notifee.displayNotification).mock.calls[0];
+  expect(notification.android?.actions?.map(a => a.pressAction.id)).toEqual([
+    getSendViaActionId('telegram'),
+    getSendViaActionId('whatsapp'),
+    NOTIFICATION_ACTIONS.MORE_CHANNELS,
+  ]);
+
+  await handleNotificationEvent(buildEvent(NOTIFICATION_ACTIONS.MORE_CHANNELS));
+  await expect(loadPendingChannelChoices()).resolves.toEqual({
+    [`client_check_${call.timestamp}`]: call,
+  });
+  expect(notifee.cancelNotification).toHaveBeenCalledWith(
+    `client_check_${call.timestamp}`,
+  );
+});
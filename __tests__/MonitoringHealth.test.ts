@@ -0,0 +1,63 @@
+import { MonitoringStatus } from '../CallLogModule';
+import {
+  FIRST_POLL_GRACE_MS,
+  getMonitoringHealth,
+} from '../utils/MonitoringHealth';
+
+const now = Date.UTC(2024, 0, 15, 10, 0);
+
+const runningStatus: MonitoringStatus = {
+  isRunning: true,
+  startedAt: now - 60 * 60 * 1000,
+  lastPollAt: now - 2000,
+  pollDelayMs: 5000,
+  lastError: null,
+  lastErrorAt: null,
+  callsEmitted: 3,
+};
+
+test('reports a service that is not running as stopped', () => {
+  expect(getMonitoringHealth(null, now)).toBe('stopped');
+  expect(getMonitoringHealth({ ...runningStatus, isRunning: false }, now)).toBe(
+    'stopped',
+  );
+});
+
+test('reports a service that polled recently as active', () => {
+  expect(getMonitoringHealth(runningStatus, now)).toBe('active');
+});
+
+test('reports a service that missed several polls as stalled', () => {
+  expect(
+    getMonitoringHealth({ ...runningStatus, lastPollAt: now - 20000 }, now),
+  ).toBe('stalled');
+});
+
+test('allows longer gaps while the service polls less often', () => {
+  expect(
+    getMonitoringHealth(
+      { ...runningStatus, lastPollAt: now - 90000, pollDelayMs: 60000 },
+      now,
+    ),
+  ).toBe('active');
+});
+
+test('gives a freshly started service time for its first poll', () => {
+  const started = { ...runningStatus, startedAt: now, lastPollAt: null };
+  expect(getMonitoringHealth(started, now + 1000)).toBe('starting');
+  expect(getMonitoringHealth(started, now + FIRST_POLL_GRACE_MS + 1)).toBe(
+    'stalled',
+  );
+});
+
+test('reports an error until the next successful poll', () => {
+  const failed = {
+    ...runningStatus,
+    lastError: 'READ_CALL_LOG permission denied. Cannot access call log.',
+    lastErrorAt: now - 1000,
+  };
+  expect(getMonitoringHealth(failed, now)).toBe('error');
+  expect(getMonitoringHealth({ ...failed, lastPollAt: now }, now)).toBe(
+    'active',
+  );
+});
@@ -0,0 +1,148 @@
+import React from 'react';
+import { Text, TextInput, TouchableOpacity } from 'react-native';
+import ReactTestRenderer from 'react-test-renderer';
+import { MonitoringSettingsPanel } from '../components/MonitoringSettingsPanel';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+
+async function renderPanel() {
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<MonitoringSettingsPanel />);
+  });
+  return renderer as ReactTestRenderer.ReactTestRenderer;
+}
+
+function hasText(renderer: ReactTestRenderer.ReactTestRenderer, text: string) {
+  return JSON.stringify(renderer.toJSON()).includes(text);
+}
+
+function findChip(
+  renderer: ReactTestRenderer.ReactTestRenderer,
+  label: string,
+) {
+  const text = renderer.root
+    .findAllByType(Text)
+    .find(node => [node.props.children].flat().join('') === label);
+  let chip = text?.parent;
+  while (chip && chip.type !== TouchableOpacity) {
+    chip = chip.parent;
+  }
+  if (!chip) {
+    throw new Error(`No chip labelled "${label}"`);
+  }
+  return chip;
+}
+
+function isChipActive(
+  renderer: ReactTestRenderer.ReactTestRenderer,
+  label: string,
+) {
+  return (
+    [findChip(renderer, label).props.style].flat().filter(Boolean).length > 1
+  );
+}
+
+async function pressChip(
+  renderer: ReactTestRenderer.ReactTestRenderer,
+  label: string,
+) {
+  const chip = findChip(renderer, label);
+  await ReactTestRenderer.act(async () => {
+    chip.props.onPress();
+  });
+}
+
+afterEach(() => {
+  fakeCallLogModule.reset();
+  jest.clearAllMocks();
+});
+
+describe('call-back reminder warning', () => {
+  test('is shown when outgoing calls are not forwarded', async () => {
+    await fakeCallLogModule.setMonitoringOptions({ callTypes: ['missed'] });
+
+    const renderer = await renderPanel();
+
+    expect(hasText(renderer, 'call-back reminder')).toBe(true);
+  });
+
+  test('is hidden when every call is forwarded', async () => {
+    const renderer = await renderPanel();
+
+    expect(hasText(renderer, 'call-back reminder')).toBe(false);
+  });
+
+  test('is hidden when outgoing calls are forwarded', async () => {
+    await fakeCallLogModule.setMonitoringOptions({
+      callTypes: ['missed', 'outgoing'],
+    });
+
+    const renderer = await renderPanel();
+
+    expect(hasText(renderer, 'call-back reminder')).toBe(false);
+  });
+});
+
+test('shows the options saved by the native module', async () => {
+  await fakeCallLogModule.setMonitoringOptions({ pollIntervalMs: 30000 });
+
+  const renderer = await renderPanel();
+
+  expect(isChipActive(renderer, '30 s')).toBe(true);
+  expect(isChipActive(renderer, '5 s')).toBe(false);
+});
+
+test('saves a new poll interval', async () => {
+  const renderer = await renderPanel();
+
+  await pressChip(renderer, '60 s');
+
+  expect(isChipActive(renderer, '60 s')).toBe(true);
+  expect(fakeCallLogModule.setMonitoringOptions).toHaveBeenCalledWith({
+    pollIntervalMs: 60000,
+  });
+  expect(fakeCallLogModule.options.pollIntervalMs).toBe(60000);
+});
+
+test('toggles call types on and off', async () => {
+  const renderer = await renderPanel();
+
+  await pressChip(renderer, 'missed');
+  await pressChip(renderer, 'rejected');
+  await pressChip(renderer, 'missed');
+
+  expect(fakeCallLogModule.options.callTypes).toEqual(['rejected']);
+});
+
+test('saves the notification text trimmed, once editing ends', async () => {
+  const renderer = await renderPanel();
+  const [titleInput] = renderer.root.findAllByType(TextInput);
+
+  await ReactTestRenderer.act(async () => {
+    titleInput.props.onChangeText('  Watching calls  ');
+  });
+  expect(fakeCallLogModule.setMonitoringOptions).not.toHaveBeenCalled();
+
+  await ReactTestRenderer.act(async () => {
+    titleInput.props.onEndEditing();
+  });
+  expect(fakeCallLogModule.options.notificationTitle).toBe('Watching calls');
+});
+
+test('falls back to the default text when the title is cleared', async () => {
+  const renderer = await renderPanel();
+  const [titleInput] = renderer.root.findAllByType(TextInput);
+
+  await ReactTestRenderer.act(async () => {
+    titleInput.props.onChangeText('   ');
+  });
+  await ReactTestRenderer.act(async () => {
+    titleInput.props.onEndEditing();
+  });
+
+  // The native side replaces blank text with its default, and the panel
+  // shows what was actually saved.
+  expect(renderer.root.findAllByType(TextInput)[0].props.value).toBe(
+    'Monitoring Call Logs',
+  );
+});
@@ -0,0 +1,39 @@
+import React from 'react';
+import { TouchableOpacity } from 'react-native';
+import ReactTestRenderer from 'react-test-renderer';
+import { startMonitoring } from '../CallLogModule';
+import { MonitoringStatusRow } from '../components/MonitoringStatusRow';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+
+afterEach(() => {
+  fakeCallLogModule.reset();
+  jest.clearAllMocks();
+});
+
+test('Restart starts monitoring with the saved options', async () => {
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+  const onHealthChange = jest.fn();
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <MonitoringStatusRow
+        isMonitoringRequested
+        onRestart={startMonitoring}
+        onHealthChange={onHealthChange}
+      />,
+    );
+  });
+  expect(onHealthChange).toHaveBeenLastCalledWith('stopped');
+
+  const restartButton = renderer!.root.findByType(TouchableOpacity);
+  await ReactTestRenderer.act(() => {
+    restartButton.props.onPress({ nativeEvent: {} });
+  });
+
+  expect(fakeCallLogModule.startMonitoring).toHaveBeenCalledWith(null);
+  expect(fakeCallLogModule.isMonitoring).toBe(true);
+
+  // Stops the periodic monitoring status refresh.
+  await ReactTestRenderer.act(() => {
+    renderer?.unmount();
+  });
+});
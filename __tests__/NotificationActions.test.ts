@@ -0,0 +1,138 @@
+import { Linking } from 'react-native';
+import notifee, { Event, EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+  registerNotificationAction,
+} from '../utils/NotificationActions';
+import { loadCallHistory } from '../utils/CallHistoryRepository';
+import { getContactClassification } from '../utils/ContactClassification';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+import { hasProcessedCall } from '../utils/ProcessedCalls';
+
+const call: AnalyzedCall = {
+  type: 'missed',
+  number: '+919876543210',
+  duration: 0,
+  timestamp: 1700000000000,
+};
+
+function buildEvent(type: EventType, actionId: string): Event {
+  return {
+    type,
+    detail: {
+      notification: {
+        id: `client_check_${call.timestamp}`,
+        data: { callData: JSON.stringify(call) },
+      },
+      pressAction: { id: actionId },
+    },
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+});
+
+describe('no_client', () => {
+  test('remembers the number as a non-client', async () => {
+    await handleNotificationEvent(
+      buildEvent(EventType.ACTION_PRESS, NOTIFICATION_ACTIONS.NO_CLIENT),
+    );
+
+    await expect(getContactClassification(call.number)).resolves.toBe(
+      'not_client',
+    );
+  });
+
+  test('records the call as handled so it is never prompted again', async () => {
+    await handleNotificationEvent(
+      buildEvent(EventType.ACTION_PRESS, NOTIFICATION_ACTIONS.NO_CLIENT),
+    );
+
+    await expect(hasProcessedCall(call)).resolves.toBe(true);
+  });
+
+  test('cancels the notification without storing the call', async () => {
+    await handleNotificationEvent(
+      buildEvent(EventType.ACTION_PRESS, NOTIFICATION_ACTIONS.NO_CLIENT),
+    );
+
+    await expect(loadCallHistory()).resolves.toEqual([]);
+    expect(Linking.openURL).not.toHaveBeenCalled();
+    expect(notifee.cancelNotification).toHaveBeenCalledWith(
+      `client_check_${call.timestamp}`,
+    );
+  });
+});
+
+describe('yes_send_message', () => {
+  beforeEach(() => {
+    // Only WhatsApp is installed.
+    fakeCallLogModule.setInstalledPackages(['com.whatsapp']);
+    jest
+      .mocked(Linking.canOpenURL)
+      .mockImplementation(async url => url.startsWith('whatsapp:'));
+  });
+
+  afterEach(() => {
+    fakeCallLogModule.reset();
+    jest.mocked(Linking.canOpenURL).mockResolvedValue(true);
+  });
+
+  test('stores the call, opens WhatsApp and cancels the notification', async () => {
+    await handleNotificationEvent(
+      buildEvent(EventType.ACTION_PRESS, NOTIFICATION_ACTIONS.YES_SEND_MESSAGE),
+    );
+
+    await expect(loadCallHistory()).resolves.toEqual([call]);
+    await expect(getContactClassification(call.number)).resolves.toBe('client');
+    expect(Linking.openURL).toHaveBeenCalledWith(
+      expect.stringContaining('phone=919876543210'),
+    );
+    expect(notifee.cancelNotification).toHaveBeenCalledWith(
+      `client_check_${call.timestamp}`,
+    );
+    expect(notifee.displayNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ id: `call_notes_${call.timestamp}` }),
+    );
+  });
+
+  test('does not store the same call twice', async () => {
+    const event = buildEvent(
+      EventType.ACTION_PRESS,
+      NOTIFICATION_ACTIONS.YES_SEND_MESSAGE,
+    );
+
+    await handleNotificationEvent(event);
+    await handleNotificationEvent(event);
+
+    await expect(loadCallHistory()).resolves.toEqual([call]);
+  });
+});
+
+test('pressing the notification body cancels it', async () => {
+  await handleNotificationEvent(buildEvent(EventType.PRESS, 'default'));
+
+  expect(notifee.cancelNotification).toHaveBeenCalledWith(
+    `client_check_${call.timestamp}`,
+  );
+});
+
+test('dispatches to registered handlers', async () => {
+  const handler = jest.fn(async () => {});
+  registerNotificationAction('custom_action', handler);
+
+  await handleNotificationEvent(
+    buildEvent(EventType.ACTION_PRESS, 'custom_action'),
+  );
+
+  expect(handler).toHaveBeenCalledWith({
+    call,
+    notificationId: `client_check_${call.timestamp}`,
+  });
+});
@@ -0,0 +1,132 @@
+import { Linking } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import { fakeCallLogModule } from '../testing/FakeCallLogModule';
+import { sendMessage } from '../utils/MessagingChannels';
+import {
+  OUTBOX_LIMIT,
+  OUTBOX_STORAGE_KEY,
+  getOutboxForNumber,
+  groupOutboxByContact,
+  loadOutbox,
+  recordOutboxEntry,
+  subscribeToOutbox,
+} from '../utils/Outbox';
+
+const call: AnalyzedCall = {
+  type: 'missed',
+  number: '098765 43210',
+  duration: 0,
+  timestamp: 1700000000000,
+};
+
+const otherCall: AnalyzedCall = { ...call, number: '+14155550123' };
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  // Only WhatsApp is installed.
+  fakeCallLogModule.setInstalledPackages(['com.whatsapp']);
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  fakeCallLogModule.reset();
+  jest.mocked(Linking.canOpenURL).mockResolvedValue(true);
+  jest.mocked(Linking.openURL).mockResolvedValue(true);
+  jest.restoreAllMocks();
+});
+
+test('records a message that opened WhatsApp', async () => {
+  const entry = await sendMessage(call, 'Sorry we missed you');
+
+  expect(entry).toMatchObject({
+    call,
+    channel: 'whatsapp',
+    message: 'Sorry we missed you',
+    outcome: 'opened',
+    error: null,
+  });
+  await expect(loadOutbox()).resolves.toEqual([entry]);
+});
+
+test('records the fallback to the WhatsApp web link', async () => {
+  jest
+    .mocked(Linking.canOpenURL)
+    .mockImplementation(async url => !url.startsWith('whatsapp:'));
+
+  await expect(sendMessage(call, 'Hi')).resolves.toMatchObject({
+    outcome: 'fallback_web',
+    error: null,
+  });
+  expect(Linking.openURL).toHaveBeenCalledWith(
+    'https://wa.me/919876543210?text=Hi',
+  );
+});
+
+test('records the error when WhatsApp fails to open', async () => {
+  jest
+    .mocked(Linking.openURL)
+    .mockRejectedValue(new Error('No activity found'));
+
+  await expect(sendMessage(call, 'Hi')).resolves.toMatchObject({
+    outcome: 'failed',
+    error: 'No activity found',
+  });
+  const [entry] = await loadOutbox();
+  expect(entry.outcome).toBe('failed');
+});
+
+test('lists the messages sent to one contact, newest first', async () => {
+  const first = await sendMessage(call, 'First');
+  await sendMessage(otherCall, 'Someone else');
+  const second = await sendMessage(
+    { ...call, number: '+919876543210' },
+    'Second',
+  );
+
+  await expect(getOutboxForNumber('09876543210')).resolves.toEqual([
+    second,
+    first,
+  ]);
+  expect(Object.keys(groupOutboxByContact(await loadOutbox()))).toEqual([
+    '+919876543210',
+    '+14155550123',
+  ]);
+});
+
+test('keeps only the newest entries', async () => {
+  await AsyncStorage.setItem(
+    OUTBOX_STORAGE_KEY,
+    JSON.stringify(
+      Array.from({ length: OUTBOX_LIMIT }, (_, index) => ({
+        id: `old_${index}`,
+        call,
+        channel: 'whatsapp',
+        message: 'Old',
+        timestamp: index,
+        outcome: 'opened',
+        error: null,
+      })),
+    ),
+  );
+
+  const listener = jest.fn();
+  const unsubscribe = subscribeToOutbox(listener);
+  const entry = await recordOutboxEntry({
+    call,
+    channel: 'sms',
+    message: 'New',
+    timestamp: Date.now(),
+    outcome: 'opened',
+    error: null,
+  });
+  unsubscribe();
+
+  const entries = await loadOutbox();
+  expect(entries).toHaveLength(OUTBOX_LIMIT);
+  expect(entries[0]).toEqual(entry);
+  expect(entries[OUTBOX_LIMIT - 1].id).toBe(`old_${OUTBOX_LIMIT - 2}`);
+  expect(listener).toHaveBeenCalledWith(entries);
+});
@@ -0,0 +1,43 @@
+import {
+  getPhoneNumberKey,
+  isShortCode,
+  normalizePhoneNumber,
+} from '../utils/PhoneNumber';
+
+describe('normalizePhoneNumber', () => {
+  test.each([
+    ['098765 43210', '+919876543210'],
+    ['+91-98765-43210', '+919876543210'],
+    ['9876543210', '+919876543210'],
+    ['919876543210', '+919876543210'],
+    ['(0) 98765 43210', '+919876543210'],
+    ['0044 20 7946 0958', '+442079460958'],
+  ])('normalizes %s', (raw, expected) => {
+    expect(normalizePhoneNumber(raw, '91')).toBe(expected);
+  });
+
+  test('uses the given default country code', () => {
+    expect(normalizePhoneNumber('(555) 010-0199', '1')).toBe('+15550100199');
+  });
+
+  test.each(['121', '56161', '', '-2', '+12345678901234567'])(
+    'rejects %p',
+    raw => {
+      expect(normalizePhoneNumber(raw, '91')).toBeNull();
+    },
+  );
+});
+
+test('detects short codes', () => {
+  expect(isShortCode('121')).toBe(true);
+  expect(isShortCode('5 6 1 6 1')).toBe(true);
+  expect(isShortCode('9876543210')).toBe(false);
+  expect(isShortCode('+121')).toBe(false);
+});
+
+test('keys unmessageable numbers by their raw form', () => {
+  expect(getPhoneNumberKey(' 121 ')).toBe('121');
+  expect(getPhoneNumberKey('098765 43210')).toBe(
+    getPhoneNumberKey('+91 98765 43210'),
+  );
+});
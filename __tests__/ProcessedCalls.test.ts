@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, ProcessedCall } from '../hooks/types';
+import {
+  PROCESSED_CALLS_STORAGE_KEY,
+  PROCESSED_CALL_LIMIT,
+  PROCESSED_CALL_MAX_AGE_MS,
+  claimCall,
+  filterUnprocessedCalls,
+  hasProcessedCall,
+  loadProcessedCalls,
+  pruneProcessedCalls,
+  recordProcessedCalls,
+  releaseCall,
+} from '../utils/ProcessedCalls';
+
+const now = Date.UTC(2024, 0, 15, 10, 0);
+
+const call: AnalyzedCall = {
+  type: 'missed',
+  number: '+919876543210',
+  duration: 0,
+  timestamp: now - 60 * 1000,
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+test('only the first claim of a call succeeds', async () => {
+  await expect(claimCall(call, now)).resolves.toBe(true);
+  await expect(claimCall(call, now)).resolves.toBe(false);
+  // The same call as logged with a local number format.
+  await expect(
+    claimCall({ ...call, number: '098765 43210' }, now),
+  ).resolves.toBe(false);
+});
+
+test('a released call can be claimed again', async () => {
+  const other = { ...call, number: '+14155550123' };
+  await recordProcessedCalls([call, other], now);
+
+  await releaseCall({ ...call, number: '098765 43210' });
+
+  await expect(hasProcessedCall(call)).resolves.toBe(false);
+  await expect(hasProcessedCall(other)).resolves.toBe(true);
+  await expect(claimCall(call, now)).resolves.toBe(true);
+});
+
+test('concurrent claims of one call let exactly one through', async () => {
+  const results = await Promise.all([
+    claimCall(call, now),
+    claimCall(call, now),
+    claimCall(call, now),
+  ]);
+  expect(results.filter(Boolean)).toHaveLength(1);
+});
+
+test('survives a restart through AsyncStorage', async () => {
+  await recordProcessedCalls([call], now);
+
+  const stored = JSON.parse(
+    (await AsyncStorage.getItem(PROCESSED_CALLS_STORAGE_KEY)) ?? '[]',
+  );
+  expect(stored).toEqual([
+    { timestamp: call.timestamp, numberKey: '+919876543210', processedAt: now },
+  ]);
+  await expect(hasProcessedCall(call)).resolves.toBe(true);
+});
+
+test('filters out handled calls and keeps the order of the rest', async () => {
+  const later = { ...call, number: '+14155550123', timestamp: now };
+  await recordProcessedCalls([call], now);
+
+  await expect(filterUnprocessedCalls([later, call])).resolves.toEqual([later]);
+});
+
+test('forgets calls past the age limit and beyond the size limit', () => {
+  const record = (processedAt: number): ProcessedCall => ({
+    timestamp: processedAt,
+    numberKey: '+919876543210',
+    processedAt,
+  });
+  const records = Array.from({ length: PROCESSED_CALL_LIMIT + 5 }, (_, i) =>
+    record(now - i * 1000),
+  );
+
+  const pruned = pruneProcessedCalls(
+    [record(now - PROCESSED_CALL_MAX_AGE_MS - 1), ...records],
+    now,
+  );
+  expect(pruned).toHaveLength(PROCESSED_CALL_LIMIT);
+  expect(pruned[0].processedAt).toBe(now);
+  expect(pruned[pruned.length - 1].processedAt).toBe(
+    now - (PROCESSED_CALL_LIMIT - 1) * 1000,
+  );
+});
+
+test('ignores malformed stored records', async () => {
+  await AsyncStorage.setItem(
+    PROCESSED_CALLS_STORAGE_KEY,
+    JSON.stringify([{ timestamp: 'x' }, null]),
+  );
+  await expect(loadProcessedCalls()).resolves.toEqual([]);
+});
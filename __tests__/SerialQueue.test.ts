@@ -0,0 +1,37 @@
+import { createSerialQueue } from '../utils/SerialQueue';
+
+test('runs operations one at a time, in the order they were queued', async () => {
+  const enqueue = createSerialQueue();
+  const events: string[] = [];
+  const operation = (name: string, delayMs: number) => async () => {
+    events.push(`${name} start`);
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    events.push(`${name} end`);
+    return name;
+  };
+
+  const results = await Promise.all([
+    enqueue(operation('first', 20)),
+    enqueue(operation('second', 0)),
+  ]);
+
+  expect(results).toEqual(['first', 'second']);
+  expect(events).toEqual([
+    'first start',
+    'first end',
+    'second start',
+    'second end',
+  ]);
+});
+
+test('keeps running operations after one fails', async () => {
+  const enqueue = createSerialQueue();
+
+  const failed = enqueue(async () => {
+    throw new Error('boom');
+  });
+  const next = enqueue(async () => 'next');
+
+  await expect(failed).rejects.toThrow('boom');
+  await expect(next).resolves.toBe('next');
+});
@@ -0,0 +1,121 @@
+import notifee, { Event, EventType } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  NOTIFICATION_ACTIONS,
+  handleNotificationEvent,
+} from '../utils/NotificationActions';
+import {
+  displayClientCheckNotification,
+  getSnoozeActionId,
+} from '../utils/Notification';
+import {
+  countActiveSnoozes,
+  loadSnoozedPrompts,
+  subscribeToSnoozedPrompts,
+} from '../utils/SnoozedPrompts';
+
+const now = Date.UTC(2024, 0, 15, 10, 0);
+const notificationId = 'client_check_1700000000000';
+
+const call: AnalyzedCall = {
+  type: 'incoming',
+  number: '+919876543210',
+  duration: 45,
+  timestamp: 1700000000000,
+};
+
+function buildEvent(actionId: string, payload = call): Event {
+  return {
+    type: EventType.ACTION_PRESS,
+    detail: {
+      notification: {
+        id: notificationId,
+        data: { callData: JSON.stringify(payload) },
+      },
+      pressAction: { id: actionId },
+    },
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(Date, 'now').mockReturnValue(now);
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('later replaces the prompt with snooze intervals', async () => {
+  await handleNotificationEvent(buildEvent(NOTIFICATION_ACTIONS.LATER));
+
+  const [notification] = jest.mocked(notifee.displayNotification).mock.calls[0];
+  expect(notification.id).toBe(notificationId);
+  expect(notification.android?.actions?.map(a => a.pressAction.id)).toEqual([
+    'snooze_15',
+    'snooze_60',
+    'snooze_180',
+  ]);
+});
+
+test('the client check always offers later', async () => {
+  await displayClientCheckNotification(call);
+  await displayClientCheckNotification({ ...call, type: 'missed' });
+
+  const actions = jest
+    .mocked(notifee.displayNotification)
+    .mock.calls.map(([notification]) =>
+      notification.android?.actions?.map(a => a.pressAction.id),
+    );
+  const expected = [
+    NOTIFICATION_ACTIONS.YES_SEND_MESSAGE,
+    NOTIFICATION_ACTIONS.NO_CLIENT,
+    NOTIFICATION_ACTIONS.LATER,
+  ];
+  expect(actions).toEqual([expected, expected]);
+});
+
+test('offers a call-back reminder instead of the longest interval for missed calls', async () => {
+  await handleNotificationEvent(
+    buildEvent(NOTIFICATION_ACTIONS.LATER, { ...call, type: 'missed' }),
+  );
+
+  const [notification] = jest.mocked(notifee.displayNotification).mock.calls[0];
+  expect(notification.android?.actions?.map(a => a.pressAction.id)).toEqual([
+    'snooze_15',
+    'snooze_60',
+    NOTIFICATION_ACTIONS.REMIND_ME,
+  ]);
+});
+
+test('snoozing reschedules the same payload and counts the snooze', async () => {
+  const listener = jest.fn();
+  const unsubscribe = subscribeToSnoozedPrompts(listener);
+
+  await handleNotificationEvent(buildEvent(getSnoozeActionId(60)));
+  unsubscribe();
+
+  expect(notifee.cancelDisplayedNotification).toHaveBeenCalledWith(
+    notificationId,
+  );
+  const [notification, trigger] = jest.mocked(notifee.createTriggerNotification)
+    .mock.calls[0];
+  expect(notification.id).toBe(notificationId);
+  expect(notification.data?.callData).toBe(JSON.stringify(call));
+  expect(trigger).toMatchObject({ timestamp: now + 60 * 60 * 1000 });
+
+  const prompts = await loadSnoozedPrompts();
+  expect(prompts[notificationId]).toMatchObject({ snoozeCount: 1 });
+  expect(countActiveSnoozes(prompts, now)).toBe(1);
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+test('answering a snoozed prompt clears it', async () => {
+  await handleNotificationEvent(buildEvent(getSnoozeActionId(15)));
+  await handleNotificationEvent(buildEvent(NOTIFICATION_ACTIONS.NO_CLIENT));
+
+  await expect(loadSnoozedPrompts()).resolves.toEqual({});
+});
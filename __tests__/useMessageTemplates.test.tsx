@@ -0,0 +1,60 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import {
+  DEFAULT_TEMPLATE_LIBRARY,
+  TEMPLATE_LIBRARY_STORAGE_KEY,
+  loadTemplateLibrary,
+} from '../utils/MessageTemplates';
+
+let templates: ReturnType<typeof useMessageTemplates>;
+
+function Probe() {
+  templates = useMessageTemplates();
+  return null;
+}
+
+beforeEach(async () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem(
+    TEMPLATE_LIBRARY_STORAGE_KEY,
+    JSON.stringify({ ...DEFAULT_TEMPLATE_LIBRARY, businessName: 'Stored' }),
+  );
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('ignores edits until the stored library has loaded', async () => {
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+  ReactTestRenderer.act(() => {
+    renderer = ReactTestRenderer.create(<Probe />);
+  });
+  expect(templates.isLoading).toBe(true);
+  ReactTestRenderer.act(() => {
+    templates.setBusinessName('Too early');
+  });
+
+  await ReactTestRenderer.act(async () => {});
+  expect(templates.isLoading).toBe(false);
+  expect(templates.library.businessName).toBe('Stored');
+  await expect(loadTemplateLibrary()).resolves.toMatchObject({
+    businessName: 'Stored',
+  });
+  expect(console.warn).toHaveBeenCalled();
+
+  await ReactTestRenderer.act(async () => {
+    templates.setBusinessName('Acme');
+  });
+  expect(templates.library.businessName).toBe('Acme');
+  await expect(loadTemplateLibrary()).resolves.toMatchObject({
+    businessName: 'Acme',
+  });
+
+  ReactTestRenderer.act(() => {
+    renderer?.unmount();
+  });
+});
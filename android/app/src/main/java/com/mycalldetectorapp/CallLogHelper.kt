@@ -11,12 +11,14 @@ import android.util.Log
  * @param type The type of call (e.g., incoming, outgoing, missed).
  * @param duration The duration of the call in seconds.
  * @param timestamp The timestamp of the call in milliseconds.
+ * @param id The call log row ID, or 0 when the entry was not read from the call log.
  */
 data class CallEntry(
     val number: String,
     val type: Int,
     val duration: Long,
-    val timestamp: Long
+    val timestamp: Long,
+    val id: Long = 0
 )
 
 /**
@@ -24,40 +26,122 @@ data class CallEntry(
  */
 object CallLogHelper {
 
+    private val PROJECTION = arrayOf(
+        CallLog.Calls._ID,
+        CallLog.Calls.NUMBER,
+        CallLog.Calls.TYPE,
+        CallLog.Calls.DATE,
+        CallLog.Calls.DURATION
+    )
+
+    /**
+     * Reads the call entry at the cursor's current position.
+     * @param cursor A cursor over the Call Log with the columns of [PROJECTION].
+     * @return The CallEntry at the current row.
+     */
+    private fun readCallEntry(cursor: Cursor): CallEntry = CallEntry(
+        number = cursor.getString(cursor.getColumnIndexOrThrow(CallLog.Calls.NUMBER)) ?: "",
+        type = cursor.getInt(cursor.getColumnIndexOrThrow(CallLog.Calls.TYPE)),
+        timestamp = cursor.getLong(cursor.getColumnIndexOrThrow(CallLog.Calls.DATE)),
+        duration = cursor.getLong(cursor.getColumnIndexOrThrow(CallLog.Calls.DURATION)),
+        id = cursor.getLong(cursor.getColumnIndexOrThrow(CallLog.Calls._ID))
+    )
+
     /**
-     * Retrieves the last (most recent) call entry from the device's call log.
+     * Retrieves the ID of the row written last to the call log.
      * Requires READ_CALL_LOG permission.
      * @param context The application context.
-     * @return The most recent CallEntry object, or null if no calls are found or an error occurs.
+     * @return The highest call log row ID, or 0 if the call log is empty.
      */
-    fun getLastCall(context: Context): CallEntry? {
-        val projection = arrayOf(
-            CallLog.Calls.NUMBER,
-            CallLog.Calls.TYPE,
-            CallLog.Calls.DATE,
-            CallLog.Calls.DURATION
+    fun getLastCallId(context: Context): Long {
+        val cursor: Cursor? = context.contentResolver.query(
+            CallLog.Calls.CONTENT_URI,
+            arrayOf(CallLog.Calls._ID),
+            null,
+            null,
+            "${CallLog.Calls._ID} DESC"
         )
 
-        // Query the Call Log content provider.
+        cursor?.use {
+            if (it.moveToFirst()) {
+                return it.getLong(it.getColumnIndexOrThrow(CallLog.Calls._ID))
+            }
+        }
+        return 0
+    }
+
+    /**
+     * Retrieves the rows written to the call log after a row ID, in the order they were written.
+     * A row is written when its call ends, so a long call can be written after a shorter call
+     * that started later; unlike [getCallsSince], this returns both.
+     * Requires READ_CALL_LOG permission.
+     * @param context The application context.
+     * @param id Only rows with a strictly higher ID are returned.
+     * @param limit The maximum number of calls to return; the rows written first are kept.
+     * @return The matching CallEntry objects in the order they were written.
+     */
+    fun getCallsAfterId(context: Context, id: Long, limit: Int): List<CallEntry> {
+        val calls = mutableListOf<CallEntry>()
         val cursor: Cursor? = context.contentResolver.query(
-            CallLog.Calls.CONTENT_URI, // The URI for the call log.
-            projection,                // The columns to return.
-            null,                      // No WHERE clause (return all calls).
-            null,                      // No WHERE clause arguments.
-            "${CallLog.Calls.DATE} DESC" // Order by date descending.
+            CallLog.Calls.CONTENT_URI,
+            PROJECTION,
+            "${CallLog.Calls._ID} > ?",
+            arrayOf(id.toString()),
+            "${CallLog.Calls._ID} ASC"
         )
 
+        // Stop reading at the limit, as in getCallsSince.
         cursor?.use {
-            if (it.moveToFirst()) {
-                return CallEntry(
-                    number = it.getString(it.getColumnIndexOrThrow(CallLog.Calls.NUMBER)),
-                    type = it.getInt(it.getColumnIndexOrThrow(CallLog.Calls.TYPE)),
-                    timestamp = it.getLong(it.getColumnIndexOrThrow(CallLog.Calls.DATE)),
-                    duration = it.getLong(it.getColumnIndexOrThrow(CallLog.Calls.DURATION))
-                )
+            while (calls.size < limit && it.moveToNext()) {
+                calls.add(readCallEntry(it))
             }
         }
-        return null
+        return calls
+    }
+
+    /**
+     * Retrieves the calls logged after a timestamp, oldest first.
+     * Requires READ_CALL_LOG permission.
+     * @param context The application context.
+     * @param timestamp Only calls strictly newer than this timestamp (in milliseconds) are returned.
+     * @param limit The maximum number of calls to return; the oldest calls are kept.
+     * @return The matching CallEntry objects in chronological order.
+     */
+    fun getCallsSince(context: Context, timestamp: Long, limit: Int): List<CallEntry> {
+        val calls = mutableListOf<CallEntry>()
+        val cursor: Cursor? = context.contentResolver.query(
+            CallLog.Calls.CONTENT_URI,
+            PROJECTION,
+            "${CallLog.Calls.DATE} > ?",
+            arrayOf(timestamp.toString()),
+            "${CallLog.Calls.DATE} ASC"
+        )
+
+        // Stop reading at the limit instead of using "LIMIT" in the sort order,
+        // which newer Android versions reject for content provider queries.
+        cursor?.use {
+            while (calls.size < limit && it.moveToNext()) {
+                calls.add(readCallEntry(it))
+            }
+        }
+        return calls
+    }
+
+    /**
+     * Classifies a call the same way `analyzeCallLogEntry` does in JavaScript, so call-type
+     * filters set from JavaScript match what the app shows. Answered incoming calls without
+     * talk time and voicemail count as missed, calls answered on another device as incoming
+     * and blocked calls as unknown.
+     * @param call The call log entry.
+     * @return One of "incoming", "outgoing", "missed", "rejected" or "unknown".
+     */
+    fun getCallCategory(call: CallEntry): String = when (call.type) {
+        CallLog.Calls.INCOMING_TYPE -> if (call.duration > 0) "incoming" else "missed"
+        CallLog.Calls.OUTGOING_TYPE -> "outgoing"
+        CallLog.Calls.MISSED_TYPE, CallLog.Calls.VOICEMAIL_TYPE -> "missed"
+        CallLog.Calls.REJECTED_TYPE -> "rejected"
+        CallLog.Calls.ANSWERED_EXTERNALLY_TYPE -> "incoming"
+        else -> "unknown"
     }
 
     /**
@@ -72,6 +156,7 @@ object CallLogHelper {
         CallLog.Calls.REJECTED_TYPE -> "REJECTED"
         CallLog.Calls.BLOCKED_TYPE -> "BLOCKED"
         CallLog.Calls.VOICEMAIL_TYPE -> "VOICEMAIL"
+        CallLog.Calls.ANSWERED_EXTERNALLY_TYPE -> "ANSWERED_EXTERNALLY"
         else -> {
   Log.w("CallLogHelper", "Unknown call type: $type")
   "UNKNOWN"
@@ -1,14 +1,18 @@
 package com.mycalldetectorapp
 
+import android.content.ClipData
 import android.content.Intent
 import android.util.Log
 import androidx.core.content.ContextCompat
+import androidx.core.content.FileProvider
 import com.facebook.react.bridge.*
 import com.facebook.react.modules.core.DeviceEventManagerModule
 import android.content.BroadcastReceiver
 import android.content.Context
 import android.content.IntentFilter
 import android.content.pm.PackageManager
+import android.net.Uri
+import java.io.File
 
 class CallLogModule(private val reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
@@ -17,42 +21,63 @@ class CallLogModule(private val reactContext: ReactApplicationContext) :
 
     private var listenerCount = 0
 
-    private val callLogUpdateReceiver = object : BroadcastReceiver() {
+    private val serviceReceiver = object : BroadcastReceiver() {
         override fun onReceive(context: Context?, intent: Intent?) {
-            if (intent?.action == "com.mycalldetectorapp.CALL_LOG_UPDATE") {
-                val number = intent.getStringExtra("number")
-                val type = intent.getIntExtra("type", 0)
-                val duration = intent.getLongExtra("duration", 0L)
-                val timestamp = intent.getLongExtra("timestamp", 0L)
+            if (intent?.action == CallLogMonitorService.MONITORING_STATUS_ACTION) {
+                emit("MonitoringStatus", MonitoringStatus.toWritableMap())
+            } else if (intent?.action == CallLogMonitorService.CALL_LOG_BATCH_ACTION) {
+                val numbers = intent.getStringArrayExtra("numbers") ?: emptyArray()
+                val types = intent.getIntArrayExtra("types") ?: IntArray(0)
+                val durations = intent.getLongArrayExtra("durations") ?: LongArray(0)
+                val timestamps = intent.getLongArrayExtra("timestamps") ?: LongArray(0)
+
+                val calls = Arguments.createArray()
+                numbers.indices
+                    .filter { it < types.size && it < durations.size && it < timestamps.size }
+                    .forEach {
+                        calls.pushMap(
+                            toWritableMap(CallEntry(numbers[it], types[it], durations[it], timestamps[it]))
+                        )
+                    }
 
                 val params = Arguments.createMap().apply {
-                    putString("number", number)
-                    putInt("type", type)
-                    putDouble("duration", duration.toDouble())
-                    putDouble("timestamp", timestamp.toDouble())
+                    putArray("calls", calls)
                 }
 
-                try {
-                    reactContext
-                        .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
-                        .emit("CallLogUpdated", params)
-                } catch (e: Exception) {
-                    Log.e(TAG, "Error emitting CallLogUpdated event to JS: ${e.message}", e)
-                }
+                emit("CallLogBatch", params)
             }
         }
     }
 
+    private fun emit(eventName: String, params: WritableMap) {
+        try {
+            reactContext
+                .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+                .emit(eventName, params)
+        } catch (e: Exception) {
+            Log.e(TAG, "Error emitting $eventName event to JS: ${e.message}", e)
+        }
+    }
+
+    private fun toWritableMap(call: CallEntry): WritableMap = Arguments.createMap().apply {
+        putString("number", call.number)
+        putInt("type", call.type)
+        putDouble("duration", call.duration.toDouble())
+        putDouble("timestamp", call.timestamp.toDouble())
+    }
+
     override fun getName(): String = "CallLogModule"
 
     @ReactMethod
     fun addListener(eventName: String) {
         if (listenerCount == 0) {
-            val filter = IntentFilter("com.mycalldetectorapp.CALL_LOG_UPDATE")
+            val filter = IntentFilter(CallLogMonitorService.CALL_LOG_BATCH_ACTION).apply {
+                addAction(CallLogMonitorService.MONITORING_STATUS_ACTION)
+            }
             try {
                 ContextCompat.registerReceiver(
                     reactContext,
-                    callLogUpdateReceiver,
+                    serviceReceiver,
                     filter,
                     ContextCompat.RECEIVER_NOT_EXPORTED
                 )
@@ -68,7 +93,7 @@ class CallLogModule(private val reactContext: ReactApplicationContext) :
         listenerCount -= count.toInt()
         if (listenerCount <= 0) {
             try {
-                reactContext.unregisterReceiver(callLogUpdateReceiver)
+                reactContext.unregisterReceiver(serviceReceiver)
                 listenerCount = 0
             } catch (e: Exception) {
                 Log.e(TAG, "Error unregistering BroadcastReceiver in removeListeners: ${e.message}", e)
@@ -77,14 +102,105 @@ class CallLogModule(private val reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun startMonitoring() {
+    fun startMonitoring(options: ReadableMap?) {
+        if (options != null) {
+            MonitoringConfig.load(reactContext).withOptions(options).save(reactContext)
+        }
         val intent = Intent(reactContext, CallLogMonitorService::class.java)
         ContextCompat.startForegroundService(reactContext, intent)
     }
 
+    @ReactMethod
+    fun setMonitoringOptions(options: ReadableMap, promise: Promise) {
+        val config = MonitoringConfig.load(reactContext).withOptions(options)
+        config.save(reactContext)
+        promise.resolve(config.toWritableMap())
+    }
+
+    @ReactMethod
+    fun getMonitoringOptions(promise: Promise) {
+        promise.resolve(MonitoringConfig.load(reactContext).toWritableMap())
+    }
+
+    @ReactMethod
+    fun getMonitoringStatus(promise: Promise) {
+        promise.resolve(MonitoringStatus.toWritableMap())
+    }
+
     @ReactMethod
     fun stopMonitoring() {
         val intent = Intent(reactContext, CallLogMonitorService::class.java)
         reactContext.stopService(intent)
     }
-}
\ No newline at end of file
+
+    @ReactMethod
+    fun getCallsSince(timestamp: Double, limit: Double, promise: Promise) {
+        try {
+            val calls = Arguments.createArray()
+            CallLogHelper.getCallsSince(reactContext, timestamp.toLong(), limit.toInt()).forEach {
+                calls.pushMap(toWritableMap(it))
+            }
+            promise.resolve(calls)
+        } catch (e: SecurityException) {
+            promise.reject("E_PERMISSION", "READ_CALL_LOG permission denied.", e)
+        } catch (e: Exception) {
+            Log.e(TAG, "Error reading calls since $timestamp: ${e.message}", e)
+            promise.reject("E_CALL_LOG", e.message, e)
+        }
+    }
+
+    @ReactMethod
+    fun isPackageInstalled(packageName: String, promise: Promise) {
+        try {
+            reactContext.packageManager.getPackageInfo(packageName, 0)
+            promise.resolve(true)
+        } catch (e: PackageManager.NameNotFoundException) {
+            promise.resolve(false)
+        }
+    }
+
+    @ReactMethod
+    fun openUrlInPackage(url: String, packageName: String, promise: Promise) {
+        val intent = Intent(Intent.ACTION_VIEW, Uri.parse(url)).apply {
+            setPackage(packageName)
+            addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
+        }
+        try {
+            reactContext.startActivity(intent)
+            promise.resolve(true)
+        } catch (e: Exception) {
+            Log.e(TAG, "Error opening $url in $packageName: ${e.message}", e)
+            promise.resolve(false)
+        }
+    }
+
+    @ReactMethod
+    fun shareFile(fileName: String, content: String, mimeType: String, title: String, promise: Promise) {
+        try {
+            val directory = File(reactContext.cacheDir, "exports").apply { mkdirs() }
+            // Only the name is used, so the file always stays in the shared directory.
+            val file = File(directory, File(fileName).name)
+            file.writeText(content)
+            val uri = FileProvider.getUriForFile(
+                reactContext,
+                "${reactContext.packageName}.exports",
+                file
+            )
+            val send = Intent(Intent.ACTION_SEND).apply {
+                type = mimeType
+                putExtra(Intent.EXTRA_STREAM, uri)
+                putExtra(Intent.EXTRA_SUBJECT, file.name)
+                clipData = ClipData.newRawUri(file.name, uri)
+                addFlags(Intent.FLAG_GRANT_READ_URI_PERMISSION)
+            }
+            val chooser = Intent.createChooser(send, title).apply {
+                addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
+            }
+            reactContext.startActivity(chooser)
+            promise.resolve(uri.toString())
+        } catch (e: Exception) {
+            Log.e(TAG, "Error sharing $fileName: ${e.message}", e)
+            promise.reject("E_SHARE", e.message, e)
+        }
+    }
+}
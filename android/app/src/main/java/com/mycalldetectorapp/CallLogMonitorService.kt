@@ -5,6 +5,7 @@ import android.content.Context
 import android.content.Intent
 import android.os.Build
 import android.os.IBinder
+import android.os.PowerManager
 import android.util.Log
 import androidx.core.app.NotificationCompat
 import android.content.pm.ServiceInfo.FOREGROUND_SERVICE_TYPE_PHONE_CALL
@@ -12,83 +13,192 @@ import java.util.*
 
 class CallLogMonitorService : Service() {
 
-    private var lastTimestamp: Long = 0L
+    companion object {
+        const val CALL_LOG_BATCH_ACTION = "com.mycalldetectorapp.CALL_LOG_BATCH"
+
+        // Sent after every poll and when the service starts or stops; the status
+        // itself is read from [MonitoringStatus].
+        const val MONITORING_STATUS_ACTION = "com.mycalldetectorapp.MONITORING_STATUS"
+
+        // Rows beyond this are picked up by the next poll.
+        private const val MAX_CALLS_PER_BATCH = 50
+
+        private const val NOTIFICATION_ID = 101
+
+        private const val PERMISSION_DENIED_ERROR =
+            "READ_CALL_LOG permission denied. Cannot access call log."
+    }
+
+    // Cursor into the call log: rows with a higher ID have not been emitted yet.
+    // Row IDs only grow, unlike DATE, which is when a call started: a long call is written
+    // after a shorter call that started later, and a DATE cursor would skip it.
+    // Null until the call log could be read, so an unreadable log is not replayed later.
+    private var lastCallId: Long? = null
     private val timer = Timer()
     private val TAG = "CallLogMonitorService"
 
+    @Volatile
+    private var config = MonitoringConfig()
+
+    @Volatile
+    private var isDestroyed = false
+
     override fun onCreate() {
         super.onCreate()
         Log.d(TAG, "Service onCreate called.")
+        MonitoringStatus.onStarted()
         createNotificationChannel()
+        config = MonitoringConfig.load(this)
 
         try {
-            val notification = NotificationCompat.Builder(this, "CallLogChannel")
-                .setSmallIcon(R.mipmap.ic_launcher_round)
-                .setContentTitle("Monitoring Call Logs")
-                .setContentText("Watching call history for changes...")
-                .setOngoing(true)
-                .build()
+            val notification = buildNotification(config)
 
             if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.UPSIDE_DOWN_CAKE) {
-                startForeground(101, notification, FOREGROUND_SERVICE_TYPE_PHONE_CALL)
+                startForeground(NOTIFICATION_ID, notification, FOREGROUND_SERVICE_TYPE_PHONE_CALL)
             } else {
-                startForeground(101, notification)
+                startForeground(NOTIFICATION_ID, notification)
             }
         } catch (e: Exception) {
             Log.e(TAG, "Error starting foreground service: ${e.message}", e)
+            MonitoringStatus.onError("Could not start the foreground service: ${e.message}")
         }
 
        try {
-            lastTimestamp = CallLogHelper.getLastCall(this)?.timestamp ?: 0L
+            lastCallId = CallLogHelper.getLastCallId(this)
         } catch (e: IllegalArgumentException) {
             Log.e(TAG, "IllegalArgumentException when getting last call in onCreate: ${e.message}", e)
         } catch (e: SecurityException) {
             Log.e(TAG, "SecurityException: READ_CALL_LOG permission denied. Cannot access call log.", e)
+            MonitoringStatus.onError(PERMISSION_DENIED_ERROR)
         } catch (e: Exception) {
             Log.e(TAG, "Unexpected exception when getting last call in onCreate: ${e.message}", e)
         }
 
-        timer.scheduleAtFixedRate(object : TimerTask() {
-            override fun run() {
-                try {
-                    val latestCall = CallLogHelper.getLastCall(this@CallLogMonitorService)
-                    latestCall?.let {
-                        if (it.timestamp > lastTimestamp) {
-                            lastTimestamp = it.timestamp
-                            val typeLabelForLog = CallLogHelper.getCallTypeLabel(it.type)
-
-                            val intent = Intent("com.mycalldetectorapp.CALL_LOG_UPDATE")
-                            intent.setPackage(applicationContext.packageName)
-                            intent.putExtra("number", it.number)
-                            intent.putExtra("type", it.type)
-                            intent.putExtra("duration", it.duration)
-                            intent.putExtra("timestamp", it.timestamp)
-                            sendBroadcast(intent)
-                        } else {
-                            Log.d(TAG, "No new call detected. Current lastTimestamp: $lastTimestamp")
-                        }
-                    } ?: run {
-                        Log.d(TAG, "No calls found in the log yet.")
-                    }
-                } catch (e: SecurityException) {
-                    Log.e(TAG, "SecurityException in TimerTask: READ_CALL_LOG permission denied. Cannot access call log.", e)
-                } catch (e: Exception) {
-                    Log.e(TAG, "Exception in TimerTask: ${e.message}", e)
+        broadcastStatus()
+        scheduleNextPoll(0)
+    }
+
+    /**
+     * Schedules the next poll. Each poll schedules the one after it, so changes to the
+     * poll interval and the battery saver take effect without restarting the service.
+     * @param delayMs The delay before the poll, in milliseconds.
+     */
+    private fun scheduleNextPoll(delayMs: Long) {
+        if (isDestroyed) return
+        MonitoringStatus.onPollScheduled(delayMs)
+        try {
+            timer.schedule(object : TimerTask() {
+                override fun run() {
+                    refreshConfig()
+                    pollCallLog()
+                    val powerManager = getSystemService(Context.POWER_SERVICE) as PowerManager
+                    scheduleNextPoll(config.getPollDelayMs(powerManager.isPowerSaveMode))
+                    broadcastStatus()
                 }
+            }, delayMs)
+        } catch (e: IllegalStateException) {
+            // The timer was cancelled because the service is being destroyed.
+            Log.d(TAG, "Not scheduling another poll: ${e.message}")
+        }
+    }
+
+    private fun pollCallLog() {
+        try {
+            val afterId = lastCallId
+            if (afterId == null) {
+                // The log could not be read when the service started; start from its end now.
+                lastCallId = CallLogHelper.getLastCallId(this)
+                MonitoringStatus.onPolled(0)
+                return
+            }
+
+            // Every row written since the cursor, in write order, so calls that end
+            // within the same poll window are all emitted.
+            val newCalls = CallLogHelper.getCallsAfterId(this, afterId, MAX_CALLS_PER_BATCH)
+            if (newCalls.isEmpty()) {
+                Log.d(TAG, "No new call detected. Current lastCallId: $afterId")
+                MonitoringStatus.onPolled(0)
+                return
+            }
+            lastCallId = newCalls.last().id
+
+            val forwardedCalls = newCalls.filter { config.forwards(it) }
+            newCalls.forEach {
+                Log.d(
+                    TAG,
+                    "New ${CallLogHelper.getCallTypeLabel(it.type)} call at ${it.timestamp}" +
+                        if (forwardedCalls.contains(it)) "" else " (filtered out)"
+                )
             }
-        }, 0, 5000) // Poll every 5 seconds
+            MonitoringStatus.onPolled(forwardedCalls.size)
+            if (forwardedCalls.isEmpty()) return
+
+            val intent = Intent(CALL_LOG_BATCH_ACTION)
+            intent.setPackage(applicationContext.packageName)
+            intent.putExtra("numbers", forwardedCalls.map { it.number }.toTypedArray())
+            intent.putExtra("types", forwardedCalls.map { it.type }.toIntArray())
+            intent.putExtra("durations", forwardedCalls.map { it.duration }.toLongArray())
+            intent.putExtra("timestamps", forwardedCalls.map { it.timestamp }.toLongArray())
+            sendBroadcast(intent)
+        } catch (e: SecurityException) {
+            Log.e(TAG, "SecurityException in TimerTask: READ_CALL_LOG permission denied. Cannot access call log.", e)
+            MonitoringStatus.onError(PERMISSION_DENIED_ERROR)
+        } catch (e: Exception) {
+            Log.e(TAG, "Exception in TimerTask: ${e.message}", e)
+            MonitoringStatus.onError(e.message ?: e.javaClass.simpleName)
+        }
+    }
+
+    /**
+     * Tells `CallLogModule` that [MonitoringStatus] changed. Sent after every poll,
+     * so it doubles as a heartbeat.
+     */
+    private fun broadcastStatus() {
+        val intent = Intent(MONITORING_STATUS_ACTION)
+        intent.setPackage(applicationContext.packageName)
+        sendBroadcast(intent)
     }
 
     override fun onDestroy() {
         super.onDestroy()
+        isDestroyed = true
         timer.cancel()
+        MonitoringStatus.onStopped()
+        broadcastStatus()
     }
 
     override fun onBind(intent: Intent?): IBinder? = null
 
     override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
-    return START_STICKY
-}
+        // `startMonitoring(options)` saves the new configuration before starting the
+        // service, so apply it right away when the service is already running.
+        refreshConfig()
+        return START_STICKY
+    }
+
+    /**
+     * Picks up configuration saved from JavaScript since the last check and updates
+     * the foreground notification if its title or text changed.
+     */
+    private fun refreshConfig() {
+        val updatedConfig = MonitoringConfig.load(this)
+        if (updatedConfig == config) return
+        val notificationChanged = updatedConfig.notificationTitle != config.notificationTitle ||
+            updatedConfig.notificationText != config.notificationText
+        config = updatedConfig
+        if (notificationChanged) {
+            getSystemService(NotificationManager::class.java)
+                .notify(NOTIFICATION_ID, buildNotification(updatedConfig))
+        }
+    }
+
+    private fun buildNotification(config: MonitoringConfig): Notification =
+        NotificationCompat.Builder(this, "CallLogChannel")
+            .setSmallIcon(R.mipmap.ic_launcher_round)
+            .setContentTitle(config.notificationTitle)
+            .setContentText(config.notificationText)
+            .setOngoing(true)
+            .build()
 
     private fun createNotificationChannel() {
         if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
@@ -101,4 +211,4 @@ class CallLogMonitorService : Service() {
             manager.createNotificationChannel(serviceChannel)
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+package com.mycalldetectorapp
+
+import android.content.Context
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.ReadableType
+import com.facebook.react.bridge.WritableMap
+
+/**
+ * Configuration of the call log monitoring service, set from JavaScript through
+ * `startMonitoring(options)` and persisted in SharedPreferences so the service
+ * restarts with the same settings after a reboot.
+ * @param pollIntervalMs How often the call log is polled, in milliseconds.
+ * @param batteryMode "standard" always polls at [pollIntervalMs]; "adaptive" polls at
+ * most every [SAVER_POLL_INTERVAL_MS] while Android's battery saver is on.
+ * @param callTypes The call types forwarded to JavaScript ("incoming", "missed", ...);
+ * empty forwards every call.
+ * @param notificationTitle The title of the foreground service notification.
+ * @param notificationText The text of the foreground service notification.
+ */
+data class MonitoringConfig(
+    val pollIntervalMs: Long = DEFAULT_POLL_INTERVAL_MS,
+    val batteryMode: String = BATTERY_MODE_STANDARD,
+    val callTypes: Set<String> = emptySet(),
+    val notificationTitle: String = DEFAULT_NOTIFICATION_TITLE,
+    val notificationText: String = DEFAULT_NOTIFICATION_TEXT
+) {
+
+    /**
+     * Checks whether a call should be forwarded to JavaScript.
+     * @param call The call log entry.
+     */
+    fun forwards(call: CallEntry): Boolean =
+        callTypes.isEmpty() || callTypes.contains(CallLogHelper.getCallCategory(call))
+
+    /**
+     * Returns the delay until the next poll.
+     * @param isPowerSaveMode Whether Android's battery saver is on.
+     */
+    fun getPollDelayMs(isPowerSaveMode: Boolean): Long =
+        if (batteryMode == BATTERY_MODE_ADAPTIVE && isPowerSaveMode) {
+            maxOf(pollIntervalMs, SAVER_POLL_INTERVAL_MS)
+        } else {
+            pollIntervalMs
+        }
+
+    /**
+     * Returns a copy with the options given from JavaScript applied. Missing
+     * options keep their current value; invalid ones are ignored.
+     * @param options The options object passed to `startMonitoring`.
+     */
+    fun withOptions(options: ReadableMap): MonitoringConfig {
+        var config = this
+        if (options.hasKey("pollIntervalMs") && options.getType("pollIntervalMs") == ReadableType.Number) {
+            config = config.copy(
+                pollIntervalMs = options.getDouble("pollIntervalMs").toLong()
+                    .coerceIn(MIN_POLL_INTERVAL_MS, MAX_POLL_INTERVAL_MS)
+            )
+        }
+        if (options.hasKey("batteryMode") && options.getType("batteryMode") == ReadableType.String) {
+            val batteryMode = options.getString("batteryMode")
+            if (batteryMode == BATTERY_MODE_STANDARD || batteryMode == BATTERY_MODE_ADAPTIVE) {
+                config = config.copy(batteryMode = batteryMode)
+            }
+        }
+        if (options.hasKey("callTypes") && options.getType("callTypes") == ReadableType.Array) {
+            val callTypes = options.getArray("callTypes")?.toArrayList()
+                ?.filterIsInstance<String>()
+                ?.toSet()
+                ?: emptySet()
+            config = config.copy(callTypes = callTypes)
+        }
+        if (options.hasKey("notificationTitle") && options.getType("notificationTitle") == ReadableType.String) {
+            config = config.copy(
+                notificationTitle = options.getString("notificationTitle")?.ifBlank { null }
+                    ?: DEFAULT_NOTIFICATION_TITLE
+            )
+        }
+        if (options.hasKey("notificationText") && options.getType("notificationText") == ReadableType.String) {
+            config = config.copy(
+                notificationText = options.getString("notificationText")?.ifBlank { null }
+                    ?: DEFAULT_NOTIFICATION_TEXT
+            )
+        }
+        return config
+    }
+
+    /**
+     * Converts the configuration into the options object used in JavaScript.
+     */
+    fun toWritableMap(): WritableMap = Arguments.createMap().apply {
+        putDouble("pollIntervalMs", pollIntervalMs.toDouble())
+        putString("batteryMode", batteryMode)
+        putArray("callTypes", Arguments.fromList(callTypes.toList()))
+        putString("notificationTitle", notificationTitle)
+        putString("notificationText", notificationText)
+    }
+
+    /**
+     * Persists the configuration.
+     * @param context Any context of the app.
+     */
+    fun save(context: Context) {
+        context.getSharedPreferences(PREFERENCES_NAME, Context.MODE_PRIVATE).edit()
+            .putLong(KEY_POLL_INTERVAL_MS, pollIntervalMs)
+            .putString(KEY_BATTERY_MODE, batteryMode)
+            .putStringSet(KEY_CALL_TYPES, callTypes)
+            .putString(KEY_NOTIFICATION_TITLE, notificationTitle)
+            .putString(KEY_NOTIFICATION_TEXT, notificationText)
+            .apply()
+    }
+
+    companion object {
+        const val DEFAULT_POLL_INTERVAL_MS = 5000L
+        const val MIN_POLL_INTERVAL_MS = 1000L
+        const val MAX_POLL_INTERVAL_MS = 10 * 60 * 1000L
+        const val SAVER_POLL_INTERVAL_MS = 60 * 1000L
+        const val BATTERY_MODE_STANDARD = "standard"
+        const val BATTERY_MODE_ADAPTIVE = "adaptive"
+        const val DEFAULT_NOTIFICATION_TITLE = "Monitoring Call Logs"
+        const val DEFAULT_NOTIFICATION_TEXT = "Watching call history for changes..."
+
+        private const val PREFERENCES_NAME = "CallLogMonitorConfig"
+        private const val KEY_POLL_INTERVAL_MS = "pollIntervalMs"
+        private const val KEY_BATTERY_MODE = "batteryMode"
+        private const val KEY_CALL_TYPES = "callTypes"
+        private const val KEY_NOTIFICATION_TITLE = "notificationTitle"
+        private const val KEY_NOTIFICATION_TEXT = "notificationText"
+
+        /**
+         * Loads the persisted configuration, or the defaults if none was saved.
+         * @param context Any context of the app.
+         */
+        fun load(context: Context): MonitoringConfig {
+            val preferences = context.getSharedPreferences(PREFERENCES_NAME, Context.MODE_PRIVATE)
+            val defaults = MonitoringConfig()
+            return MonitoringConfig(
+                pollIntervalMs = preferences.getLong(KEY_POLL_INTERVAL_MS, defaults.pollIntervalMs),
+                batteryMode = preferences.getString(KEY_BATTERY_MODE, null) ?: defaults.batteryMode,
+                callTypes = preferences.getStringSet(KEY_CALL_TYPES, null)?.toSet() ?: defaults.callTypes,
+                notificationTitle = preferences.getString(KEY_NOTIFICATION_TITLE, null)
+                    ?: defaults.notificationTitle,
+                notificationText = preferences.getString(KEY_NOTIFICATION_TEXT, null)
+                    ?: defaults.notificationText
+            )
+        }
+    }
+}
@@ -0,0 +1,96 @@
+package com.mycalldetectorapp
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableMap
+
+/**
+ * What the call log monitoring service is actually doing, as opposed to what the
+ * app asked it to do. It lives in memory only: when Android kills the process,
+ * the service is not running either, and a fresh process correctly reports it
+ * as stopped.
+ */
+object MonitoringStatus {
+
+    @Volatile
+    var isRunning = false
+        private set
+
+    @Volatile
+    var startedAt: Long? = null
+        private set
+
+    /** When the call log was last read successfully. */
+    @Volatile
+    var lastPollAt: Long? = null
+        private set
+
+    /** The delay until the next poll, which grows while battery saver is on. */
+    @Volatile
+    var pollDelayMs: Long? = null
+        private set
+
+    @Volatile
+    var lastError: String? = null
+        private set
+
+    @Volatile
+    var lastErrorAt: Long? = null
+        private set
+
+    /** The calls forwarded to JavaScript since the service started. */
+    @Volatile
+    var callsEmitted = 0
+        private set
+
+    @Synchronized
+    fun onStarted() {
+        isRunning = true
+        startedAt = System.currentTimeMillis()
+        lastPollAt = null
+        pollDelayMs = null
+        lastError = null
+        lastErrorAt = null
+        callsEmitted = 0
+    }
+
+    @Synchronized
+    fun onPolled(emitted: Int) {
+        lastPollAt = System.currentTimeMillis()
+        callsEmitted += emitted
+    }
+
+    @Synchronized
+    fun onPollScheduled(delayMs: Long) {
+        pollDelayMs = delayMs
+    }
+
+    @Synchronized
+    fun onError(message: String) {
+        lastError = message
+        lastErrorAt = System.currentTimeMillis()
+    }
+
+    @Synchronized
+    fun onStopped() {
+        isRunning = false
+        pollDelayMs = null
+    }
+
+    /**
+     * Converts the status into the object returned by `getMonitoringStatus()`.
+     */
+    @Synchronized
+    fun toWritableMap(): WritableMap = Arguments.createMap().apply {
+        putBoolean("isRunning", isRunning)
+        putNullableNumber("startedAt", startedAt)
+        putNullableNumber("lastPollAt", lastPollAt)
+        putNullableNumber("pollDelayMs", pollDelayMs)
+        putString("lastError", lastError)
+        putNullableNumber("lastErrorAt", lastErrorAt)
+        putInt("callsEmitted", callsEmitted)
+    }
+
+    private fun WritableMap.putNullableNumber(key: String, value: Long?) {
+        if (value == null) putNull(key) else putDouble(key, value.toDouble())
+    }
+}
@@ -0,0 +1,412 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useBusinessHours } from '../hooks/useBusinessHours';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import { AfterHoursMode, BusinessDayHours } from '../hooks/types';
+import {
+  WEEKDAY_LABELS,
+  isValidTimeZone,
+  parseTimeOfDay,
+} from '../utils/BusinessHours';
+import { parseDateInput } from '../utils/CallHistoryFilter';
+
+const AFTER_HOURS_OPTIONS: { mode: AfterHoursMode; label: string }[] = [
+  { mode: 'hold', label: '⏸️ Hold until open' },
+  { mode: 'after_hours_template', label: '💬 Send after-hours template' },
+];
+
+// Show Monday first; the schedule itself is indexed from Sunday.
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type TimeField = 'open' | 'close';
+
+/**
+ * Settings section for the weekly business hours, holidays and time zone.
+ * Outside business hours, client-check prompts are held until the next
+ * opening or the call is answered with the after-hours template.
+ */
+export function BusinessHoursManager() {
+  const { hours, isLoading, updateHours } = useBusinessHours();
+  const { library } = useMessageTemplates();
+  const [timeInputs, setTimeInputs] = useState<Record<string, string>>({});
+  const [timeZoneInput, setTimeZoneInput] = useState<string | null>(null);
+  const [holidayInput, setHolidayInput] = useState('');
+
+  const updateDay = useCallback(
+    (weekday: number, changes: Partial<BusinessDayHours>) => {
+      updateHours(prev => ({
+        ...prev,
+        weekly: prev.weekly.map((day, index) =>
+          index === weekday ? { ...day, ...changes } : day,
+        ),
+      }));
+    },
+    [updateHours],
+  );
+
+  const handleTimeEndEditing = useCallback(
+    (weekday: number, field: TimeField) => {
+      const key = `${weekday}_${field}`;
+      const value = timeInputs[key];
+      if (value === undefined) return;
+      if (parseTimeOfDay(value) === null) {
+        Alert.alert('Invalid Time', 'Enter a time as HH:MM, e.g. 09:30.');
+      } else {
+        updateDay(weekday, { [field]: value.trim() });
+      }
+      setTimeInputs(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    },
+    [timeInputs, updateDay],
+  );
+
+  const handleTimeZoneEndEditing = useCallback(() => {
+    if (timeZoneInput === null) return;
+    const timeZone = timeZoneInput.trim();
+    if (isValidTimeZone(timeZone)) {
+      updateHours(prev => ({ ...prev, timeZone }));
+    } else {
+      Alert.alert(
+        'Unknown Time Zone',
+        'Enter a time zone such as Asia/Kolkata, or leave it empty to use the phone’s time zone.',
+      );
+    }
+    setTimeZoneInput(null);
+  }, [timeZoneInput, updateHours]);
+
+  const handleAddHoliday = useCallback(() => {
+    const holiday = holidayInput.trim();
+    if (parseDateInput(holiday) === null) {
+      Alert.alert('Invalid Date', 'Enter the holiday as YYYY-MM-DD.');
+      return;
+    }
+    updateHours(prev =>
+      prev.holidays.includes(holiday)
+        ? prev
+        : { ...prev, holidays: [...prev.holidays, holiday].sort() },
+    );
+    setHolidayInput('');
+  }, [holidayInput, updateHours]);
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>Business Hours</Text>
+        <TouchableOpacity
+          style={[styles.chip, hours.enabled && styles.chipActive]}
+          onPress={() =>
+            updateHours(prev => ({ ...prev, enabled: !prev.enabled }))
+          }
+          activeOpacity={0.8}
+        >
+          <Text
+            style={[styles.chipText, hours.enabled && styles.chipTextActive]}
+          >
+            {hours.enabled ? 'On' : 'Off'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {hours.enabled && (
+        <>
+          <View style={styles.card}>
+            {WEEKDAY_ORDER.map(weekday => {
+              const day = hours.weekly[weekday];
+              return (
+                <View key={weekday} style={styles.dayRow}>
+                  <TouchableOpacity
+                    style={[
+                      styles.chip,
+                      styles.dayChip,
+                      day.enabled && styles.chipActive,
+                    ]}
+                    onPress={() =>
+                      updateDay(weekday, { enabled: !day.enabled })
+                    }
+                    activeOpacity={0.8}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        day.enabled && styles.chipTextActive,
+                      ]}
+                    >
+                      {WEEKDAY_LABELS[weekday]}
+                    </Text>
+                  </TouchableOpacity>
+                  {day.enabled ? (
+                    (['open', 'close'] as TimeField[]).map(field => (
+                      <TextInput
+                        key={field}
+                        style={[styles.input, styles.timeInput]}
+                        value={timeInputs[`${weekday}_${field}`] ?? day[field]}
+                        onChangeText={value =>
+                          setTimeInputs(prev => ({
+                            ...prev,
+                            [`${weekday}_${field}`]: value,
+                          }))
+                        }
+                        onEndEditing={() =>
+                          handleTimeEndEditing(weekday, field)
+                        }
+                        placeholder="HH:MM"
+                        keyboardType="numbers-and-punctuation"
+                        maxLength={5}
+                      />
+                    ))
+                  ) : (
+                    <Text style={styles.closedText}>Closed</Text>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.label}>Time zone</Text>
+            <TextInput
+              style={styles.input}
+              value={timeZoneInput ?? hours.timeZone}
+              onChangeText={setTimeZoneInput}
+              onEndEditing={handleTimeZoneEndEditing}
+              placeholder="Phone's time zone"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.label}>Holidays</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={holidayInput}
+                onChangeText={setHolidayInput}
+                placeholder="YYYY-MM-DD"
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+              <TouchableOpacity onPress={handleAddHoliday} activeOpacity={0.8}>
+                <Text style={styles.actionText}>➕ Add</Text>
+              </TouchableOpacity>
+            </View>
+            {hours.holidays.map(holiday => (
+              <View key={holiday} style={styles.holidayRow}>
+                <Text style={styles.holidayText}>{holiday}</Text>
+                <TouchableOpacity
+                  onPress={() =>
+                    updateHours(prev => ({
+                      ...prev,
+                      holidays: prev.holidays.filter(h => h !== holiday),
+                    }))
+                  }
+                  activeOpacity={0.8}
+                >
+                  <Text style={[styles.actionText, styles.deleteText]}>
+                    Remove
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.label}>Outside business hours</Text>
+            <View style={styles.chipRow}>
+              {AFTER_HOURS_OPTIONS.map(option => {
+                const isActive = hours.afterHoursMode === option.mode;
+                return (
+                  <TouchableOpacity
+                    key={option.mode}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() =>
+                      updateHours(prev => ({
+                        ...prev,
+                        afterHoursMode: option.mode,
+                      }))
+                    }
+                    activeOpacity={0.8}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isActive && styles.chipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {hours.afterHoursMode === 'after_hours_template' ? (
+              <>
+                <Text style={styles.label}>After-hours template</Text>
+                <View style={styles.chipRow}>
+                  {library.templates.map(template => {
+                    const isActive = hours.afterHoursTemplateId === template.id;
+                    return (
+                      <TouchableOpacity
+                        key={template.id}
+                        style={[styles.chip, isActive && styles.chipActive]}
+                        onPress={() =>
+                          updateHours(prev => ({
+                            ...prev,
+                            afterHoursTemplateId: template.id,
+                          }))
+                        }
+                        activeOpacity={0.8}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            isActive && styles.chipTextActive,
+                          ]}
+                        >
+                          {template.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            ) : (
+              <Text style={styles.hint}>
+                Prompts for calls after hours arrive together when you next
+                open.
+              </Text>
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dayChip: {
+    width: 56,
+    alignItems: 'center',
+  },
+  timeInput: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  closedText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6c757d',
+  },
+  holidayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  holidayText: {
+    fontSize: 14,
+    color: '#2c3e50',
+    fontFamily: 'monospace',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { AnalyzedCall, CallAnnotation, FollowUpStatus } from '../hooks/types';
+import {
+  SUGGESTED_TAGS,
+  getCallAnnotation,
+  parseTagList,
+} from '../utils/CallAnnotations';
+import { FOLLOW_UP_STATUSES } from '../utils/CallHistoryRepository';
+
+export const FOLLOW_UP_LABELS: Record<FollowUpStatus, string> = {
+  none: 'No follow-up',
+  pending: '🔔 Follow up',
+  done: '✔️ Followed up',
+};
+
+/**
+ * Returns the tags and follow-up status of a call as one line, e.g.
+ * "#complaint  🔔 Follow up", or '' if it has neither.
+ * @param call The call.
+ */
+export function formatAnnotationLabels(call: AnalyzedCall): string {
+  const { tags, followUpStatus } = getCallAnnotation(call);
+  return [
+    ...tags.map(tag => `#${tag}`),
+    ...(followUpStatus !== 'none' ? [FOLLOW_UP_LABELS[followUpStatus]] : []),
+  ].join('  ');
+}
+
+type CallAnnotationEditorProps = {
+  call: AnalyzedCall;
+  /** Every tag used in the history, offered as chips. */
+  availableTags: string[];
+  onChange: (changes: Partial<CallAnnotation>) => void;
+};
+
+/**
+ * Editor shown under a call in the history list for its note, tags and
+ * follow-up status. The note is saved when editing ends.
+ */
+export function CallAnnotationEditor({
+  call,
+  availableTags,
+  onChange,
+}: CallAnnotationEditorProps) {
+  const annotation = getCallAnnotation(call);
+  const [noteInput, setNoteInput] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const tagOptions = Array.from(
+    new Set([...SUGGESTED_TAGS, ...availableTags, ...annotation.tags]),
+  );
+
+  const toggleTag = useCallback(
+    (tag: string) => {
+      onChange({
+        tags: annotation.tags.includes(tag)
+          ? annotation.tags.filter(t => t !== tag)
+          : [...annotation.tags, tag],
+      });
+    },
+    [annotation.tags, onChange],
+  );
+
+  const handleNoteEndEditing = useCallback(() => {
+    if (noteInput === null) return;
+    onChange({ note: noteInput.trim() });
+    setNoteInput(null);
+  }, [noteInput, onChange]);
+
+  const handleAddTags = useCallback(() => {
+    const tags = parseTagList(tagInput);
+    if (tags.length === 0) return;
+    onChange({ tags: [...annotation.tags, ...tags] });
+    setTagInput('');
+  }, [annotation.tags, onChange, tagInput]);
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={[styles.input, styles.noteInput]}
+        value={noteInput ?? annotation.note}
+        onChangeText={setNoteInput}
+        onEndEditing={handleNoteEndEditing}
+        placeholder="Note"
+        multiline
+      />
+
+      <Text style={styles.label}>Tags</Text>
+      <View style={styles.chipRow}>
+        {tagOptions.map(tag => {
+          const isActive = annotation.tags.includes(tag);
+          return (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => toggleTag(tag)}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[styles.chipText, isActive && styles.chipTextActive]}
+              >
+                #{tag}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={tagInput}
+          onChangeText={setTagInput}
+          onSubmitEditing={handleAddTags}
+          placeholder="New tags, comma separated"
+          autoCapitalize="none"
+        />
+        <TouchableOpacity onPress={handleAddTags} activeOpacity={0.8}>
+          <Text style={styles.actionText}>➕ Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.label}>Follow-up</Text>
+      <View style={styles.chipRow}>
+        {FOLLOW_UP_STATUSES.map(status => {
+          const isActive = annotation.followUpStatus === status;
+          return (
+            <TouchableOpacity
+              key={status}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => onChange({ followUpStatus: status })}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[styles.chipText, isActive && styles.chipTextActive]}
+              >
+                {FOLLOW_UP_LABELS[status]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  noteInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+});
@@ -0,0 +1,174 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CallClassificationThresholds, CallOutcome } from '../hooks/types';
+import { DEFAULT_CLASSIFICATION_THRESHOLDS } from '../utils/CallLogAnalyzer';
+import {
+  UNANSWERED_OUTGOING_OPTIONS,
+  VERY_SHORT_CALL_OPTIONS,
+  loadClassificationThresholds,
+  saveClassificationThresholds,
+} from '../utils/CallClassification';
+
+export const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  answered: 'Answered',
+  very_short: 'Very short',
+  unanswered: 'Not picked up',
+  missed: 'Missed',
+  voicemail: 'Voicemail',
+  rejected: 'Rejected',
+  blocked: 'Blocked',
+  answered_elsewhere: 'Answered on another device',
+  unknown: 'Unknown',
+};
+
+type ThresholdChipsProps = {
+  options: number[];
+  value: number;
+  /** Shown for 0, where the threshold is switched off. */
+  zeroLabel: string;
+  onChange: (seconds: number) => void;
+};
+
+function ThresholdChips({
+  options,
+  value,
+  zeroLabel,
+  onChange,
+}: ThresholdChipsProps) {
+  return (
+    <View style={styles.chipRow}>
+      {options.map(seconds => {
+        const isActive = value === seconds;
+        return (
+          <TouchableOpacity
+            key={seconds}
+            style={[styles.chip, isActive && styles.chipActive]}
+            onPress={() => onChange(seconds)}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+              {seconds === 0 ? zeroLabel : `${seconds}s`}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * Settings section for the limits that set very short calls, such as a
+ * caller ringing and hanging up, and unanswered outgoing calls apart from
+ * ordinary ones. Call rules can then match those outcomes.
+ */
+export function CallClassificationSettingsPanel() {
+  const [thresholds, setThresholds] = useState<CallClassificationThresholds>(
+    DEFAULT_CLASSIFICATION_THRESHOLDS,
+  );
+
+  useEffect(() => {
+    loadClassificationThresholds().then(setThresholds);
+  }, []);
+
+  const updateThresholds = useCallback(
+    (changes: Partial<CallClassificationThresholds>) => {
+      setThresholds(prev => {
+        const next = { ...prev, ...changes };
+        saveClassificationThresholds(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Call Classification</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Very short: connected for less than</Text>
+        <ThresholdChips
+          options={VERY_SHORT_CALL_OPTIONS}
+          value={thresholds.veryShortCallSeconds}
+          zeroLabel="Off"
+          onChange={seconds =>
+            updateThresholds({ veryShortCallSeconds: seconds })
+          }
+        />
+        <Text style={styles.label}>
+          Outgoing not picked up: connected for at most
+        </Text>
+        <ThresholdChips
+          options={UNANSWERED_OUTGOING_OPTIONS}
+          value={thresholds.unansweredOutgoingSeconds}
+          zeroLabel="0s"
+          onChange={seconds =>
+            updateThresholds({ unansweredOutgoingSeconds: seconds })
+          }
+        />
+        <Text style={styles.hint}>
+          Applies to calls detected from now on. Some phones count ringing time
+          for outgoing calls; raise the second limit if unanswered calls show up
+          as answered.
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,214 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { CallHistoryFilter, CallType } from '../hooks/types';
+import { CALL_TYPES } from '../utils/CallLogAnalyzer';
+import { isFilterActive, parseDateInput } from '../utils/CallHistoryFilter';
+
+type CallHistoryFilterBarProps = {
+  filter: CallHistoryFilter;
+  /** Every tag used in the history. */
+  availableTags: string[];
+  onChange: (updates: Partial<CallHistoryFilter>) => void;
+  onReset: () => void;
+};
+
+/**
+ * Search box and filters shown above the call history list: partial number
+ * search, call type chips, tag chips, a date range and a minimum duration.
+ */
+export function CallHistoryFilterBar({
+  filter,
+  availableTags,
+  onChange,
+  onReset,
+}: CallHistoryFilterBarProps) {
+  const toggleType = useCallback(
+    (callType: CallType) => {
+      onChange({
+        types: filter.types.includes(callType)
+          ? filter.types.filter(t => t !== callType)
+          : [...filter.types, callType],
+      });
+    },
+    [filter.types, onChange],
+  );
+
+  const toggleTag = useCallback(
+    (tag: string) => {
+      onChange({
+        tags: filter.tags.includes(tag)
+          ? filter.tags.filter(t => t !== tag)
+          : [...filter.tags, tag],
+      });
+    },
+    [filter.tags, onChange],
+  );
+
+  // Keep selected tags visible even if no call carries them any more.
+  const tagOptions = Array.from(new Set([...availableTags, ...filter.tags]));
+
+  const isDateInvalid = (value: string) =>
+    value.trim() !== '' && parseDateInput(value) === null;
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        value={filter.query}
+        onChangeText={query => onChange({ query })}
+        placeholder="🔍 Search by number"
+        keyboardType="phone-pad"
+      />
+
+      <View style={styles.chipRow}>
+        {CALL_TYPES.map(callType => {
+          const isActive = filter.types.includes(callType);
+          return (
+            <TouchableOpacity
+              key={callType}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => toggleType(callType)}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[styles.chipText, isActive && styles.chipTextActive]}
+              >
+                {callType}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {tagOptions.length > 0 && (
+        <View style={styles.chipRow}>
+          {tagOptions.map(tag => {
+            const isActive = filter.tags.includes(tag);
+            return (
+              <TouchableOpacity
+                key={tag}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => toggleTag(tag)}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[styles.chipText, isActive && styles.chipTextActive]}
+                >
+                  #{tag}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[
+            styles.input,
+            styles.rowInput,
+            isDateInvalid(filter.fromDate) && styles.invalidInput,
+          ]}
+          value={filter.fromDate}
+          onChangeText={fromDate => onChange({ fromDate })}
+          placeholder="From YYYY-MM-DD"
+        />
+        <TextInput
+          style={[
+            styles.input,
+            styles.rowInput,
+            isDateInvalid(filter.toDate) && styles.invalidInput,
+          ]}
+          value={filter.toDate}
+          onChangeText={toDate => onChange({ toDate })}
+          placeholder="To YYYY-MM-DD"
+        />
+      </View>
+
+      <View style={styles.inputRow}>
+        <Text style={styles.label}>Min. duration (s)</Text>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={filter.minDuration > 0 ? String(filter.minDuration) : ''}
+          onChangeText={text =>
+            onChange({ minDuration: Number(text.replace(/\D/g, '')) || 0 })
+          }
+          placeholder="0"
+          keyboardType="number-pad"
+        />
+        {isFilterActive(filter) && (
+          <TouchableOpacity onPress={onReset} activeOpacity={0.8}>
+            <Text style={styles.resetText}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  invalidInput: {
+    borderColor: '#e74c3c',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  resetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+});
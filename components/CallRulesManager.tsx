@@ -0,0 +1,565 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useCallRules } from '../hooks/useCallRules';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import {
+  CallOutcome,
+  CallRule,
+  CallType,
+  KnownNumberCondition,
+  RuleAction,
+} from '../hooks/types';
+import { CALL_OUTCOMES, CALL_TYPES } from '../utils/CallLogAnalyzer';
+import { EMPTY_RULE_CONDITIONS, RULE_ACTIONS } from '../utils/CallRules';
+import { CALL_OUTCOME_LABELS } from './CallClassificationSettingsPanel';
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  prompt: 'Ask me',
+  skip: 'Skip',
+  auto_send: 'Auto-send',
+};
+
+const KNOWN_NUMBER_LABELS: Record<KnownNumberCondition, string> = {
+  any: 'Any number',
+  known: 'Known',
+  unknown: 'Unknown',
+};
+
+type RuleDraft = Omit<CallRule, 'conditions'> & {
+  types: CallType[];
+  outcomes: CallOutcome[];
+  minDuration: string;
+  maxDuration: string;
+  numberPrefix: string;
+  knownNumber: KnownNumberCondition;
+  isNew: boolean;
+};
+
+function toDraft(rule: CallRule, isNew: boolean): RuleDraft {
+  const { conditions, ...rest } = rule;
+  return {
+    ...rest,
+    types: conditions.types,
+    outcomes: conditions.outcomes,
+    minDuration:
+      conditions.minDuration === null ? '' : String(conditions.minDuration),
+    maxDuration:
+      conditions.maxDuration === null ? '' : String(conditions.maxDuration),
+    numberPrefix: conditions.numberPrefix,
+    knownNumber: conditions.knownNumber,
+    isNew,
+  };
+}
+
+function parseDurationInput(value: string): number | null | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : undefined;
+}
+
+function describeRule(rule: CallRule): string {
+  const {
+    types,
+    outcomes,
+    minDuration,
+    maxDuration,
+    numberPrefix,
+    knownNumber,
+  } = rule.conditions;
+  const parts = [types.length > 0 ? types.join(' / ') : 'all calls'];
+  if (outcomes.length > 0) {
+    parts.push(
+      outcomes.map(outcome => CALL_OUTCOME_LABELS[outcome]).join(' / '),
+    );
+  }
+  if (minDuration !== null) parts.push(`≥ ${minDuration}s`);
+  if (maxDuration !== null) parts.push(`≤ ${maxDuration}s`);
+  if (numberPrefix) parts.push(`starting ${numberPrefix}`);
+  if (knownNumber !== 'any') parts.push(`${knownNumber} numbers`);
+  return `${parts.join(', ')} → ${ACTION_LABELS[rule.action]}`;
+}
+
+/**
+ * Settings section for the rules that decide, per detected call, whether to
+ * show the client-check prompt, skip the call or send a template right away.
+ * Rules are checked top to bottom and the first enabled match wins.
+ */
+export function CallRulesManager() {
+  const { rules, isLoading, saveRule, removeRule, toggleRule, moveRule } =
+    useCallRules();
+  const { library } = useMessageTemplates();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const handleNewRule = useCallback(() => {
+    setDraft(
+      toDraft(
+        {
+          id: `rule_${Date.now()}`,
+          name: '',
+          enabled: true,
+          conditions: EMPTY_RULE_CONDITIONS,
+          action: 'skip',
+          templateId: null,
+        },
+        true,
+      ),
+    );
+  }, []);
+
+  const handleSaveDraft = useCallback(() => {
+    if (!draft) return;
+    const minDuration = parseDurationInput(draft.minDuration);
+    const maxDuration = parseDurationInput(draft.maxDuration);
+    if (!draft.name.trim()) {
+      Alert.alert('Missing Name', 'A rule needs a name.');
+      return;
+    }
+    if (minDuration === undefined || maxDuration === undefined) {
+      Alert.alert('Invalid Duration', 'Durations must be whole seconds.');
+      return;
+    }
+    saveRule({
+      id: draft.id,
+      name: draft.name.trim(),
+      enabled: draft.enabled,
+      conditions: {
+        types: draft.types,
+        outcomes: draft.outcomes,
+        minDuration,
+        maxDuration,
+        numberPrefix: draft.numberPrefix.trim(),
+        knownNumber: draft.knownNumber,
+      },
+      action: draft.action,
+      templateId: draft.action === 'auto_send' ? draft.templateId : null,
+    });
+    setDraft(null);
+  }, [draft, saveRule]);
+
+  const handleDeleteRule = useCallback(
+    (rule: CallRule) => {
+      Alert.alert('Delete Rule', `Delete "${rule.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => removeRule(rule.id),
+        },
+      ]);
+    },
+    [removeRule],
+  );
+
+  const toggleDraftType = useCallback((callType: CallType) => {
+    setDraft(prev =>
+      prev
+        ? {
+            ...prev,
+            types: prev.types.includes(callType)
+              ? prev.types.filter(type => type !== callType)
+              : [...prev.types, callType],
+          }
+        : prev,
+    );
+  }, []);
+
+  const toggleDraftOutcome = useCallback((outcome: CallOutcome) => {
+    setDraft(prev =>
+      prev
+        ? {
+            ...prev,
+            outcomes: prev.outcomes.includes(outcome)
+              ? prev.outcomes.filter(o => o !== outcome)
+              : [...prev.outcomes, outcome],
+          }
+        : prev,
+    );
+  }, []);
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Call Rules</Text>
+      <Text style={styles.hint}>
+        Checked top to bottom; the first enabled match decides. Calls that match
+        no rule show the client check.
+      </Text>
+
+      {rules.map((rule, index) =>
+        draft && draft.id === rule.id ? null : (
+          <View
+            key={rule.id}
+            style={[styles.card, !rule.enabled && styles.cardDisabled]}
+          >
+            <View style={styles.ruleHeader}>
+              <Text style={styles.ruleName}>{rule.name}</Text>
+              <TouchableOpacity
+                style={[styles.chip, rule.enabled && styles.chipActive]}
+                onPress={() => toggleRule(rule.id)}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    rule.enabled && styles.chipTextActive,
+                  ]}
+                >
+                  {rule.enabled ? 'On' : 'Off'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.ruleSummary}>{describeRule(rule)}</Text>
+
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                onPress={() => moveRule(rule.id, -1)}
+                disabled={index === 0}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.actionText}>⬆️</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => moveRule(rule.id, 1)}
+                disabled={index === rules.length - 1}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.actionText}>⬇️</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setDraft(toDraft(rule, false))}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.actionText}>✏️ Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDeleteRule(rule)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.actionText, styles.deleteText]}>
+                  🗑️ Delete
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ),
+      )}
+
+      {draft ? (
+        <View style={styles.card}>
+          <Text style={styles.label}>
+            {draft.isNew ? 'New rule' : 'Edit rule'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={draft.name}
+            onChangeText={name => setDraft({ ...draft, name })}
+            placeholder="Rule name"
+          />
+
+          <Text style={styles.label}>Call types (none = all)</Text>
+          <View style={styles.chipRow}>
+            {CALL_TYPES.map(callType => {
+              const isActive = draft.types.includes(callType);
+              return (
+                <TouchableOpacity
+                  key={callType}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => toggleDraftType(callType)}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[styles.chipText, isActive && styles.chipTextActive]}
+                  >
+                    {callType}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Outcomes (none = all)</Text>
+          <View style={styles.chipRow}>
+            {CALL_OUTCOMES.map(outcome => {
+              const isActive = draft.outcomes.includes(outcome);
+              return (
+                <TouchableOpacity
+                  key={outcome}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => toggleDraftOutcome(outcome)}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[styles.chipText, isActive && styles.chipTextActive]}
+                  >
+                    {CALL_OUTCOME_LABELS[outcome]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Duration in seconds</Text>
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.rowInput]}
+              value={draft.minDuration}
+              onChangeText={minDuration => setDraft({ ...draft, minDuration })}
+              placeholder="Min"
+              keyboardType="number-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.rowInput]}
+              value={draft.maxDuration}
+              onChangeText={maxDuration => setDraft({ ...draft, maxDuration })}
+              placeholder="Max"
+              keyboardType="number-pad"
+            />
+          </View>
+
+          <Text style={styles.label}>Number starts with</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.numberPrefix}
+            onChangeText={numberPrefix => setDraft({ ...draft, numberPrefix })}
+            placeholder="e.g. +9180 or 1800"
+            keyboardType="phone-pad"
+          />
+
+          <Text style={styles.label}>Number</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(KNOWN_NUMBER_LABELS) as KnownNumberCondition[]).map(
+              option => {
+                const isActive = draft.knownNumber === option;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() => setDraft({ ...draft, knownNumber: option })}
+                    activeOpacity={0.8}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isActive && styles.chipTextActive,
+                      ]}
+                    >
+                      {KNOWN_NUMBER_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              },
+            )}
+          </View>
+
+          <Text style={styles.label}>Then</Text>
+          <View style={styles.chipRow}>
+            {RULE_ACTIONS.map(action => {
+              const isActive = draft.action === action;
+              return (
+                <TouchableOpacity
+                  key={action}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => setDraft({ ...draft, action })}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[styles.chipText, isActive && styles.chipTextActive]}
+                  >
+                    {ACTION_LABELS[action]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {draft.action === 'auto_send' && (
+            <>
+              <Text style={styles.label}>
+                Template (none = default for the call type)
+              </Text>
+              <View style={styles.chipRow}>
+                {library.templates.map(template => {
+                  const isActive = draft.templateId === template.id;
+                  return (
+                    <TouchableOpacity
+                      key={template.id}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() =>
+                        setDraft({
+                          ...draft,
+                          templateId: isActive ? null : template.id,
+                        })
+                      }
+                      activeOpacity={0.8}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          isActive && styles.chipTextActive,
+                        ]}
+                      >
+                        {template.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity onPress={handleSaveDraft} activeOpacity={0.8}>
+              <Text style={styles.actionText}>💾 Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setDraft(null)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.actionText, styles.cancelText]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={handleNewRule}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.addButtonText}>➕ New Rule</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  cardDisabled: {
+    opacity: 0.6,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ruleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  ruleSummary: {
+    fontSize: 14,
+    color: '#495057',
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  cancelText: {
+    color: '#6c757d',
+  },
+  addButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 2,
+    borderColor: '#3498db',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: '#3498db',
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+});
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CallbackReminderSettings } from '../hooks/types';
+import {
+  DEFAULT_CALLBACK_REMINDER_SETTINGS,
+  REMINDER_DELAY_OPTIONS,
+  loadCallbackReminderSettings,
+  saveCallbackReminderSettings,
+} from '../utils/CallbackReminders';
+
+function formatDelay(minutes: number) {
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+/**
+ * Settings section for reminders to return missed and rejected calls. A
+ * reminder is cancelled as soon as an outgoing call to the number is seen.
+ */
+export function CallbackReminderSettingsPanel() {
+  const [settings, setSettings] = useState<CallbackReminderSettings>(
+    DEFAULT_CALLBACK_REMINDER_SETTINGS,
+  );
+
+  useEffect(() => {
+    loadCallbackReminderSettings().then(setSettings);
+  }, []);
+
+  const updateSettings = useCallback(
+    (changes: Partial<CallbackReminderSettings>) => {
+      setSettings(prev => {
+        const next = { ...prev, ...changes };
+        saveCallbackReminderSettings(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Call-back Reminders</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Remind me after</Text>
+        <View style={styles.chipRow}>
+          {REMINDER_DELAY_OPTIONS.map(minutes => {
+            const isActive = settings.delayMinutes === minutes;
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => updateSettings({ delayMinutes: minutes })}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[styles.chipText, isActive && styles.chipTextActive]}
+                >
+                  {formatDelay(minutes)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.toggleRow}>
+          <Text style={styles.label}>
+            Automatically for every missed or rejected call
+          </Text>
+          <TouchableOpacity
+            style={[styles.chip, settings.autoRemind && styles.chipActive]}
+            onPress={() => updateSettings({ autoRemind: !settings.autoRemind })}
+            activeOpacity={0.8}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                settings.autoRemind && styles.chipTextActive,
+              ]}
+            >
+              {settings.autoRemind ? 'On' : 'Off'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.hint}>
+          Use "⏰ Later" → "📞 Remind me to call back" on a call notification to
+          set a reminder by hand.
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+    flexShrink: 1,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+});
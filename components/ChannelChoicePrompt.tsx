@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useContactChannels } from '../hooks/useContactChannels';
+import { usePendingChannelChoices } from '../hooks/usePendingChannelChoices';
+import { ContactChannelPicker } from './ContactChannelPicker';
+import { EMPTY_CONTACT_CHANNEL } from '../utils/ContactChannels';
+import { buildMessageForCall } from '../utils/MessageTemplates';
+import { sendMessage } from '../utils/MessagingChannels';
+import { displayCallNotesNotification } from '../utils/Notification';
+import { clearPendingChannelChoice } from '../utils/PendingChannelChoices';
+import { getPhoneNumberKey } from '../utils/PhoneNumber';
+
+/**
+ * Card shown after "More…" on the channel options notification, offering
+ * every available channel for the call. The choice is remembered for the
+ * contact, like a choice made on the notification.
+ */
+export function ChannelChoicePrompt() {
+  const choices = usePendingChannelChoices();
+  const { channels, availableChannels, updateChannel } = useContactChannels();
+  const [isSending, setIsSending] = useState(false);
+
+  const [pending] = Object.entries(choices);
+  if (!pending) {
+    return null;
+  }
+  const [notificationId, call] = pending;
+  const preference =
+    channels[getPhoneNumberKey(call.number)] ?? EMPTY_CONTACT_CHANNEL;
+  const canSend =
+    preference.channel !== null &&
+    (preference.channel !== 'email' || preference.email.includes('@'));
+
+  const handleSend = async () => {
+    if (!preference.channel) return;
+    setIsSending(true);
+    try {
+      await sendMessage(
+        call,
+        await buildMessageForCall(call),
+        preference.channel,
+      );
+      await clearPendingChannelChoice(notificationId);
+      await displayCallNotesNotification(call);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>💬 How should we message {call.number}?</Text>
+      <ContactChannelPicker
+        preference={preference}
+        availableChannels={availableChannels}
+        onChange={changes => updateChannel(call.number, changes)}
+      />
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[
+            styles.button,
+            styles.sendButton,
+            !canSend && styles.buttonDisabled,
+          ]}
+          onPress={handleSend}
+          disabled={!canSend || isSending}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>
+            {isSending ? 'Sending…' : 'Send'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.dismissButton]}
+          onPress={() => clearPendingChannelChoice(notificationId)}
+          disabled={isSending}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#3498db',
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  sendButton: {
+    backgroundColor: '#27ae60',
+  },
+  dismissButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
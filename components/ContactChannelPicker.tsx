@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { ContactChannel, MessagingChannelId } from '../hooks/types';
+import { EMPTY_CONTACT_CHANNEL } from '../utils/ContactChannels';
+import { getMessagingProvider } from '../utils/MessagingChannels';
+
+type ContactChannelPickerProps = {
+  preference: ContactChannel | undefined;
+  availableChannels: MessagingChannelId[];
+  onChange: (changes: Partial<ContactChannel>) => void;
+};
+
+/**
+ * Chips for choosing how a contact is messaged. "Ask" leaves the choice to
+ * the notification; the email address is only asked for when email is
+ * chosen.
+ */
+export function ContactChannelPicker({
+  preference = EMPTY_CONTACT_CHANNEL,
+  availableChannels,
+  onChange,
+}: ContactChannelPickerProps) {
+  const [emailInput, setEmailInput] = useState<string | null>(null);
+
+  const options: (MessagingChannelId | null)[] = [null, ...availableChannels];
+  if (preference.channel && !availableChannels.includes(preference.channel)) {
+    options.push(preference.channel);
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Send via</Text>
+      <View style={styles.chipRow}>
+        {options.map(channel => {
+          const isActive = preference.channel === channel;
+          return (
+            <TouchableOpacity
+              key={channel ?? '__ask__'}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => onChange({ channel })}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[styles.chipText, isActive && styles.chipTextActive]}
+              >
+                {channel
+                  ? getMessagingProvider(channel)?.label ?? channel
+                  : 'Ask'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {preference.channel === 'email' && (
+        <TextInput
+          style={styles.input}
+          value={emailInput ?? preference.email}
+          onChangeText={setEmailInput}
+          onEndEditing={() => {
+            if (emailInput !== null) {
+              onChange({ email: emailInput.trim() });
+              setEmailInput(null);
+            }
+          }}
+          placeholder="Email address"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+});
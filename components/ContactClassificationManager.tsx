@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useContactClassifications } from '../hooks/useContactClassifications';
+import { useContactChannels } from '../hooks/useContactChannels';
+import { ContactChannelPicker } from './ContactChannelPicker';
+import { ClientStatus } from '../hooks/types';
+import {
+  getDefaultCountryCode,
+  loadDefaultCountryCode,
+  saveDefaultCountryCode,
+} from '../utils/PhoneNumber';
+
+const STATUS_OPTIONS: { status: ClientStatus; label: string }[] = [
+  { status: 'client', label: '✅ Client' },
+  { status: 'not_client', label: '❌ Not client' },
+  { status: 'undecided', label: '❔ Undecided' },
+];
+
+/**
+ * Settings section listing every number that has been marked as a client or
+ * non-client. Known non-clients are never prompted again, so this is where
+ * a wrong choice can be undone.
+ */
+export function ContactClassificationManager() {
+  const { classifications, isLoading, setClassification } =
+    useContactClassifications();
+  const { channels, availableChannels, updateChannel } = useContactChannels();
+  const [numberInput, setNumberInput] = useState('');
+  const [countryCodeInput, setCountryCodeInput] = useState(
+    getDefaultCountryCode(),
+  );
+
+  useEffect(() => {
+    loadDefaultCountryCode().then(setCountryCodeInput);
+  }, []);
+
+  const handleSaveCountryCode = useCallback(async () => {
+    const saved = await saveDefaultCountryCode(countryCodeInput);
+    if (!saved) {
+      Alert.alert(
+        'Invalid Country Code',
+        'Enter a country calling code of 1 to 3 digits, e.g. 91 or 1.',
+      );
+      setCountryCodeInput(getDefaultCountryCode());
+    }
+  }, [countryCodeInput]);
+
+  const entries = useMemo(
+    () =>
+      Object.entries(classifications).sort(([a], [b]) => a.localeCompare(b)),
+    [classifications],
+  );
+
+  const handleAddNonClient = useCallback(() => {
+    const number = numberInput.trim();
+    if (!number) return;
+    setClassification(number, 'not_client');
+    setNumberInput('');
+  }, [numberInput, setClassification]);
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Contacts</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Default country code</Text>
+        <View style={styles.inputRow}>
+          <Text style={styles.countryCodePrefix}>+</Text>
+          <TextInput
+            style={styles.input}
+            value={countryCodeInput}
+            onChangeText={setCountryCodeInput}
+            onEndEditing={handleSaveCountryCode}
+            placeholder="91"
+            keyboardType="number-pad"
+            maxLength={3}
+          />
+        </View>
+        <Text style={styles.hint}>
+          Used for numbers in the call log that have no international prefix.
+        </Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Never prompt for this number</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={numberInput}
+            onChangeText={setNumberInput}
+            placeholder="Phone number"
+            keyboardType="phone-pad"
+          />
+          <TouchableOpacity onPress={handleAddNonClient} activeOpacity={0.8}>
+            <Text style={styles.actionText}>➕ Add</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {entries.length > 0 ? (
+        entries.map(([number, status]) => (
+          <View key={number} style={styles.card}>
+            <Text style={styles.number}>{number}</Text>
+            <View style={styles.chipRow}>
+              {STATUS_OPTIONS.map(option => {
+                const isActive = option.status === status;
+                return (
+                  <TouchableOpacity
+                    key={option.status}
+                    style={[styles.chip, isActive && styles.chipActive]}
+                    onPress={() => setClassification(number, option.status)}
+                    activeOpacity={0.8}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isActive && styles.chipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {status === 'client' && (
+              <ContactChannelPicker
+                preference={channels[number]}
+                availableChannels={availableChannels}
+                onChange={changes => updateChannel(number, changes)}
+              />
+            )}
+          </View>
+        ))
+      ) : (
+        <Text style={styles.emptyText}>
+          Numbers you answer "Yes" or "No" for will appear here.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  countryCodePrefix: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  number: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    fontFamily: 'monospace',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6c757d',
+    textAlign: 'center',
+  },
+});
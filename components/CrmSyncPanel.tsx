@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useCrmSync } from '../hooks/useCrmSync';
+import { CrmSyncStatus, CrmWebhookConfig } from '../hooks/types';
+import {
+  CRM_PLACEHOLDERS,
+  DEFAULT_CRM_WEBHOOK_CONFIG,
+  formatHeaderLines,
+  loadCrmWebhookConfig,
+  parseHeaderLines,
+  saveCrmWebhookConfig,
+  validateCrmWebhookConfig,
+} from '../utils/CrmSync';
+
+export const CRM_SYNC_STATUS_LABELS: Record<CrmSyncStatus, string> = {
+  pending: '⏳ CRM sync pending',
+  synced: '☁️ Synced to CRM',
+  failed: '⚠️ CRM sync failed',
+};
+
+type Draft = Omit<CrmWebhookConfig, 'headers'> & { headerLines: string };
+
+function toDraft(config: CrmWebhookConfig): Draft {
+  const { headers, ...rest } = config;
+  return { ...rest, headerLines: formatHeaderLines(headers) };
+}
+
+/**
+ * Settings section for the CRM webhook that receives confirmed client calls
+ * and sent messages, with the state of the sync queue and a way to retry
+ * what failed.
+ */
+export function CrmSyncPanel() {
+  const { jobs, retryFailed } = useCrmSync();
+  const [draft, setDraft] = useState<Draft>(() =>
+    toDraft(DEFAULT_CRM_WEBHOOK_CONFIG),
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(true);
+
+  useEffect(() => {
+    loadCrmWebhookConfig().then(config => setDraft(toDraft(config)));
+  }, []);
+
+  const counts = useMemo(
+    () =>
+      jobs.reduce<Record<CrmSyncStatus, number>>(
+        (totals, job) => ({ ...totals, [job.status]: totals[job.status] + 1 }),
+        { pending: 0, synced: 0, failed: 0 },
+      ),
+    [jobs],
+  );
+  const lastFailure = jobs.find(job => job.status === 'failed');
+
+  const updateDraft = useCallback((changes: Partial<Draft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    const { headerLines, ...rest } = draft;
+    const config: CrmWebhookConfig = {
+      ...rest,
+      url: rest.url.trim(),
+      headers: parseHeaderLines(headerLines),
+    };
+    const problem = validateCrmWebhookConfig(config);
+    setError(problem);
+    if (problem) {
+      return;
+    }
+    await saveCrmWebhookConfig(config);
+    setDraft(toDraft(config));
+    setIsSaved(true);
+  }, [draft]);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>CRM Sync</Text>
+
+      <View style={styles.card}>
+        <View style={styles.header}>
+          <Text style={styles.label}>Send to a webhook</Text>
+          <TouchableOpacity
+            style={[styles.chip, draft.enabled && styles.chipActive]}
+            onPress={() => updateDraft({ enabled: !draft.enabled })}
+            activeOpacity={0.8}
+          >
+            <Text
+              style={[styles.chipText, draft.enabled && styles.chipTextActive]}
+            >
+              {draft.enabled ? 'On' : 'Off'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <TextInput
+          style={styles.input}
+          value={draft.url}
+          onChangeText={url => updateDraft({ url })}
+          placeholder="https://example.com/webhook"
+          autoCapitalize="none"
+          keyboardType="url"
+        />
+        <Text style={styles.label}>Headers, one per line</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput, styles.code]}
+          value={draft.headerLines}
+          onChangeText={headerLines => updateDraft({ headerLines })}
+          placeholder="Authorization: Bearer …"
+          autoCapitalize="none"
+          multiline
+        />
+        <Text style={styles.label}>JSON body</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput, styles.code]}
+          value={draft.bodyTemplate}
+          onChangeText={bodyTemplate => updateDraft({ bodyTemplate })}
+          autoCapitalize="none"
+          multiline
+        />
+        <Text style={styles.hint}>
+          Placeholders are filled in as JSON values:{' '}
+          {CRM_PLACEHOLDERS.join(' ')}
+        </Text>
+        {error && <Text style={styles.error}>{error}</Text>}
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={isSaved}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.actionText, isSaved && styles.disabledText]}>
+              {isSaved ? 'Saved' : '💾 Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {jobs.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.label}>
+            {counts.synced} synced · {counts.pending} pending · {counts.failed}{' '}
+            failed
+          </Text>
+          {lastFailure?.lastError && (
+            <Text style={styles.error}>
+              Last failure: {lastFailure.lastError}
+            </Text>
+          )}
+          {counts.failed > 0 && (
+            <View style={styles.actionRow}>
+              <TouchableOpacity onPress={retryFailed} activeOpacity={0.8}>
+                <Text style={styles.actionText}>🔁 Retry failed</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  error: {
+    fontSize: 12,
+    color: '#e74c3c',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  code: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  disabledText: {
+    color: '#6c757d',
+  },
+});
@@ -0,0 +1,254 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { CsvColumnMapping, ImportField, ImportReport } from '../hooks/types';
+import {
+  IMPORT_FIELDS,
+  applyImport,
+  detectColumnMapping,
+  isJsonImport,
+  parseCsv,
+  readCsvImport,
+  readJsonImport,
+} from '../utils/CallHistoryImport';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  number: 'Number',
+  type: 'Call type',
+  duration: 'Duration',
+  timestamp: 'Date / time',
+  clientStatus: 'Client status',
+};
+
+/**
+ * Settings section for importing call history and client decisions, either
+ * from the app's own JSON export or from a generic CSV with a column mapping.
+ */
+export function ImportPanel() {
+  const [importText, setImportText] = useState('');
+  const [mappingOverrides, setMappingOverrides] = useState<
+    Partial<CsvColumnMapping>
+  >({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const isJson = useMemo(() => isJsonImport(importText), [importText]);
+
+  const csvHeaders = useMemo(
+    () => (importText.trim() && !isJson ? parseCsv(importText)[0] ?? [] : []),
+    [importText, isJson],
+  );
+
+  const mapping = useMemo(
+    () => ({ ...detectColumnMapping(csvHeaders), ...mappingOverrides }),
+    [csvHeaders, mappingOverrides],
+  );
+
+  const handleChangeText = useCallback((text: string) => {
+    setImportText(text);
+    setMappingOverrides({});
+    setReport(null);
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!importText.trim()) return;
+    if (!isJson && !mapping.number) {
+      Alert.alert('Missing Column', 'Choose which column holds the number.');
+      return;
+    }
+    setIsImporting(true);
+    try {
+      const candidates = isJson
+        ? readJsonImport(importText)
+        : readCsvImport(importText, mapping);
+      setReport(await applyImport(candidates));
+      setImportText('');
+    } catch (error) {
+      console.error('Error importing call history:', error);
+      Alert.alert('Import Failed', 'The pasted data could not be read.');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importText, isJson, mapping]);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Import</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>
+          Paste a JSON export from this app, or a CSV with a header row
+        </Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={importText}
+          onChangeText={handleChangeText}
+          placeholder="number,type,duration,timestamp"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        {csvHeaders.length > 0 &&
+          IMPORT_FIELDS.map(field => (
+            <View key={field} style={styles.mappingRow}>
+              <Text style={styles.mappingLabel}>{FIELD_LABELS[field]}</Text>
+              <View style={styles.chipRow}>
+                {[null, ...csvHeaders].map(header => {
+                  const isActive = mapping[field] === header;
+                  return (
+                    <TouchableOpacity
+                      key={header ?? '__none__'}
+                      style={[styles.chip, isActive && styles.chipActive]}
+                      onPress={() =>
+                        setMappingOverrides(prev => ({
+                          ...prev,
+                          [field]: header,
+                        }))
+                      }
+                      activeOpacity={0.8}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          isActive && styles.chipTextActive,
+                        ]}
+                      >
+                        {header ?? '—'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+
+        <TouchableOpacity
+          onPress={handleImport}
+          disabled={isImporting || !importText.trim()}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.actionText}>
+            {isImporting ? 'Importing...' : '📥 Import'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {report && (
+        <View style={styles.card}>
+          <Text style={styles.reportTitle}>Import summary</Text>
+          <Text style={styles.reportLine}>✅ {report.added} calls added</Text>
+          <Text style={styles.reportLine}>
+            ↩️ {report.duplicates} skipped as duplicates
+          </Text>
+          <Text style={styles.reportLine}>
+            ⚠️ {report.malformed} rows rejected as malformed
+          </Text>
+          <Text style={styles.reportLine}>
+            👤 {report.contactsAdded} client decisions added
+            {report.contactConflicts > 0
+              ? `, ${report.contactConflicts} kept as already decided`
+              : ''}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 12,
+    color: '#2c3e50',
+    fontFamily: 'monospace',
+  },
+  multilineInput: {
+    minHeight: 100,
+    maxHeight: 200,
+    textAlignVertical: 'top',
+  },
+  mappingRow: {
+    gap: 4,
+  },
+  mappingLabel: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+    textAlign: 'right',
+  },
+  reportTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  reportLine: {
+    fontSize: 14,
+    color: '#495057',
+  },
+});
@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useLeadPipeline } from '../hooks/useLeadPipeline';
+import { useContactClassifications } from '../hooks/useContactClassifications';
+import { AnalyzedCall, LeadStage } from '../hooks/types';
+import { LEAD_STAGES, summarizeLeadPipeline } from '../utils/LeadPipeline';
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new_lead: '🆕 New lead',
+  contacted: '💬 Contacted',
+  quoted: '📄 Quoted',
+  won: '🏆 Won',
+  lost: '✖️ Lost',
+};
+
+type LeadPipelinePanelProps = {
+  /** The call history, newest first. */
+  calls: AnalyzedCall[];
+};
+
+/**
+ * Section counting the clients in the call history per pipeline stage.
+ * Choosing a stage lists its contacts, whose stage can be changed by hand.
+ */
+export function LeadPipelinePanel({ calls }: LeadPipelinePanelProps) {
+  const { pipeline, isLoading, setStage } = useLeadPipeline();
+  const { classifications, isLoading: isLoadingClassifications } =
+    useContactClassifications();
+  const [selectedStage, setSelectedStage] = useState<LeadStage | null>(null);
+  // The contact whose stage is being changed, by the number it is listed under.
+  const [editingNumber, setEditingNumber] = useState<string | null>(null);
+
+  const { contacts, counts } = useMemo(
+    () => summarizeLeadPipeline(calls, pipeline, classifications),
+    [calls, pipeline, classifications],
+  );
+
+  const listedContacts = useMemo(
+    () => contacts.filter(contact => contact.stage === selectedStage),
+    [contacts, selectedStage],
+  );
+
+  if (isLoading || isLoadingClassifications || contacts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Pipeline</Text>
+
+      <View style={styles.stageRow}>
+        {LEAD_STAGES.map(stage => {
+          const isActive = selectedStage === stage;
+          return (
+            <TouchableOpacity
+              key={stage}
+              style={[styles.stageCard, isActive && styles.stageCardActive]}
+              onPress={() => setSelectedStage(isActive ? null : stage)}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[styles.stageCount, isActive && styles.stageTextActive]}
+              >
+                {counts[stage]}
+              </Text>
+              <Text
+                style={[styles.stageLabel, isActive && styles.stageTextActive]}
+              >
+                {LEAD_STAGE_LABELS[stage]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {selectedStage &&
+        (listedContacts.length > 0 ? (
+          listedContacts.map(contact => {
+            const isEditing = editingNumber === contact.number;
+            return (
+              <View key={contact.number} style={styles.card}>
+                <View style={styles.header}>
+                  <Text style={styles.number}>{contact.number}</Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      setEditingNumber(isEditing ? null : contact.number)
+                    }
+                    activeOpacity={0.8}
+                  >
+                    <Text style={styles.actionText}>
+                      {isEditing ? 'Done' : 'Change'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={styles.hint}>
+                  {contact.callCount}{' '}
+                  {contact.callCount === 1 ? 'call' : 'calls'} · last{' '}
+                  {new Date(contact.lastCallAt).toLocaleString()}
+                </Text>
+                {isEditing && (
+                  <View style={styles.chipRow}>
+                    {LEAD_STAGES.map(stage => {
+                      const isActive = contact.stage === stage;
+                      return (
+                        <TouchableOpacity
+                          key={stage}
+                          style={[styles.chip, isActive && styles.chipActive]}
+                          onPress={() => setStage(contact.number, stage)}
+                          activeOpacity={0.8}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              isActive && styles.chipTextActive,
+                            ]}
+                          >
+                            {LEAD_STAGE_LABELS[stage]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        ) : (
+          <Text style={styles.emptyText}>No contacts in this stage.</Text>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  stageRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  stageCard: {
+    flexGrow: 1,
+    minWidth: 90,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    gap: 4,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  stageCardActive: {
+    backgroundColor: '#3498db',
+  },
+  stageCount: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#2c3e50',
+  },
+  stageLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6c757d',
+  },
+  stageTextActive: {
+    color: '#ffffff',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  number: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    fontFamily: 'monospace',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6c757d',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AnalyzedCall } from '../hooks/types';
+
+// Listing every call would push the rest of the screen down; the count says how many there are.
+const MAX_LISTED_CALLS = 5;
+
+type MissedCallsReviewProps = {
+  calls: AnalyzedCall[];
+  /** Runs the calls through the usual prompts, oldest first. */
+  onReview: () => Promise<void>;
+  onDismiss: () => void;
+};
+
+/**
+ * Card shown on start-up when calls were made while monitoring was off,
+ * offering to handle them as if they had just been detected.
+ */
+export function MissedCallsReview({
+  calls,
+  onReview,
+  onDismiss,
+}: MissedCallsReviewProps) {
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  if (calls.length === 0) {
+    return null;
+  }
+
+  const handleReview = async () => {
+    setIsReviewing(true);
+    try {
+      await onReview();
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>
+        📥 {calls.length} {calls.length === 1 ? 'call' : 'calls'} while
+        monitoring was off
+      </Text>
+      {calls.slice(-MAX_LISTED_CALLS).map(call => (
+        <Text key={`${call.timestamp}-${call.number}`} style={styles.callText}>
+          {call.type} · {call.number} ·{' '}
+          {new Date(call.timestamp).toLocaleString()}
+        </Text>
+      ))}
+      {calls.length > MAX_LISTED_CALLS && (
+        <Text style={styles.hint}>
+          and {calls.length - MAX_LISTED_CALLS} earlier
+        </Text>
+      )}
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.reviewButton]}
+          onPress={handleReview}
+          disabled={isReviewing}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>
+            {isReviewing ? 'Reviewing…' : 'Review'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.dismissButton]}
+          onPress={onDismiss}
+          disabled={isReviewing}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.buttonText}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f39c12',
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  callText: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  reviewButton: {
+    backgroundColor: '#3498db',
+  },
+  dismissButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,243 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useMonitoringOptions } from '../hooks/useMonitoringOptions';
+import { CallType } from '../hooks/types';
+import { BatteryMode } from '../CallLogModule';
+import { CALL_TYPES } from '../utils/CallLogAnalyzer';
+
+const POLL_INTERVAL_OPTIONS_MS = [5000, 15000, 30000, 60000];
+
+const BATTERY_MODE_OPTIONS: { mode: BatteryMode; label: string }[] = [
+  { mode: 'standard', label: 'Standard' },
+  { mode: 'adaptive', label: '🔋 Slow down in battery saver' },
+];
+
+type NotificationField = 'notificationTitle' | 'notificationText';
+
+/**
+ * Settings section for the native monitoring service: how often it polls
+ * the call log, how it behaves in battery saver, which call types it
+ * forwards and the text of its ongoing notification.
+ */
+export function MonitoringSettingsPanel() {
+  const { options, isLoading, updateOptions } = useMonitoringOptions();
+  const [textInputs, setTextInputs] = useState<
+    Partial<Record<NotificationField, string>>
+  >({});
+
+  const toggleCallType = useCallback(
+    (callType: CallType) => {
+      updateOptions({
+        callTypes: options.callTypes.includes(callType)
+          ? options.callTypes.filter(t => t !== callType)
+          : [...options.callTypes, callType],
+      });
+    },
+    [options.callTypes, updateOptions],
+  );
+
+  const handleTextEndEditing = useCallback(
+    (field: NotificationField) => {
+      const value = textInputs[field];
+      if (value === undefined) return;
+      updateOptions({ [field]: value.trim() });
+      setTextInputs(prev => {
+        const next = { ...prev };
+        delete next[field];
+        return next;
+      });
+    },
+    [textInputs, updateOptions],
+  );
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Monitoring</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Check the call log every</Text>
+        <View style={styles.chipRow}>
+          {POLL_INTERVAL_OPTIONS_MS.map(interval => {
+            const isActive = options.pollIntervalMs === interval;
+            return (
+              <TouchableOpacity
+                key={interval}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => updateOptions({ pollIntervalMs: interval })}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[styles.chipText, isActive && styles.chipTextActive]}
+                >
+                  {interval / 1000} s
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <View style={styles.chipRow}>
+          {BATTERY_MODE_OPTIONS.map(option => {
+            const isActive = options.batteryMode === option.mode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => updateOptions({ batteryMode: option.mode })}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[styles.chipText, isActive && styles.chipTextActive]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {options.batteryMode === 'adaptive' && (
+          <Text style={styles.hint}>
+            While battery saver is on, the call log is checked at most once a
+            minute.
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Forward these calls</Text>
+        <View style={styles.chipRow}>
+          {CALL_TYPES.map(callType => {
+            const isActive = options.callTypes.includes(callType);
+            return (
+              <TouchableOpacity
+                key={callType}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => toggleCallType(callType)}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[styles.chipText, isActive && styles.chipTextActive]}
+                >
+                  {callType}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.hint}>
+          {options.callTypes.length === 0
+            ? 'Every call is forwarded.'
+            : 'Other calls are ignored by the service.'}
+        </Text>
+        {options.callTypes.length > 0 &&
+          !options.callTypes.includes('outgoing') && (
+            <Text style={styles.warning}>
+              ⚠️ Without outgoing calls, calling a customer back does not cancel
+              their call-back reminder.
+            </Text>
+          )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Monitoring notification</Text>
+        <TextInput
+          style={styles.input}
+          value={textInputs.notificationTitle ?? options.notificationTitle}
+          onChangeText={value =>
+            setTextInputs(prev => ({ ...prev, notificationTitle: value }))
+          }
+          onEndEditing={() => handleTextEndEditing('notificationTitle')}
+          placeholder="Title"
+        />
+        <TextInput
+          style={styles.input}
+          value={textInputs.notificationText ?? options.notificationText}
+          onChangeText={value =>
+            setTextInputs(prev => ({ ...prev, notificationText: value }))
+          }
+          onEndEditing={() => handleTextEndEditing('notificationText')}
+          placeholder="Text"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  warning: {
+    fontSize: 12,
+    color: '#e67e22',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+});
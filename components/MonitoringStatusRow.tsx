@@ -0,0 +1,141 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useMonitoringStatus } from '../hooks/useMonitoringStatus';
+import { MonitoringHealth } from '../utils/MonitoringHealth';
+
+export const MONITORING_HEALTH_DISPLAY: Record<
+  MonitoringHealth,
+  { label: string; color: string }
+> = {
+  stopped: { label: 'Inactive', color: '#e74c3c' },
+  starting: { label: 'Starting…', color: '#f39c12' },
+  active: { label: 'Active', color: '#27ae60' },
+  stalled: { label: 'Not responding', color: '#f39c12' },
+  error: { label: 'Error', color: '#e74c3c' },
+};
+
+type MonitoringStatusRowProps = {
+  /** Whether the app asked for monitoring, so a stopped service is unexpected. */
+  isMonitoringRequested: boolean;
+  onRestart: () => void;
+  /** Called when the health changes, e.g. to color the rest of the card. */
+  onHealthChange?: (health: MonitoringHealth) => void;
+};
+
+/**
+ * Status card row showing what the monitoring service is actually doing:
+ * when it last read the call log, how many calls it forwarded and the last
+ * error it ran into. Offers a restart when the service stopped on its own.
+ * The row follows the service's heartbeat itself, so a poll only re-renders
+ * this row rather than the whole screen.
+ */
+export function MonitoringStatusRow({
+  isMonitoringRequested,
+  onRestart,
+  onHealthChange,
+}: MonitoringStatusRowProps) {
+  const { status, health } = useMonitoringStatus();
+
+  useEffect(() => {
+    onHealthChange?.(health);
+  }, [health, onHealthChange]);
+
+  const { label, color } = MONITORING_HEALTH_DISPLAY[health];
+  const isUnexpected =
+    isMonitoringRequested && (health === 'stopped' || health === 'stalled');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>Monitoring</Text>
+        <View style={styles.badge}>
+          <View style={[styles.dot, { backgroundColor: color }]} />
+          <Text style={[styles.badgeText, { color }]}>{label}</Text>
+        </View>
+      </View>
+
+      {status?.isRunning && (
+        <Text style={styles.detail}>
+          Last check:{' '}
+          {status.lastPollAt !== null
+            ? new Date(status.lastPollAt).toLocaleTimeString()
+            : 'not yet'}{' '}
+          · {status.callsEmitted} {status.callsEmitted === 1 ? 'call' : 'calls'}{' '}
+          forwarded
+        </Text>
+      )}
+
+      {health === 'error' && status?.lastError && (
+        <Text style={styles.error}>⚠️ {status.lastError}</Text>
+      )}
+
+      {isUnexpected && (
+        <View style={styles.row}>
+          <Text style={styles.detail}>
+            {health === 'stopped'
+              ? 'The service was stopped by the system.'
+              : 'The service stopped checking the call log.'}
+          </Text>
+          <TouchableOpacity
+            style={styles.restartButton}
+            onPress={() => onRestart()}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.restartButtonText}>Restart</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  badgeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  detail: {
+    flex: 1,
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  error: {
+    fontSize: 12,
+    color: '#e74c3c',
+  },
+  restartButton: {
+    backgroundColor: '#3498db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  restartButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useOutbox } from '../hooks/useOutbox';
+import { OutboxOutcome } from '../hooks/types';
+import { groupOutboxByContact } from '../utils/Outbox';
+import { getMessagingProvider } from '../utils/MessagingChannels';
+
+const OUTCOME_LABELS: Record<OutboxOutcome, string> = {
+  opened: '✅ Opened',
+  fallback_web: '🌐 Web link',
+  failed: '⚠️ Failed',
+};
+
+/**
+ * Section listing the messages sent to each contact, newest contact first,
+ * so it is easy to check whether a customer was already messaged.
+ */
+export function OutboxPanel() {
+  const { entries, isLoading } = useOutbox();
+  const [searchInput, setSearchInput] = useState('');
+  const [expandedNumber, setExpandedNumber] = useState<string | null>(null);
+
+  const contacts = useMemo(() => {
+    const digits = searchInput.replace(/\D/g, '');
+    // Entries are newest first, so contacts keep the order of their latest message.
+    return Object.entries(groupOutboxByContact(entries)).filter(
+      ([number]) => !digits || number.replace(/\D/g, '').includes(digits),
+    );
+  }, [entries, searchInput]);
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Outbox</Text>
+
+      {entries.length > 0 && (
+        <TextInput
+          style={styles.input}
+          value={searchInput}
+          onChangeText={setSearchInput}
+          placeholder="Search by number"
+          keyboardType="phone-pad"
+        />
+      )}
+
+      {contacts.length > 0 ? (
+        contacts.map(([number, contactEntries]) => {
+          const isExpanded = expandedNumber === number;
+          const [latest] = contactEntries;
+          return (
+            <View key={number} style={styles.card}>
+              <TouchableOpacity
+                style={styles.header}
+                onPress={() => setExpandedNumber(isExpanded ? null : number)}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.number}>{number}</Text>
+                <Text style={styles.count}>
+                  {contactEntries.length}{' '}
+                  {contactEntries.length === 1 ? 'message' : 'messages'}{' '}
+                  {isExpanded ? '▲' : '▼'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.hint}>
+                Last: {new Date(latest.timestamp).toLocaleString()} ·{' '}
+                {OUTCOME_LABELS[latest.outcome]}
+              </Text>
+
+              {isExpanded &&
+                contactEntries.map(entry => (
+                  <View key={entry.id} style={styles.entry}>
+                    <View style={styles.header}>
+                      <Text style={styles.channel}>
+                        {getMessagingProvider(entry.channel)?.label ??
+                          entry.channel}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.outcome,
+                          entry.outcome === 'failed' && styles.outcomeFailed,
+                        ]}
+                      >
+                        {OUTCOME_LABELS[entry.outcome]}
+                      </Text>
+                    </View>
+                    <Text style={styles.hint}>
+                      {new Date(entry.timestamp).toLocaleString()} · after{' '}
+                      {entry.call.type} call
+                    </Text>
+                    <Text style={styles.message} numberOfLines={3}>
+                      {entry.message}
+                    </Text>
+                    {entry.error && (
+                      <Text style={styles.error}>{entry.error}</Text>
+                    )}
+                  </View>
+                ))}
+            </View>
+          );
+        })
+      ) : (
+        <Text style={styles.emptyText}>
+          {entries.length > 0
+            ? 'No messages to this number.'
+            : 'Messages you send after calls will appear here.'}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  number: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    fontFamily: 'monospace',
+  },
+  count: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  entry: {
+    borderTopWidth: 1,
+    borderTopColor: '#dee2e6',
+    paddingTop: 8,
+    gap: 4,
+  },
+  channel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  outcome: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#27ae60',
+  },
+  outcomeFailed: {
+    color: '#e74c3c',
+  },
+  message: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  error: {
+    fontSize: 12,
+    color: '#e74c3c',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6c757d',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,360 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AnalyzedCall, CallType } from '../hooks/types';
+import { StatisticsPeriod, buildCallStatistics } from '../utils/CallStatistics';
+import { CALL_TYPES } from '../utils/CallLogAnalyzer';
+import { formatDuration } from '../utils/MessageTemplates';
+
+const TYPE_COLORS: Record<CallType, string> = {
+  incoming: '#27ae60',
+  outgoing: '#3498db',
+  missed: '#e74c3c',
+  rejected: '#f39c12',
+  unknown: '#6c757d',
+};
+
+const PERIODS_SHOWN = 7;
+
+type StatisticsDashboardProps = {
+  calls: AnalyzedCall[];
+};
+
+function formatPeriodLabel(periodStart: number, period: StatisticsPeriod) {
+  const date = new Date(periodStart);
+  const label = date.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+  return period === 'week' ? `Wk ${label}` : label;
+}
+
+function formatHour(hour: number) {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * Collapsible statistics section built from the call history: call volume
+ * per day or week by type, missed-call rate, talk time, busiest hours and
+ * top repeat numbers.
+ */
+export function StatisticsDashboard({ calls }: StatisticsDashboardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [period, setPeriod] = useState<StatisticsPeriod>('day');
+
+  const statistics = useMemo(
+    () => (isExpanded ? buildCallStatistics(calls) : null),
+    [calls, isExpanded],
+  );
+
+  const periods = useMemo(() => {
+    if (!statistics) return [];
+    const all = period === 'day' ? statistics.perDay : statistics.perWeek;
+    return all.slice(-PERIODS_SHOWN);
+  }, [statistics, period]);
+
+  const maxPeriodTotal = Math.max(1, ...periods.map(entry => entry.total));
+
+  return (
+    <View style={styles.section}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setIsExpanded(prev => !prev)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.sectionTitle}>Statistics</Text>
+        <Text style={styles.toggleText}>{isExpanded ? 'Hide' : 'Show'}</Text>
+      </TouchableOpacity>
+
+      {statistics && (
+        <>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>{statistics.totalCalls}</Text>
+              <Text style={styles.summaryLabel}>Calls</Text>
+            </View>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>
+                {Math.round(statistics.missedCallRate * 100)}%
+              </Text>
+              <Text style={styles.summaryLabel}>Missed</Text>
+            </View>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>
+                {formatDuration(statistics.talkTime.averageSeconds)}
+              </Text>
+              <Text style={styles.summaryLabel}>Avg. talk</Text>
+            </View>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>
+                {formatDuration(statistics.talkTime.totalSeconds)}
+              </Text>
+              <Text style={styles.summaryLabel}>Total talk</Text>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Calls per {period}</Text>
+              <View style={styles.chipRow}>
+                {(['day', 'week'] as StatisticsPeriod[]).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.chip,
+                      option === period && styles.chipActive,
+                    ]}
+                    onPress={() => setPeriod(option)}
+                    activeOpacity={0.8}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        option === period && styles.chipTextActive,
+                      ]}
+                    >
+                      {option}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {periods.length > 0 ? (
+              periods.map(entry => (
+                <View key={entry.periodStart} style={styles.barRow}>
+                  <Text style={styles.barLabel}>
+                    {formatPeriodLabel(entry.periodStart, period)}
+                  </Text>
+                  <View style={styles.barTrack}>
+                    {CALL_TYPES.map(type =>
+                      entry.byType[type] > 0 ? (
+                        <View
+                          key={type}
+                          style={[
+                            styles.barSegment,
+                            {
+                              flex: entry.byType[type],
+                              backgroundColor: TYPE_COLORS[type],
+                            },
+                          ]}
+                        />
+                      ) : null,
+                    )}
+                    <View style={{ flex: maxPeriodTotal - entry.total }} />
+                  </View>
+                  <Text style={styles.barValue}>{entry.total}</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>No calls recorded yet.</Text>
+            )}
+
+            <View style={styles.legendRow}>
+              {CALL_TYPES.map(type => (
+                <View key={type} style={styles.legendItem}>
+                  <View
+                    style={[
+                      styles.legendDot,
+                      { backgroundColor: TYPE_COLORS[type] },
+                    ]}
+                  />
+                  <Text style={styles.legendText}>{type}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Busiest hours</Text>
+            {statistics.busiestHours.length > 0 ? (
+              statistics.busiestHours.map(entry => (
+                <View key={entry.hour} style={styles.listRow}>
+                  <Text style={styles.listLabel}>{formatHour(entry.hour)}</Text>
+                  <Text style={styles.listValue}>{entry.count} calls</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>No calls recorded yet.</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Top repeat numbers</Text>
+            {statistics.topNumbers.length > 0 ? (
+              statistics.topNumbers.map(entry => (
+                <View key={entry.number} style={styles.listRow}>
+                  <Text style={[styles.listLabel, styles.numberText]}>
+                    {entry.number}
+                  </Text>
+                  <Text style={styles.listValue}>{entry.count} calls</Text>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>No repeat callers yet.</Text>
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2c3e50',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6c757d',
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  barLabel: {
+    width: 72,
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  barTrack: {
+    flex: 1,
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: '#f1f3f5',
+  },
+  barSegment: {
+    height: '100%',
+  },
+  barValue: {
+    width: 28,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2c3e50',
+    textAlign: 'right',
+  },
+  legendRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 4,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#6c757d',
+  },
+  listRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  listLabel: {
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  listValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6c757d',
+  },
+  numberText: {
+    fontFamily: 'monospace',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6c757d',
+  },
+});
@@ -0,0 +1,303 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useMessageTemplates } from '../hooks/useMessageTemplates';
+import { MessageTemplate } from '../hooks/types';
+import { TEMPLATE_PLACEHOLDERS } from '../utils/MessageTemplates';
+import { CALL_TYPES } from '../utils/CallLogAnalyzer';
+
+type TemplateDraft = MessageTemplate & { isNew: boolean };
+
+/**
+ * Settings section for creating, editing and deleting the message templates
+ * sent after a call, and for choosing the default template per call type.
+ */
+export function TemplateManager() {
+  const {
+    library,
+    isLoading,
+    saveTemplate,
+    removeTemplate,
+    setDefaultTemplate,
+    setBusinessName,
+  } = useMessageTemplates();
+
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [businessNameInput, setBusinessNameInput] = useState<string | null>(
+    null,
+  );
+
+  const handleNewTemplate = useCallback(() => {
+    setDraft({ id: `template_${Date.now()}`, name: '', body: '', isNew: true });
+  }, []);
+
+  const handleSaveDraft = useCallback(() => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.body.trim()) {
+      Alert.alert('Missing Fields', 'A template needs a name and a message.');
+      return;
+    }
+    saveTemplate({
+      id: draft.id,
+      name: draft.name.trim(),
+      body: draft.body.trim(),
+    });
+    setDraft(null);
+  }, [draft, saveTemplate]);
+
+  const handleDeleteTemplate = useCallback(
+    (template: MessageTemplate) => {
+      if (library.templates.length <= 1) {
+        Alert.alert('Cannot Delete', 'At least one template is required.');
+        return;
+      }
+      Alert.alert('Delete Template', `Delete "${template.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => removeTemplate(template.id),
+        },
+      ]);
+    },
+    [library.templates.length, removeTemplate],
+  );
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Message Templates</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Business name</Text>
+        <TextInput
+          style={styles.input}
+          value={businessNameInput ?? library.businessName}
+          onChangeText={setBusinessNameInput}
+          onEndEditing={() => {
+            if (businessNameInput !== null) {
+              setBusinessName(businessNameInput.trim());
+              setBusinessNameInput(null);
+            }
+          }}
+          placeholder="Your business name"
+        />
+        <Text style={styles.hint}>
+          Placeholders: {TEMPLATE_PLACEHOLDERS.join(' ')}
+        </Text>
+      </View>
+
+      {library.templates.map(template =>
+        draft && draft.id === template.id ? null : (
+          <View key={template.id} style={styles.card}>
+            <Text style={styles.templateName}>{template.name}</Text>
+            <Text style={styles.templateBody}>{template.body}</Text>
+
+            <Text style={styles.label}>Default for</Text>
+            <View style={styles.chipRow}>
+              {CALL_TYPES.map(callType => {
+                const isDefault = library.defaults[callType] === template.id;
+                return (
+                  <TouchableOpacity
+                    key={callType}
+                    style={[styles.chip, isDefault && styles.chipActive]}
+                    onPress={() => setDefaultTemplate(callType, template.id)}
+                    activeOpacity={0.8}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isDefault && styles.chipTextActive,
+                      ]}
+                    >
+                      {callType}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                onPress={() => setDraft({ ...template, isNew: false })}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.actionText}>✏️ Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDeleteTemplate(template)}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.actionText, styles.deleteText]}>
+                  🗑️ Delete
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ),
+      )}
+
+      {draft ? (
+        <View style={styles.card}>
+          <Text style={styles.label}>
+            {draft.isNew ? 'New template' : 'Edit template'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={draft.name}
+            onChangeText={name => setDraft({ ...draft, name })}
+            placeholder="Template name"
+          />
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={draft.body}
+            onChangeText={body => setDraft({ ...draft, body })}
+            placeholder="Message text"
+            multiline
+          />
+          <View style={styles.actionRow}>
+            <TouchableOpacity onPress={handleSaveDraft} activeOpacity={0.8}>
+              <Text style={styles.actionText}>💾 Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setDraft(null)}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.actionText, styles.cancelText]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={handleNewTemplate}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.addButtonText}>➕ New Template</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 20,
+    marginTop: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontFamily: 'monospace',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  templateName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  templateBody: {
+    fontSize: 14,
+    color: '#495057',
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#3498db',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3498db',
+  },
+  deleteText: {
+    color: '#e74c3c',
+  },
+  cancelText: {
+    color: '#6c757d',
+  },
+  addButton: {
+    backgroundColor: '#ffffff',
+    borderWidth: 2,
+    borderColor: '#3498db',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: '#3498db',
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+});
@@ -5,9 +5,253 @@ export type CallLogEntry = {
   timestamp: number;
 };
 
+/**
+ * `type` is the coarse call type most features key on. `direction` and
+ * `outcome` tell the cases apart that share a type; calls stored before they
+ * existed lack them, so read them with `getCallClassification`.
+ */
 export type AnalyzedCall = {
   type: 'incoming' | 'outgoing' | 'missed' | 'rejected' | 'unknown';
   number: string;
   duration: number;
   timestamp: number;
+} & Partial<CallClassification> &
+  Partial<CallAnnotation>;
+
+export type CallDirection = 'incoming' | 'outgoing' | 'unknown';
+
+/**
+ * How a call ended. 'very_short' calls connected but ended within the
+ * configured threshold, like a ring-and-hang; 'unanswered' outgoing calls
+ * were never picked up; 'answered_elsewhere' calls were taken on another
+ * device.
+ */
+export type CallOutcome =
+  | 'answered'
+  | 'very_short'
+  | 'unanswered'
+  | 'missed'
+  | 'voicemail'
+  | 'rejected'
+  | 'blocked'
+  | 'answered_elsewhere'
+  | 'unknown';
+
+export type CallClassification = {
+  direction: CallDirection;
+  outcome: CallOutcome;
+};
+
+export type CallClassificationThresholds = {
+  /** Connected calls shorter than this many seconds are 'very_short'. */
+  veryShortCallSeconds: number;
+  /** Outgoing calls lasting at most this many seconds are 'unanswered'. */
+  unansweredOutgoingSeconds: number;
+};
+
+export type FollowUpStatus = 'none' | 'pending' | 'done';
+
+/**
+ * What staff record about a call in the history.
+ */
+export type CallAnnotation = {
+  note: string;
+  /** Lower-case labels such as "quote requested" or "complaint". */
+  tags: string[];
+  followUpStatus: FollowUpStatus;
+};
+
+export type CallType = AnalyzedCall['type'];
+
+export type MessageTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+export type TemplateLibrary = {
+  templates: MessageTemplate[];
+  defaults: Record<CallType, string>;
+  businessName: string;
+};
+
+export type ClientStatus = 'client' | 'not_client' | 'undecided';
+
+export type ContactClassifications = Record<string, ClientStatus>;
+
+/**
+ * Where a client contact stands in the sales pipeline. 'won' and 'lost'
+ * close the lead.
+ */
+export type LeadStage = 'new_lead' | 'contacted' | 'quoted' | 'won' | 'lost';
+
+export type LeadPipelineEntry = {
+  stage: LeadStage;
+  updatedAt: number;
+};
+
+/** Pipeline stages keyed by normalized phone number. */
+export type LeadPipeline = Record<string, LeadPipelineEntry>;
+
+export type CallHistoryFilter = {
+  query: string;
+  types: CallType[];
+  fromDate: string;
+  toDate: string;
+  minDuration: number;
+  /** Calls with any of these tags match; empty matches every call. */
+  tags: string[];
+};
+
+export type ImportField =
+  | 'number'
+  | 'type'
+  | 'duration'
+  | 'timestamp'
+  | 'clientStatus';
+
+export type CsvColumnMapping = Record<ImportField, string | null>;
+
+export type ImportReport = {
+  added: number;
+  duplicates: number;
+  malformed: number;
+  contactsAdded: number;
+  contactConflicts: number;
+};
+
+export type RuleAction = 'prompt' | 'skip' | 'auto_send';
+
+export type KnownNumberCondition = 'any' | 'known' | 'unknown';
+
+export type CallRuleConditions = {
+  types: CallType[];
+  /** Calls with any of these outcomes match; empty matches every call. */
+  outcomes: CallOutcome[];
+  minDuration: number | null;
+  maxDuration: number | null;
+  numberPrefix: string;
+  knownNumber: KnownNumberCondition;
+};
+
+export type CallRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: CallRuleConditions;
+  action: RuleAction;
+  templateId: string | null;
+};
+
+export type BusinessDayHours = {
+  enabled: boolean;
+  open: string;
+  close: string;
+};
+
+export type AfterHoursMode = 'hold' | 'after_hours_template';
+
+export type BusinessHours = {
+  enabled: boolean;
+  timeZone: string;
+  weekly: BusinessDayHours[];
+  holidays: string[];
+  afterHoursMode: AfterHoursMode;
+  afterHoursTemplateId: string;
+};
+
+export type CallbackReminderSettings = {
+  autoRemind: boolean;
+  delayMinutes: number;
+};
+
+/**
+ * A call the app has already handled, identified like `isSameCall` does: by
+ * its timestamp and normalized number.
+ */
+export type ProcessedCall = {
+  timestamp: number;
+  numberKey: string;
+  processedAt: number;
+};
+
+export type SnoozedPrompt = {
+  call: AnalyzedCall;
+  snoozedUntil: number;
+  snoozeCount: number;
+};
+
+export type SnoozedPrompts = Record<string, SnoozedPrompt>;
+
+export type MessagingChannelId =
+  | 'whatsapp'
+  | 'whatsapp_business'
+  | 'sms'
+  | 'telegram'
+  | 'email';
+
+export type ContactChannel = {
+  channel: MessagingChannelId | null;
+  email: string;
+};
+
+export type ContactChannels = Record<string, ContactChannel>;
+
+/**
+ * Calls whose channel is picked in the app after "More…" on the channel
+ * options notification, keyed by notification ID.
+ */
+export type PendingChannelChoices = Record<string, AnalyzedCall>;
+
+/**
+ * How an attempt to open a messaging channel ended. 'fallback_web' means
+ * WhatsApp was not installed and its web link was opened instead.
+ */
+export type OutboxOutcome = 'opened' | 'fallback_web' | 'failed';
+
+export type SendResult = {
+  outcome: OutboxOutcome;
+  /** The error that made the attempt fail, or null. */
+  error: string | null;
+};
+
+export type OutboxEntry = SendResult & {
+  id: string;
+  /** The call the message follows up on. */
+  call: AnalyzedCall;
+  channel: MessagingChannelId;
+  /** The rendered message text. */
+  message: string;
+  timestamp: number;
+};
+
+/**
+ * Where confirmed client calls and sent messages are posted, e.g. a CRM's
+ * inbound webhook.
+ */
+export type CrmWebhookConfig = {
+  enabled: boolean;
+  url: string;
+  headers: Record<string, string>;
+  /** JSON request body. Placeholders such as {number} become JSON values. */
+  bodyTemplate: string;
+};
+
+export type CrmSyncEvent = 'client_call' | 'message_sent';
+
+export type CrmSyncStatus = 'pending' | 'synced' | 'failed';
+
+export type CrmSyncJob = {
+  id: string;
+  event: CrmSyncEvent;
+  call: AnalyzedCall;
+  /** The message sent, for 'message_sent' jobs. */
+  message: OutboxEntry | null;
+  status: CrmSyncStatus;
+  attempts: number;
+  /** When the next attempt is due, while the job is pending. */
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+  syncedAt: number | null;
 };
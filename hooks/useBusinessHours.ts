@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BusinessHours } from './types';
+import {
+  DEFAULT_BUSINESS_HOURS,
+  loadBusinessHours,
+  saveBusinessHours,
+} from '../utils/BusinessHours';
+
+/**
+ * Custom hook that exposes the persisted business hours schedule. Every
+ * change is written straight back to storage so call handling picks it up.
+ */
+export function useBusinessHours() {
+  const [hours, setHours] = useState<BusinessHours>(DEFAULT_BUSINESS_HOURS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadBusinessHours().then(stored => {
+      if (isMounted) {
+        setHours(stored);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateHours = useCallback(
+    (updater: (prev: BusinessHours) => BusinessHours) => {
+      setHours(prev => {
+        const next = updater(prev);
+        saveBusinessHours(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  return { hours, isLoading, updateHours };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CallHistoryFilter } from './types';
+import {
+  DEFAULT_CALL_HISTORY_FILTER,
+  loadCallHistoryFilter,
+  saveCallHistoryFilter,
+} from '../utils/CallHistoryFilter';
+
+/**
+ * Custom hook holding the call history search and filter state. The filter
+ * is restored on start-up and saved whenever it changes.
+ */
+export function useCallHistoryFilter() {
+  const [filter, setFilter] = useState<CallHistoryFilter>(
+    DEFAULT_CALL_HISTORY_FILTER,
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+    loadCallHistoryFilter().then(stored => {
+      if (isMounted) {
+        setFilter(stored);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateFilter = useCallback((updates: Partial<CallHistoryFilter>) => {
+    setFilter(prev => {
+      const next = { ...prev, ...updates };
+      saveCallHistoryFilter(next);
+      return next;
+    });
+  }, []);
+
+  const resetFilter = useCallback(() => {
+    setFilter(DEFAULT_CALL_HISTORY_FILTER);
+    saveCallHistoryFilter(DEFAULT_CALL_HISTORY_FILTER);
+  }, []);
+
+  return { filter, updateFilter, resetFilter };
+}
@@ -1,70 +1,75 @@
-import { useCallback, useEffect, useRef } from 'react';
-import { analyzeCallLogEntry } from '../utils/CallLogAnalyzer';
+import { useEffect, useRef } from 'react';
+import { analyzeCallLogBatch } from '../utils/CallLogAnalyzer';
 import { subscribeToCallUpdates } from '../CallLogModule';
-import { CallLogEntry } from './types';
+import { loadClassificationThresholds } from '../utils/CallClassification';
+import { claimCall, releaseCall } from '../utils/ProcessedCalls';
+import { AnalyzedCall } from './types';
 
 /**
  * Custom hook to monitor call logs using the native Android service.
  * This hook is now solely responsible for managing the JavaScript side
  * of event subscription and unsubscription. The native service lifecycle
  * (start/stop) is managed by the parent component (App.tsx).
+ * Calls arrive in batches; they are handed to `onCallDetected` one at a
+ * time, oldest first, each after the previous one has been handled.
+ * A call whose callback throws or returns false is not marked as handled,
+ * so it is offered again later.
  * @param {object} props - The hook properties.
- * @param {function(AnalyzedCall): void} props.onCallDetected - Callback function when a new call is detected.
+ * @param {function(AnalyzedCall): Promise<boolean | void> | boolean | void} props.onCallDetected - Callback function when a new call is detected; returns false if it did not handle the call.
  */
-export function useCallLogMonitor({ onCallDetected }: any) {
-  const previousLogs = useRef<CallLogEntry[]>([]);
+export function useCallLogMonitor({
+  onCallDetected,
+}: {
+  onCallDetected: (
+    call: AnalyzedCall,
+  ) => Promise<boolean | void> | boolean | void;
+}) {
+  const processingQueue = useRef<Promise<void>>(Promise.resolve());
+  const onCallDetectedRef = useRef(onCallDetected);
+  onCallDetectedRef.current = onCallDetected;
 
-  const processCallLogEntry = useCallback(
-    (entry: CallLogEntry) => {
-      if (
-        typeof entry.number !== 'string' ||
-        typeof entry.type !== 'number' ||
-        typeof entry.duration !== 'number' ||
-        typeof entry.timestamp !== 'number'
-      ) {
+  useEffect(() => {
+    const processCall = async (call: AnalyzedCall) => {
+      // The persisted ledger also catches calls handled before a restart
+      // or re-emitted by the service.
+      if (!(await claimCall(call))) {
         return;
       }
+      let isHandled = false;
       try {
-        const newCallData = {
-          number: entry.number,
-          type: entry.type,
-          duration: entry.duration,
-          timestamp: entry.timestamp,
-        };
-
-        if (
-          previousLogs.current.some(
-            log =>
-              log.timestamp === newCallData.timestamp &&
-              log.number === newCallData.number,
-          )
-        ) {
-          return;
-        }
-
-        const analyzedResult = analyzeCallLogEntry(newCallData);
-
-        if (analyzedResult) {
-          onCallDetected(analyzedResult);
-          previousLogs.current = [...previousLogs.current, newCallData];
-        }
+        isHandled = (await onCallDetectedRef.current(call)) !== false;
       } catch (err) {
         console.warn(
           'Failed to process call log update from native module:',
           err,
         );
       }
-    },
-    [onCallDetected],
-  );
+      if (!isHandled) {
+        await releaseCall(call);
+      }
+    };
 
-  useEffect(() => {
-    const unsubscribe = subscribeToCallUpdates(entry => {
-      processCallLogEntry(entry);
+    const unsubscribe = subscribeToCallUpdates(batch => {
+      const entries = Array.isArray(batch?.calls) ? batch.calls : [];
+      // Chain onto earlier batches so calls are handled strictly in order.
+      processingQueue.current = processingQueue.current
+        .then(async () => {
+          const calls = analyzeCallLogBatch(
+            entries,
+            await loadClassificationThresholds(),
+          );
+          for (const call of calls) {
+            await processCall(call);
+          }
+        })
+        .catch(error => {
+          // Keep the chain alive so later batches are still handled.
+          console.error('Failed to process call log batch:', error);
+        });
     });
 
     return () => {
       unsubscribe();
     };
-  }, [onCallDetected, processCallLogEntry]);
+  }, []);
 }
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react';
+import { CallRule } from './types';
+import {
+  DEFAULT_CALL_RULES,
+  loadCallRules,
+  saveCallRules,
+} from '../utils/CallRules';
+
+/**
+ * Custom hook that exposes the persisted call rules and functions to edit
+ * them. Rules are evaluated in list order, so the hook also lets rules be
+ * moved up and down.
+ */
+export function useCallRules() {
+  const [rules, setRules] = useState<CallRule[]>(DEFAULT_CALL_RULES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadCallRules().then(stored => {
+      if (isMounted) {
+        setRules(stored);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateRules = useCallback(
+    (updater: (prev: CallRule[]) => CallRule[]) => {
+      setRules(prev => {
+        const next = updater(prev);
+        saveCallRules(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const saveRule = useCallback(
+    (rule: CallRule) => {
+      updateRules(prev =>
+        prev.some(existing => existing.id === rule.id)
+          ? prev.map(existing => (existing.id === rule.id ? rule : existing))
+          : [...prev, rule],
+      );
+    },
+    [updateRules],
+  );
+
+  const removeRule = useCallback(
+    (ruleId: string) => {
+      updateRules(prev => prev.filter(rule => rule.id !== ruleId));
+    },
+    [updateRules],
+  );
+
+  const toggleRule = useCallback(
+    (ruleId: string) => {
+      updateRules(prev =>
+        prev.map(rule =>
+          rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule,
+        ),
+      );
+    },
+    [updateRules],
+  );
+
+  const moveRule = useCallback(
+    (ruleId: string, offset: -1 | 1) => {
+      updateRules(prev => {
+        const index = prev.findIndex(rule => rule.id === ruleId);
+        const target = index + offset;
+        if (index === -1 || target < 0 || target >= prev.length) {
+          return prev;
+        }
+        const next = [...prev];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+      });
+    },
+    [updateRules],
+  );
+
+  return { rules, isLoading, saveRule, removeRule, toggleRule, moveRule };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ContactChannel, ContactChannels, MessagingChannelId } from './types';
+import {
+  loadContactChannels,
+  setContactChannel,
+  subscribeToContactChannels,
+} from '../utils/ContactChannels';
+import { getAvailableChannels } from '../utils/MessagingChannels';
+
+/**
+ * Custom hook that exposes the per-contact messaging preferences and the
+ * channels installed on this device.
+ */
+export function useContactChannels() {
+  const [channels, setChannels] = useState<ContactChannels>({});
+  const [availableChannels, setAvailableChannels] = useState<
+    MessagingChannelId[]
+  >([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all([loadContactChannels(), getAvailableChannels()]).then(
+      ([stored, available]) => {
+        if (isMounted) {
+          setChannels(stored);
+          setAvailableChannels(available);
+        }
+      },
+    );
+    const unsubscribe = subscribeToContactChannels(updated => {
+      if (isMounted) {
+        setChannels(updated);
+      }
+    });
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const updateChannel = useCallback(
+    (number: string, changes: Partial<ContactChannel>) =>
+      setContactChannel(number, changes),
+    [],
+  );
+
+  return { channels, availableChannels, updateChannel };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ClientStatus, ContactClassifications } from './types';
+import {
+  loadContactClassifications,
+  setContactClassification,
+  subscribeToClassificationChanges,
+} from '../utils/ContactClassification';
+
+/**
+ * Custom hook that exposes the persisted client / not-client list and keeps
+ * it in sync with changes made from notification actions.
+ */
+export function useContactClassifications() {
+  const [classifications, setClassifications] =
+    useState<ContactClassifications>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadContactClassifications().then(stored => {
+      if (isMounted) {
+        setClassifications(stored);
+        setIsLoading(false);
+      }
+    });
+    const unsubscribe = subscribeToClassificationChanges(updated => {
+      if (isMounted) {
+        setClassifications(updated);
+      }
+    });
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const setClassification = useCallback(
+    (number: string, status: ClientStatus) =>
+      setContactClassification(number, status),
+    [],
+  );
+
+  return { classifications, isLoading, setClassification };
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { CrmSyncJob } from './types';
+import {
+  flushCrmSyncQueue,
+  getNextCrmSyncAttemptAt,
+  loadCrmSyncQueue,
+  retryFailedCrmSyncJobs,
+  subscribeToCrmSyncQueue,
+} from '../utils/CrmSync';
+
+/**
+ * Custom hook that returns the CRM sync queue, newest job first, and keeps
+ * it moving while the app runs: due jobs are sent on mount, whenever the app
+ * comes to the foreground and when the next retry is due.
+ */
+export function useCrmSync() {
+  const [jobs, setJobs] = useState<CrmSyncJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setJobs(await loadCrmSyncQueue());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    flushCrmSyncQueue();
+    const unsubscribe = subscribeToCrmSyncQueue(setJobs);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+        flushCrmSyncQueue();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    const nextAttemptAt = getNextCrmSyncAttemptAt(jobs);
+    if (nextAttemptAt === null) {
+      return;
+    }
+    const timeout = setTimeout(
+      () => flushCrmSyncQueue(),
+      Math.max(nextAttemptAt - Date.now(), 0),
+    );
+    return () => clearTimeout(timeout);
+  }, [jobs]);
+
+  const retryFailed = useCallback(() => retryFailedCrmSyncJobs(), []);
+
+  return { jobs, isLoading, retryFailed };
+}
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LeadPipeline, LeadStage } from './types';
+import {
+  loadLeadPipeline,
+  setLeadStage,
+  subscribeToLeadPipeline,
+} from '../utils/LeadPipeline';
+
+/**
+ * Custom hook that exposes the persisted lead stages and keeps them in sync
+ * with automatic updates from calls, messages and notes.
+ */
+export function useLeadPipeline() {
+  const [pipeline, setPipeline] = useState<LeadPipeline>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadLeadPipeline().then(stored => {
+      if (isMounted) {
+        setPipeline(stored);
+        setIsLoading(false);
+      }
+    });
+    const unsubscribe = subscribeToLeadPipeline(updated => {
+      if (isMounted) {
+        setPipeline(updated);
+      }
+    });
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const setStage = useCallback(
+    (number: string, stage: LeadStage) => setLeadStage(number, stage),
+    [],
+  );
+
+  return { pipeline, isLoading, setStage };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CallType, MessageTemplate, TemplateLibrary } from './types';
+import {
+  DEFAULT_TEMPLATE_LIBRARY,
+  deleteTemplate,
+  loadTemplateLibrary,
+  saveTemplateLibrary,
+  upsertTemplate,
+} from '../utils/MessageTemplates';
+
+/**
+ * Custom hook that exposes the persisted message template library and
+ * functions to edit it. Every change is written straight back to storage so
+ * the background notification handler picks it up too. Edits made before the
+ * stored library has loaded are ignored, since the load would overwrite them.
+ */
+export function useMessageTemplates() {
+  const [library, setLibrary] = useState<TemplateLibrary>(
+    DEFAULT_TEMPLATE_LIBRARY,
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  // The latest library, or null until the stored one has loaded.
+  const libraryRef = useRef<TemplateLibrary | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadTemplateLibrary().then(stored => {
+      if (isMounted) {
+        libraryRef.current = stored;
+        setLibrary(stored);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateLibrary = useCallback(
+    (updater: (prev: TemplateLibrary) => TemplateLibrary) => {
+      if (!libraryRef.current) {
+        console.warn('Ignoring template change: templates are still loading.');
+        return;
+      }
+      const next = updater(libraryRef.current);
+      libraryRef.current = next;
+      setLibrary(next);
+      saveTemplateLibrary(next);
+    },
+    [],
+  );
+
+  const saveTemplate = useCallback(
+    (template: MessageTemplate) => {
+      updateLibrary(prev => upsertTemplate(prev, template));
+    },
+    [updateLibrary],
+  );
+
+  const removeTemplate = useCallback(
+    (templateId: string) => {
+      updateLibrary(prev => deleteTemplate(prev, templateId));
+    },
+    [updateLibrary],
+  );
+
+  const setDefaultTemplate = useCallback(
+    (callType: CallType, templateId: string) => {
+      updateLibrary(prev => ({
+        ...prev,
+        defaults: { ...prev.defaults, [callType]: templateId },
+      }));
+    },
+    [updateLibrary],
+  );
+
+  const setBusinessName = useCallback(
+    (businessName: string) => {
+      updateLibrary(prev => ({ ...prev, businessName }));
+    },
+    [updateLibrary],
+  );
+
+  return {
+    library,
+    isLoading,
+    saveTemplate,
+    removeTemplate,
+    setDefaultTemplate,
+    setBusinessName,
+  };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DEFAULT_MONITORING_OPTIONS,
+  MonitoringOptions,
+  getMonitoringOptions,
+  setMonitoringOptions,
+} from '../CallLogModule';
+
+/**
+ * Custom hook that exposes the monitoring service configuration stored by
+ * the native module. Changes are saved natively and picked up by the
+ * running service from its next poll.
+ */
+export function useMonitoringOptions() {
+  const [options, setOptions] = useState<MonitoringOptions>(
+    DEFAULT_MONITORING_OPTIONS,
+  );
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+    getMonitoringOptions()
+      .then(stored => {
+        if (isMounted) {
+          setOptions(stored);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load monitoring options:', error);
+      })
+      .finally(() => {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const updateOptions = useCallback(
+    async (changes: Partial<MonitoringOptions>) => {
+      setOptions(prev => ({ ...prev, ...changes }));
+      try {
+        setOptions(await setMonitoringOptions(changes));
+      } catch (error) {
+        console.error('Failed to save monitoring options:', error);
+      }
+    },
+    [],
+  );
+
+  return { options, isLoading, updateOptions };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  MonitoringStatus,
+  getMonitoringStatus,
+  subscribeToMonitoringStatus,
+} from '../CallLogModule';
+import { getMonitoringHealth } from '../utils/MonitoringHealth';
+
+/**
+ * How often the status is read even without events, so a service that
+ * stopped sending heartbeats shows up as stalled.
+ */
+const STATUS_REFRESH_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Custom hook that returns the real state of the native monitoring service.
+ * It follows the service's status events and re-reads the status
+ * periodically and whenever the app comes to the foreground.
+ */
+export function useMonitoringStatus() {
+  const [status, setStatus] = useState<MonitoringStatus | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const handleStatus = useCallback((next: MonitoringStatus) => {
+    setStatus(next);
+    setNow(Date.now());
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      handleStatus(await getMonitoringStatus());
+    } catch (error) {
+      console.error('Failed to read the monitoring status:', error);
+    }
+  }, [handleStatus]);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeToMonitoringStatus(handleStatus);
+    const interval = setInterval(refresh, STATUS_REFRESH_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+      }
+    });
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [refresh, handleStatus]);
+
+  return { status, health: getMonitoringHealth(status, now), refresh };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { OutboxEntry } from './types';
+import { loadOutbox, subscribeToOutbox } from '../utils/Outbox';
+
+/**
+ * Custom hook that returns every recorded message attempt, newest first.
+ * The outbox is reloaded whenever the app comes to the foreground, because
+ * messages sent from the background handler are recorded while the app is
+ * not running.
+ */
+export function useOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setEntries(await loadOutbox());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeToOutbox(setEntries);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, [refresh]);
+
+  return { entries, isLoading };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { PendingChannelChoices } from './types';
+import {
+  loadPendingChannelChoices,
+  subscribeToPendingChannelChoices,
+} from '../utils/PendingChannelChoices';
+
+/**
+ * Custom hook that returns the calls waiting for a channel to be picked in
+ * the app. The choices are reloaded whenever the app comes to the
+ * foreground, because "More…" is pressed from the background handler.
+ */
+export function usePendingChannelChoices() {
+  const [choices, setChoices] = useState<PendingChannelChoices>({});
+
+  const refresh = useCallback(async () => {
+    setChoices(await loadPendingChannelChoices());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeToPendingChannelChoices(setChoices);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, [refresh]);
+
+  return choices;
+}
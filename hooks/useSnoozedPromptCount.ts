@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  countActiveSnoozes,
+  loadSnoozedPrompts,
+  subscribeToSnoozedPrompts,
+} from '../utils/SnoozedPrompts';
+
+/**
+ * Custom hook that returns how many client-check prompts are snoozed. The
+ * count is reloaded whenever the app comes to the foreground, because
+ * prompts snoozed from the background handler are written while the app is
+ * not running.
+ */
+export function useSnoozedPromptCount() {
+  const [count, setCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    setCount(countActiveSnoozes(await loadSnoozedPrompts()));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeToSnoozedPrompts(prompts =>
+      setCount(countActiveSnoozes(prompts)),
+    );
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        refresh();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, [refresh]);
+
+  return count;
+}
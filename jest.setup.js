@@ -0,0 +1,15 @@
+/* eslint-env jest */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@notifee/react-native', () =>
+  require('@notifee/react-native/jest-mock'),
+);
+
+// CallLogModule.ts runs against an in-memory fake of the native module, so
+// tests exercise the real wrappers and event subscriptions. Tests drive it
+// through `fakeCallLogModule` from testing/FakeCallLogModule.ts.
+require('react-native').NativeModules.CallLogModule =
+  require('./testing/FakeCallLogModule').fakeCallLogModule;
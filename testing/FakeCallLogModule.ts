@@ -0,0 +1,264 @@
+/* eslint-env jest */
+import { DeviceEventEmitter } from 'react-native';
+// Types only: importing values from CallLogModule.ts would bind it to the
+// native module before the fake is installed.
+import type { MonitoringOptions, MonitoringStatus } from '../CallLogModule';
+import { CallLogEntry } from '../hooks/types';
+import { analyzeCallLogEntry } from '../utils/CallLogAnalyzer';
+
+// Mirror MonitoringConfig.kt.
+const DEFAULT_OPTIONS: MonitoringOptions = {
+  pollIntervalMs: 5000,
+  batteryMode: 'standard',
+  callTypes: [],
+  notificationTitle: 'Monitoring Call Logs',
+  notificationText: 'Watching call history for changes...',
+};
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 10 * 60 * 1000;
+
+const PERMISSION_DENIED_ERROR =
+  'READ_CALL_LOG permission denied. Cannot access call log.';
+
+type OpenedUrl = { url: string; packageName: string };
+
+type SharedFile = { fileName: string; content: string; mimeType: string };
+
+type FakeState = {
+  callLog: CallLogEntry[];
+  // Mirror CallLogMonitorService.kt: rows from this index on have not been
+  // emitted yet. The index in `callLog` stands in for the row ID.
+  lastCallId: number | null;
+  options: MonitoringOptions;
+  status: MonitoringStatus;
+  listenerCount: number;
+  isPermissionGranted: boolean;
+  installedPackages: string[];
+  openedUrls: OpenedUrl[];
+  sharedFiles: SharedFile[];
+};
+
+function createInitialState(): FakeState {
+  return {
+    callLog: [],
+    lastCallId: null,
+    options: DEFAULT_OPTIONS,
+    status: {
+      isRunning: false,
+      startedAt: null,
+      lastPollAt: null,
+      pollDelayMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      callsEmitted: 0,
+    },
+    listenerCount: 0,
+    isPermissionGranted: true,
+    installedPackages: [],
+    openedUrls: [],
+    sharedFiles: [],
+  };
+}
+
+/**
+ * Creates an in-memory stand-in for the native `CallLogModule`. It keeps its
+ * own call log and behaves like the native service: while monitoring, the
+ * rows added since the last poll are emitted as one `CallLogBatch` event in
+ * the order they were logged, filtered by the configured call types. Every native method is a `jest.fn`, so tests can
+ * also assert on how the module was called.
+ */
+export function createFakeCallLogModule() {
+  let state = createInitialState();
+
+  const emitStatus = () => {
+    DeviceEventEmitter.emit('MonitoringStatus', { ...state.status });
+  };
+
+  const applyOptions = (options: Partial<MonitoringOptions> | null) => {
+    if (!options) return;
+    const next = { ...state.options, ...options };
+    state.options = {
+      ...next,
+      pollIntervalMs: Math.min(
+        Math.max(next.pollIntervalMs, MIN_POLL_INTERVAL_MS),
+        MAX_POLL_INTERVAL_MS,
+      ),
+      notificationTitle:
+        next.notificationTitle.trim() || DEFAULT_OPTIONS.notificationTitle,
+      notificationText:
+        next.notificationText.trim() || DEFAULT_OPTIONS.notificationText,
+    };
+  };
+
+  const forwards = (entry: CallLogEntry) => {
+    const category = analyzeCallLogEntry(entry)?.type;
+    return (
+      state.options.callTypes.length === 0 ||
+      (category !== undefined && state.options.callTypes.includes(category))
+    );
+  };
+
+  return {
+    // Native methods, as called by CallLogModule.ts and NativeEventEmitter.
+    addListener: jest.fn((_eventName: string) => {
+      state.listenerCount++;
+    }),
+    removeListeners: jest.fn((count: number) => {
+      state.listenerCount = Math.max(state.listenerCount - count, 0);
+    }),
+    startMonitoring: jest.fn(
+      (options: Partial<MonitoringOptions> | null = null) => {
+        applyOptions(options);
+        if (!state.status.isRunning) {
+          state.status = {
+            ...createInitialState().status,
+            isRunning: true,
+            startedAt: Date.now(),
+            pollDelayMs: state.options.pollIntervalMs,
+          };
+          state.lastCallId = state.isPermissionGranted
+            ? state.callLog.length
+            : null;
+        }
+      },
+    ),
+    stopMonitoring: jest.fn(() => {
+      state.status = { ...state.status, isRunning: false, pollDelayMs: null };
+    }),
+    setMonitoringOptions: jest.fn(
+      async (options: Partial<MonitoringOptions>) => {
+        applyOptions(options);
+        return state.options;
+      },
+    ),
+    getMonitoringOptions: jest.fn(async () => state.options),
+    getMonitoringStatus: jest.fn(async () => ({ ...state.status })),
+    getCallsSince: jest.fn(async (timestamp: number, limit: number) => {
+      if (!state.isPermissionGranted) {
+        throw Object.assign(new Error('READ_CALL_LOG permission denied.'), {
+          code: 'E_PERMISSION',
+        });
+      }
+      return state.callLog
+        .filter(entry => entry.timestamp > timestamp)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(0, limit);
+    }),
+    isPackageInstalled: jest.fn(async (packageName: string) =>
+      state.installedPackages.includes(packageName),
+    ),
+    openUrlInPackage: jest.fn(async (url: string, packageName: string) => {
+      if (!state.installedPackages.includes(packageName)) {
+        return false;
+      }
+      state.openedUrls.push({ url, packageName });
+      return true;
+    }),
+    shareFile: jest.fn(
+      async (
+        fileName: string,
+        content: string,
+        mimeType: string,
+        _title: string,
+      ) => {
+        state.sharedFiles.push({ fileName, content, mimeType });
+        return `content://com.mycalldetectorapp.exports/exports/${fileName}`;
+      },
+    ),
+
+    // Test controls.
+
+    /** Whether the monitoring service is running. */
+    get isMonitoring() {
+      return state.status.isRunning;
+    },
+    /** Listeners registered through `addListener`, as the native side counts them. */
+    get listenerCount() {
+      return state.listenerCount;
+    },
+    get options() {
+      return state.options;
+    },
+    get status() {
+      return state.status;
+    },
+    /** URLs opened through `openUrlInPackage`, oldest first. */
+    get openedUrls() {
+      return state.openedUrls;
+    },
+    /** Files shared through `shareFile`, oldest first. */
+    get sharedFiles() {
+      return state.sharedFiles;
+    },
+    /**
+     * Replaces the call log without emitting anything, e.g. to set up calls
+     * made while monitoring was off.
+     * @param entries The call log entries.
+     */
+    setCallLog(entries: CallLogEntry[]) {
+      state.callLog = [...entries];
+      if (state.lastCallId !== null) {
+        state.lastCallId = state.callLog.length;
+      }
+    },
+    /**
+     * Adds calls to the call log and, while monitoring, emits them like one
+     * poll of the native service would. Calls are logged when they end, so a
+     * long call can be logged after a shorter one that started later.
+     * @param entries The new call log entries, in the order they were logged.
+     */
+    logCalls(entries: CallLogEntry[]) {
+      state.callLog = [...state.callLog, ...entries];
+      if (!state.status.isRunning) return;
+      if (!state.isPermissionGranted) {
+        state.status = {
+          ...state.status,
+          lastError: PERMISSION_DENIED_ERROR,
+          lastErrorAt: Date.now(),
+        };
+        emitStatus();
+        return;
+      }
+      if (state.lastCallId === null) {
+        // The log could not be read at start-up; start from its end now.
+        state.lastCallId = state.callLog.length;
+      }
+      const calls = state.callLog.slice(state.lastCallId).filter(forwards);
+      state.lastCallId = state.callLog.length;
+      state.status = {
+        ...state.status,
+        lastPollAt: Date.now(),
+        callsEmitted: state.status.callsEmitted + calls.length,
+      };
+      if (calls.length > 0) {
+        DeviceEventEmitter.emit('CallLogBatch', { calls });
+      }
+      emitStatus();
+    },
+    /** Emits the current status, like the heartbeat sent after every poll. */
+    emitStatus,
+    /**
+     * Grants or revokes READ_CALL_LOG.
+     * @param isGranted Whether the permission is granted.
+     */
+    setPermissionGranted(isGranted: boolean) {
+      state.isPermissionGranted = isGranted;
+    },
+    /**
+     * Sets the apps reported as installed, e.g. "com.whatsapp".
+     * @param packageNames The installed package names.
+     */
+    setInstalledPackages(packageNames: string[]) {
+      state.installedPackages = [...packageNames];
+    },
+    /** Restores the initial state. Recorded `jest.fn` calls are kept. */
+    reset() {
+      state = createInitialState();
+    },
+  };
+}
+
+export type FakeCallLogModule = ReturnType<typeof createFakeCallLogModule>;
+
+/** The fake installed as `NativeModules.CallLogModule` by jest.setup.js. */
+export const fakeCallLogModule = createFakeCallLogModule();
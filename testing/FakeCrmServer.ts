@@ -0,0 +1,57 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export type ReceivedRequest = {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+/**
+ * Starts a local HTTP server standing in for a CRM webhook. It records every
+ * request and answers 200 unless told otherwise with `respondWith`.
+ * @returns The server's webhook URL and its test controls.
+ */
+export async function startFakeCrmServer() {
+  const requests: ReceivedRequest[] = [];
+  let statuses: number[] = [];
+
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      requests.push({
+        method: request.method ?? '',
+        path: request.url ?? '',
+        headers: request.headers,
+        body,
+      });
+      response.writeHead(statuses.shift() ?? 200);
+      response.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/webhook`,
+    /** Requests received so far, oldest first. */
+    requests,
+    /**
+     * Sets the status codes of the next responses, in order.
+     * @param codes The status codes, e.g. 503.
+     */
+    respondWith(...codes: number[]) {
+      statuses = codes;
+    },
+    /** Stops the server. */
+    close() {
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+export type FakeCrmServer = Awaited<ReturnType<typeof startFakeCrmServer>>;
@@ -0,0 +1,265 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, BusinessDayHours, BusinessHours } from '../hooks/types';
+import { displayClientCheckNotification } from './Notification';
+import { autoSendMessage } from './CallRules';
+
+export const BUSINESS_HOURS_STORAGE_KEY = '@CallDetectorApp:businessHours';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WORKDAY: BusinessDayHours = {
+  enabled: true,
+  open: '09:00',
+  close: '18:00',
+};
+const DAY_OFF: BusinessDayHours = { ...WORKDAY, enabled: false };
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  enabled: false,
+  timeZone: '',
+  weekly: [DAY_OFF, WORKDAY, WORKDAY, WORKDAY, WORKDAY, WORKDAY, DAY_OFF],
+  holidays: [],
+  afterHoursMode: 'hold',
+  afterHoursTemplateId: 'default_after_hours',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead to look for the next opening before giving up.
+const MAX_DAYS_AHEAD = 14;
+
+export type ZonedDateParts = {
+  dateKey: string;
+  weekday: number;
+  minutes: number;
+};
+
+export type ClientCheckDelivery = 'prompted' | 'held' | 'after_hours_template';
+
+/**
+ * Parses an "HH:MM" time into minutes since midnight.
+ * @param value The time string.
+ * @returns The minutes, or null if the time is invalid.
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_PATTERN.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Checks whether a string is an IANA time zone the device knows, e.g.
+ * "Asia/Kolkata". An empty string stands for the device's own time zone.
+ * @param timeZone The time zone name.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (timeZone === '') {
+    return true;
+  }
+  try {
+    return Boolean(
+      new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone,
+    );
+  } catch {
+    return false;
+  }
+}
+
+function getWallClock(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone || undefined,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second'),
+  );
+}
+
+/**
+ * Returns the calendar date, weekday and time of day of a timestamp in the
+ * given time zone.
+ * @param timestamp The timestamp in milliseconds.
+ * @param timeZone The IANA time zone, or '' for the device's time zone.
+ */
+export function getZonedDateParts(
+  timestamp: number,
+  timeZone: string,
+): ZonedDateParts {
+  const wallClock = new Date(getWallClock(timestamp, timeZone));
+  return {
+    dateKey: wallClock.toISOString().slice(0, 10),
+    weekday: wallClock.getUTCDay(),
+    minutes: wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes(),
+  };
+}
+
+/**
+ * Converts a wall-clock time on a date in the given time zone to a
+ * timestamp. Around daylight saving changes the offset is re-checked once,
+ * so times in a skipped hour resolve to just after the change.
+ * @param dateKey The date as "YYYY-MM-DD".
+ * @param minutes Minutes since midnight on that date.
+ * @param timeZone The IANA time zone, or '' for the device's time zone.
+ */
+export function zonedTimeToTimestamp(
+  dateKey: string,
+  minutes: number,
+  timeZone: string,
+): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const guess = wallClock - (getWallClock(wallClock, timeZone) - wallClock);
+  return wallClock - (getWallClock(guess, timeZone) - guess);
+}
+
+function getOpeningWindow(
+  hours: BusinessHours,
+  dateKey: string,
+  weekday: number,
+): { open: number; close: number } | null {
+  const day = hours.weekly[weekday];
+  if (!day?.enabled || hours.holidays.includes(dateKey)) {
+    return null;
+  }
+  const open = parseTimeOfDay(day.open);
+  const close = parseTimeOfDay(day.close);
+  if (open === null || close === null || close <= open) {
+    return null;
+  }
+  return { open, close };
+}
+
+/**
+ * Checks whether a moment falls inside the business hours. Holidays count as
+ * closed all day. When the schedule is turned off every moment is inside.
+ * @param timestamp The timestamp in milliseconds.
+ * @param hours The business hours schedule.
+ */
+export function isWithinBusinessHours(
+  timestamp: number,
+  hours: BusinessHours,
+): boolean {
+  if (!hours.enabled) {
+    return true;
+  }
+  const { dateKey, weekday, minutes } = getZonedDateParts(
+    timestamp,
+    hours.timeZone,
+  );
+  const window = getOpeningWindow(hours, dateKey, weekday);
+  return window !== null && minutes >= window.open && minutes < window.close;
+}
+
+/**
+ * Finds when the business next opens, looking up to two weeks ahead.
+ * @param timestamp The moment to search from.
+ * @param hours The business hours schedule.
+ * @returns The timestamp itself when the business is open, the start of the
+ * next opening otherwise, or null if no opening was found.
+ */
+export function getNextBusinessWindowStart(
+  timestamp: number,
+  hours: BusinessHours,
+): number | null {
+  if (isWithinBusinessHours(timestamp, hours)) {
+    return timestamp;
+  }
+  const today = getZonedDateParts(timestamp, hours.timeZone);
+  const todayUtc = Date.parse(`${today.dateKey}T00:00:00Z`);
+
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const date = new Date(todayUtc + offset * DAY_MS);
+    const dateKey = date.toISOString().slice(0, 10);
+    const window = getOpeningWindow(hours, dateKey, date.getUTCDay());
+    if (window && (offset > 0 || today.minutes < window.open)) {
+      return zonedTimeToTimestamp(dateKey, window.open, hours.timeZone);
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads the business hours schedule from AsyncStorage.
+ * @returns The stored schedule, or the default (turned off) schedule.
+ */
+export async function loadBusinessHours(): Promise<BusinessHours> {
+  try {
+    const stored = await AsyncStorage.getItem(BUSINESS_HOURS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        ...DEFAULT_BUSINESS_HOURS,
+        ...parsed,
+        weekly: Array.isArray(parsed.weekly)
+          ? DEFAULT_BUSINESS_HOURS.weekly.map((day, index) => ({
+              ...day,
+              ...parsed.weekly[index],
+            }))
+          : DEFAULT_BUSINESS_HOURS.weekly,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load business hours from AsyncStorage:', error);
+  }
+  return DEFAULT_BUSINESS_HOURS;
+}
+
+/**
+ * Persists the business hours schedule to AsyncStorage.
+ * @param hours The schedule to save.
+ */
+export async function saveBusinessHours(hours: BusinessHours): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      BUSINESS_HOURS_STORAGE_KEY,
+      JSON.stringify(hours),
+    );
+  } catch (error) {
+    console.error('Failed to save business hours to AsyncStorage:', error);
+  }
+}
+
+/**
+ * Shows the client-check prompt for a call, respecting business hours.
+ * Inside business hours the prompt is shown right away. Outside them it is
+ * either scheduled for the next opening, so the night's prompts arrive
+ * together, or the call is answered with the after-hours template.
+ * @param call The analyzed call.
+ * @param now The current time, used to check the schedule.
+ * @returns How the call was handled.
+ */
+export async function deliverClientCheck(
+  call: AnalyzedCall,
+  now: number = Date.now(),
+): Promise<ClientCheckDelivery> {
+  const hours = await loadBusinessHours();
+  if (isWithinBusinessHours(now, hours)) {
+    await displayClientCheckNotification(call);
+    return 'prompted';
+  }
+  if (hours.afterHoursMode === 'after_hours_template') {
+    await autoSendMessage(call, hours.afterHoursTemplateId);
+    return 'after_hours_template';
+  }
+  const nextOpening = getNextBusinessWindowStart(now, hours);
+  if (nextOpening === null) {
+    // The schedule never opens; holding would delay the prompt forever.
+    await displayClientCheckNotification(call);
+    return 'prompted';
+  }
+  await displayClientCheckNotification(call, nextOpening);
+  return 'held';
+}
@@ -0,0 +1,136 @@
+import { AnalyzedCall, CallAnnotation } from '../hooks/types';
+import {
+  addCallToHistoryList,
+  isSameCall,
+  updateCallHistory,
+} from './CallHistoryRepository';
+import { recordLeadNotes } from './LeadPipeline';
+
+/**
+ * Tags offered in the history list before any have been used.
+ */
+export const SUGGESTED_TAGS = ['quote requested', 'complaint', 'order'];
+
+const HASHTAG_PATTERN = /#([\w-]+)/g;
+
+/**
+ * Returns the annotation of a call, filling in empty values for calls that
+ * have none.
+ * @param call The call.
+ */
+export function getCallAnnotation(call: AnalyzedCall): CallAnnotation {
+  return {
+    note: call.note ?? '',
+    tags: call.tags ?? [],
+    followUpStatus: call.followUpStatus ?? 'none',
+  };
+}
+
+/**
+ * Cleans up tags: trims them, lower-cases them and drops empty and
+ * duplicate ones.
+ * @param tags The tags as entered.
+ * @returns The cleaned tags, in their original order.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags
+    .map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(cleaned));
+}
+
+/**
+ * Splits a comma-separated list typed by the user into tags.
+ * @param text The text, e.g. "quote requested, complaint".
+ */
+export function parseTagList(text: string): string[] {
+  return normalizeTags(text.split(','));
+}
+
+/**
+ * Parses the text typed into a notification's note input. Hashtags become
+ * tags, with "_" and "-" standing for spaces, so "Wants pricing
+ * #quote_requested" is a note with the tag "quote requested".
+ * @param text The text as typed.
+ * @returns The note without the hashtags, and the tags.
+ */
+export function parseNoteInput(text: string): { note: string; tags: string[] } {
+  const tags: string[] = [];
+  const note = text.replace(HASHTAG_PATTERN, (_, tag: string) => {
+    tags.push(tag.replace(/[_-]/g, ' '));
+    return '';
+  });
+  return {
+    note: note.replace(/\s+/g, ' ').trim(),
+    tags: normalizeTags(tags),
+  };
+}
+
+/**
+ * Returns every tag used in the history, sorted alphabetically.
+ * @param calls The call history.
+ */
+export function getAllTags(calls: AnalyzedCall[]): string[] {
+  return Array.from(new Set(calls.flatMap(call => call.tags ?? []))).sort();
+}
+
+export type CallAnnotationChanges =
+  | Partial<CallAnnotation>
+  | ((current: CallAnnotation) => Partial<CallAnnotation>);
+
+/**
+ * Applies changes to the annotation of a call in a history list. A call that
+ * is not in the list yet is added with the changes.
+ * @param history The call history, newest first.
+ * @param call The call to annotate.
+ * @param changes The annotation fields to change, or a function computing
+ * them from the stored annotation.
+ * @returns The updated history.
+ */
+export function annotateCallInList(
+  history: AnalyzedCall[],
+  call: AnalyzedCall,
+  changes: CallAnnotationChanges,
+): AnalyzedCall[] {
+  return addCallToHistoryList(history, call).map(existingCall => {
+    if (!isSameCall(existingCall, call)) {
+      return existingCall;
+    }
+    const updates =
+      typeof changes === 'function'
+        ? changes(getCallAnnotation(existingCall))
+        : changes;
+    return {
+      ...existingCall,
+      ...updates,
+      ...(updates.tags ? { tags: normalizeTags(updates.tags) } : {}),
+    };
+  });
+}
+
+/**
+ * Updates the note, tags or follow-up status of a call in the stored
+ * history, adding the call if it is not stored yet. Stage tags such as
+ * "quoted" move the contact's lead forward.
+ * @param call The call to annotate.
+ * @param changes The annotation fields to change, or a function computing
+ * them from the stored annotation.
+ */
+export async function annotateCall(
+  call: AnalyzedCall,
+  changes: CallAnnotationChanges,
+): Promise<void> {
+  try {
+    const calls = await updateCallHistory(history =>
+      annotateCallInList(history, call, changes),
+    );
+    const annotated = calls.find(existingCall =>
+      isSameCall(existingCall, call),
+    );
+    if (annotated) {
+      await recordLeadNotes(annotated);
+    }
+  } catch (error) {
+    console.error('Failed to save call notes:', error);
+  }
+}
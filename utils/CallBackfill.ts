@@ -0,0 +1,121 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall } from '../hooks/types';
+import {
+  DEFAULT_MONITORING_OPTIONS,
+  getCallsSince,
+  getMonitoringOptions,
+} from '../CallLogModule';
+import { analyzeCallLogEntry } from './CallLogAnalyzer';
+import { loadClassificationThresholds } from './CallClassification';
+import { filterUnprocessedCalls, recordProcessedCalls } from './ProcessedCalls';
+import { createSerialQueue } from './SerialQueue';
+
+export const LAST_PROCESSED_CALL_STORAGE_KEY =
+  '@CallDetectorApp:lastProcessedCallTimestamp';
+
+/**
+ * The most calls offered for review at once. Older calls beyond the limit
+ * come up again at the next start-up.
+ */
+export const BACKFILL_LIMIT = 50;
+
+const enqueue = createSerialQueue();
+
+async function readStoredTimestamp(): Promise<number | null> {
+  const stored = await AsyncStorage.getItem(LAST_PROCESSED_CALL_STORAGE_KEY);
+  const timestamp = Number(stored);
+  return stored !== null && Number.isFinite(timestamp) ? timestamp : null;
+}
+
+/**
+ * Loads the timestamp of the newest call the app has processed.
+ * @returns The timestamp, or null if no call has been processed yet.
+ */
+export async function loadLastProcessedTimestamp(): Promise<number | null> {
+  try {
+    return await enqueue(readStoredTimestamp);
+  } catch (error) {
+    console.error('Failed to load the last processed call:', error);
+    return null;
+  }
+}
+
+/**
+ * Records that every call up to a timestamp has been processed. The stored
+ * timestamp never moves backwards, even when the live monitor and the
+ * missed-calls review mark calls at the same time.
+ * @param timestamp The timestamp of the processed call.
+ */
+export async function markCallProcessed(timestamp: number): Promise<void> {
+  try {
+    await enqueue(async () => {
+      const last = await readStoredTimestamp();
+      if (last === null || timestamp > last) {
+        await AsyncStorage.setItem(
+          LAST_PROCESSED_CALL_STORAGE_KEY,
+          String(timestamp),
+        );
+      }
+    });
+  } catch (error) {
+    console.error('Failed to save the last processed call:', error);
+  }
+}
+
+/**
+ * Finds the calls in the call log that were made after the last processed
+ * call, e.g. while monitoring was stopped or the phone was rebooting. Calls
+ * already handled, including ones declined with "No", and calls of a type
+ * the monitoring service does not forward are left out. On the
+ * very first run nothing is returned; the current time becomes the starting
+ * point instead, so the whole call log is not offered for review.
+ * @param now The current time.
+ * @returns The unprocessed calls, oldest first.
+ */
+export async function findUnprocessedCalls(
+  now: number = Date.now(),
+): Promise<AnalyzedCall[]> {
+  const last = await loadLastProcessedTimestamp();
+  if (last === null) {
+    await markCallProcessed(now);
+    return [];
+  }
+  try {
+    const [entries, thresholds, { callTypes }] = await Promise.all([
+      getCallsSince(last, BACKFILL_LIMIT),
+      loadClassificationThresholds(),
+      getMonitoringOptions().catch(() => DEFAULT_MONITORING_OPTIONS),
+    ]);
+    const calls = entries
+      .map(entry => analyzeCallLogEntry(entry, thresholds))
+      .filter((call): call is AnalyzedCall => call !== null);
+    const isForwarded = (call: AnalyzedCall) =>
+      callTypes.length === 0 || callTypes.includes(call.type);
+
+    // Move past the excluded calls before the first forwarded one, so they
+    // do not keep taking up the limit.
+    const firstForwarded = calls.findIndex(isForwarded);
+    const skipped =
+      firstForwarded === -1 ? calls : calls.slice(0, firstForwarded);
+    if (skipped.length > 0) {
+      await markCallProcessed(skipped[skipped.length - 1].timestamp);
+    }
+    return await filterUnprocessedCalls(calls.filter(isForwarded));
+  } catch (error) {
+    console.error('Failed to read calls missed while not monitoring:', error);
+    return [];
+  }
+}
+
+/**
+ * Skips calls offered for review, so they are not offered again.
+ * @param calls The calls to skip.
+ */
+export async function dismissUnprocessedCalls(
+  calls: AnalyzedCall[],
+): Promise<void> {
+  if (calls.length > 0) {
+    await recordProcessedCalls(calls);
+    await markCallProcessed(Math.max(...calls.map(call => call.timestamp)));
+  }
+}
@@ -0,0 +1,63 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CallClassificationThresholds } from '../hooks/types';
+import { DEFAULT_CLASSIFICATION_THRESHOLDS } from './CallLogAnalyzer';
+
+export const CLASSIFICATION_THRESHOLDS_STORAGE_KEY =
+  '@CallDetectorApp:callClassificationThresholds';
+
+export const VERY_SHORT_CALL_OPTIONS = [0, 3, 5, 10, 15];
+
+export const UNANSWERED_OUTGOING_OPTIONS = [0, 5, 10, 20];
+
+function toSeconds(value: unknown, fallback: number): number {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0
+    ? Math.floor(seconds)
+    : fallback;
+}
+
+/**
+ * Loads the thresholds used to classify very short and unanswered calls.
+ * @returns The stored thresholds, or the defaults.
+ */
+export async function loadClassificationThresholds(): Promise<CallClassificationThresholds> {
+  try {
+    const stored = await AsyncStorage.getItem(
+      CLASSIFICATION_THRESHOLDS_STORAGE_KEY,
+    );
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        veryShortCallSeconds: toSeconds(
+          parsed?.veryShortCallSeconds,
+          DEFAULT_CLASSIFICATION_THRESHOLDS.veryShortCallSeconds,
+        ),
+        unansweredOutgoingSeconds: toSeconds(
+          parsed?.unansweredOutgoingSeconds,
+          DEFAULT_CLASSIFICATION_THRESHOLDS.unansweredOutgoingSeconds,
+        ),
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load call classification thresholds:', error);
+  }
+  return DEFAULT_CLASSIFICATION_THRESHOLDS;
+}
+
+/**
+ * Persists the call classification thresholds. They apply to calls detected
+ * from then on; calls already in the history keep their outcome.
+ * @param thresholds The thresholds to save.
+ */
+export async function saveClassificationThresholds(
+  thresholds: CallClassificationThresholds,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      CLASSIFICATION_THRESHOLDS_STORAGE_KEY,
+      JSON.stringify(thresholds),
+    );
+  } catch (error) {
+    console.error('Failed to save call classification thresholds:', error);
+  }
+}
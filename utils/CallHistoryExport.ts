@@ -0,0 +1,140 @@
+import { shareFile } from '../CallLogModule';
+import { AnalyzedCall, ContactClassifications } from '../hooks/types';
+import { CALL_HISTORY_SCHEMA_VERSION } from './CallHistoryRepository';
+import { loadContactClassifications } from './ContactClassification';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMAT_IDENTIFIER = 'MyCallDetectorApp/callHistory';
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const BASE_COLUMNS = ['number', 'type', 'duration', 'timestamp'];
+
+/**
+ * Spreadsheet apps run cells starting with one of these as formulas.
+ */
+export const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a value for a CSV cell. Values a spreadsheet would read as a
+ * formula, including "+" phone numbers, are prefixed with an apostrophe so
+ * they are shown as text; the importer removes it again.
+ * @param value The value to write.
+ * @returns The CSV cell text.
+ */
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const text = CSV_FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Returns the CSV columns for a set of calls: the base call fields, followed
+ * by every other field found on the records (outcome fields, notes, ...),
+ * sorted by name.
+ * @param calls The calls being exported.
+ */
+export function getExportColumns(calls: AnalyzedCall[]): string[] {
+  const extraColumns = new Set<string>();
+  calls.forEach(call =>
+    Object.keys(call).forEach(key => {
+      if (!BASE_COLUMNS.includes(key)) {
+        extraColumns.add(key);
+      }
+    }),
+  );
+  return [...BASE_COLUMNS, ...Array.from(extraColumns).sort()];
+}
+
+/**
+ * Serializes calls as CSV with a header row. Timestamps are written in ISO
+ * 8601 format, and nested values are written as JSON.
+ * @param calls The calls to export.
+ * @returns The CSV text.
+ */
+export function callHistoryToCsv(calls: AnalyzedCall[]): string {
+  const columns = getExportColumns(calls);
+  const rows = calls.map(call =>
+    columns
+      .map(column => {
+        const value = (call as Record<string, unknown>)[column];
+        return escapeCsvValue(
+          column === 'timestamp'
+            ? new Date(call.timestamp).toISOString()
+            : value,
+        );
+      })
+      .join(','),
+  );
+  return [columns.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Serializes calls and client decisions as a JSON document that can be
+ * imported again. Records keep their numeric timestamps; `exportedAt` is
+ * informational.
+ * @param calls The calls to export.
+ * @param classifications The client / not-client list to include.
+ * @returns The JSON text.
+ */
+export function callHistoryToJson(
+  calls: AnalyzedCall[],
+  classifications: ContactClassifications = {},
+): string {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT_IDENTIFIER,
+      version: CALL_HISTORY_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      calls,
+      classifications,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Builds the file name for an export, e.g. "call-history-2024-01-31.csv".
+ * @param format The export format.
+ * @param date The export date.
+ */
+export function getExportFileName(
+  format: ExportFormat,
+  date: Date = new Date(),
+): string {
+  return `call-history-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Exports calls in the given format to a file and hands it to the system
+ * share sheet, so it can be saved, mailed or sent to another app. The file
+ * is shared rather than its text, which messaging apps would cut short.
+ * @param calls The calls to export.
+ * @param format The export format.
+ * @returns The URI of the shared file.
+ */
+export async function shareCallHistoryExport(
+  calls: AnalyzedCall[],
+  format: ExportFormat,
+): Promise<string> {
+  const content =
+    format === 'csv'
+      ? callHistoryToCsv(calls)
+      : callHistoryToJson(calls, await loadContactClassifications());
+  const fileName = getExportFileName(format);
+
+  return shareFile(
+    fileName,
+    content,
+    EXPORT_MIME_TYPES[format],
+    `Export ${fileName}`,
+  );
+}
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, CallHistoryFilter } from '../hooks/types';
+
+export const CALL_HISTORY_FILTER_STORAGE_KEY = '@CallDetectorApp:historyFilter';
+
+export const DEFAULT_CALL_HISTORY_FILTER: CallHistoryFilter = {
+  query: '',
+  types: [],
+  fromDate: '',
+  toDate: '',
+  minDuration: 0,
+  tags: [],
+};
+
+const DATE_INPUT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses a "YYYY-MM-DD" date typed by the user into the local-time
+ * timestamp of the start of that day.
+ * @param value The date string.
+ * @returns The timestamp in milliseconds, or null if the date is empty or invalid.
+ */
+export function parseDateInput(value: string): number | null {
+  const match = DATE_INPUT_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date.getTime();
+}
+
+/**
+ * Checks whether a filter narrows the history down at all.
+ * @param filter The call history filter.
+ */
+export function isFilterActive(filter: CallHistoryFilter): boolean {
+  return (
+    filter.query.trim() !== '' ||
+    filter.types.length > 0 ||
+    parseDateInput(filter.fromDate) !== null ||
+    parseDateInput(filter.toDate) !== null ||
+    filter.minDuration > 0 ||
+    filter.tags.length > 0
+  );
+}
+
+/**
+ * Checks whether a call matches a search query. The query matches partial
+ * numbers, ignoring spaces, dashes and other formatting on either side.
+ * @param call The call to check.
+ * @param query The search text.
+ */
+export function matchesSearchQuery(call: AnalyzedCall, query: string): boolean {
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) {
+    return true;
+  }
+  if (call.number.includes(trimmedQuery)) {
+    return true;
+  }
+  const queryDigits = trimmedQuery.replace(/\D/g, '');
+  return (
+    queryDigits.length > 0 &&
+    call.number.replace(/\D/g, '').includes(queryDigits)
+  );
+}
+
+/**
+ * Returns the calls that match every part of the filter. Empty parts of the
+ * filter match all calls. Invalid dates are ignored, the "to" date
+ * includes the whole day, and a call matches the tags if it has any of them.
+ * @param calls The call history.
+ * @param filter The call history filter.
+ * @returns The matching calls, in their original order.
+ */
+export function filterCallHistory(
+  calls: AnalyzedCall[],
+  filter: CallHistoryFilter,
+): AnalyzedCall[] {
+  const from = parseDateInput(filter.fromDate);
+  const toStartOfDay = parseDateInput(filter.toDate);
+  const to =
+    toStartOfDay === null
+      ? null
+      : new Date(toStartOfDay).setDate(new Date(toStartOfDay).getDate() + 1);
+
+  return calls.filter(
+    call =>
+      matchesSearchQuery(call, filter.query) &&
+      (filter.types.length === 0 || filter.types.includes(call.type)) &&
+      (from === null || call.timestamp >= from) &&
+      (to === null || call.timestamp < to) &&
+      call.duration >= filter.minDuration &&
+      (filter.tags.length === 0 ||
+        filter.tags.some(tag => call.tags?.includes(tag))),
+  );
+}
+
+/**
+ * Loads the saved call history filter from AsyncStorage.
+ * @returns The saved filter, or the default (empty) filter.
+ */
+export async function loadCallHistoryFilter(): Promise<CallHistoryFilter> {
+  try {
+    const stored = await AsyncStorage.getItem(CALL_HISTORY_FILTER_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_CALL_HISTORY_FILTER, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load call history filter:', error);
+  }
+  return DEFAULT_CALL_HISTORY_FILTER;
+}
+
+/**
+ * Persists the call history filter so it survives app restarts.
+ * @param filter The filter to save.
+ */
+export async function saveCallHistoryFilter(
+  filter: CallHistoryFilter,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      CALL_HISTORY_FILTER_STORAGE_KEY,
+      JSON.stringify(filter),
+    );
+  } catch (error) {
+    console.error('Failed to save call history filter:', error);
+  }
+}
@@ -0,0 +1,362 @@
+import {
+  AnalyzedCall,
+  CallType,
+  ClientStatus,
+  ContactClassifications,
+  CsvColumnMapping,
+  ImportField,
+  ImportReport,
+} from '../hooks/types';
+import { CALL_TYPES, analyzeCallLogEntry } from './CallLogAnalyzer';
+import {
+  isSameCall,
+  readCallDetails,
+  updateCallHistory,
+} from './CallHistoryRepository';
+import { mergeContactClassifications } from './ContactClassification';
+import { CSV_FORMULA_PREFIX } from './CallHistoryExport';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'number',
+  'type',
+  'duration',
+  'timestamp',
+  'clientStatus',
+];
+
+export type ImportCandidates = {
+  calls: AnalyzedCall[];
+  classifications: ContactClassifications;
+  malformed: number;
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  number: ['number', 'phone', 'phonenumber', 'mobile', 'caller', 'contact'],
+  type: ['type', 'calltype', 'direction'],
+  duration: ['duration', 'durationseconds', 'seconds', 'length'],
+  timestamp: ['timestamp', 'date', 'datetime', 'time', 'calldate'],
+  clientStatus: ['clientstatus', 'client', 'classification', 'isclient'],
+};
+
+const CALL_TYPE_ALIASES: Record<string, CallType> = {
+  received: 'incoming',
+  answered: 'incoming',
+  dialed: 'outgoing',
+  dialled: 'outgoing',
+  declined: 'rejected',
+};
+
+/**
+ * Removes the apostrophe that CSV exports put in front of values a
+ * spreadsheet would read as a formula, e.g. "'+919876543210".
+ * @param value The CSV field.
+ * @returns The field without the apostrophe.
+ */
+function unescapeCsvValue(value: string): string {
+  return value.startsWith("'") && CSV_FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+}
+
+/**
+ * Parses CSV text into rows of fields. Supports quoted fields with embedded
+ * commas, quotes ("") and line breaks, and both LF and CRLF line endings.
+ * @param text The CSV text.
+ * @returns The rows, with empty lines skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Guesses which CSV column holds each import field from the header names,
+ * e.g. "Phone Number" for `number` or "Date" for `timestamp`.
+ * @param headers The CSV header row.
+ * @returns The detected mapping; fields without a matching column are null.
+ */
+export function detectColumnMapping(headers: string[]): CsvColumnMapping {
+  const simplified = headers.map(header =>
+    header.toLowerCase().replace(/[^a-z0-9]/g, ''),
+  );
+  const mapping = {} as CsvColumnMapping;
+  IMPORT_FIELDS.forEach(field => {
+    const index = simplified.findIndex(header =>
+      HEADER_ALIASES[field].includes(header),
+    );
+    mapping[field] = index === -1 ? null : headers[index];
+  });
+  return mapping;
+}
+
+function parseCallType(value: unknown, duration: number): CallType {
+  if (typeof value === 'number' || /^\d+$/.test(String(value ?? '').trim())) {
+    return (
+      analyzeCallLogEntry({
+        number: '',
+        type: Number(value),
+        duration,
+        timestamp: 0,
+      })?.type ?? 'unknown'
+    );
+  }
+  const text = String(value ?? '')
+    .trim()
+    .toLowerCase();
+  if ((CALL_TYPES as string[]).includes(text)) {
+    return text as CallType;
+  }
+  return CALL_TYPE_ALIASES[text] ?? 'unknown';
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    // Values below 1e12 are Unix timestamps in seconds.
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function parseDuration(value: unknown): number | null {
+  const text = String(value ?? '').trim();
+  if (text === '') {
+    return 0;
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(Number(text));
+  }
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    return text
+      .split(':')
+      .reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return null;
+}
+
+function parseClientStatus(value: unknown): ClientStatus {
+  const text = String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]/g, '_');
+  if (['client', 'yes', 'true', '1'].includes(text)) {
+    return 'client';
+  }
+  if (['not_client', 'notclient', 'no', 'false', '0'].includes(text)) {
+    return 'not_client';
+  }
+  return 'undecided';
+}
+
+/**
+ * Turns one imported record into an `AnalyzedCall`. Besides the mapped
+ * fields, only valid classification and annotation fields are kept.
+ * @param record The record, keyed by import field.
+ * @returns The call, or null if the number, timestamp or duration is unusable.
+ */
+export function parseImportedCall(
+  record: Record<string, unknown>,
+): AnalyzedCall | null {
+  const number = String(record.number ?? '').trim();
+  const timestamp = parseTimestamp(record.timestamp);
+  const duration = parseDuration(record.duration);
+
+  if (!/\d/.test(number) || timestamp === null || duration === null) {
+    return null;
+  }
+  return {
+    ...readCallDetails(record),
+    type: parseCallType(record.type, duration),
+    number,
+    duration,
+    timestamp,
+  };
+}
+
+/**
+ * Reads the app's own JSON export, or a bare JSON array of calls.
+ * @param text The JSON text.
+ * @returns The calls and client decisions found in the file.
+ */
+export function readJsonImport(text: string): ImportCandidates {
+  const parsed = JSON.parse(text);
+  const records: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.calls)
+    ? parsed.calls
+    : [];
+  const candidates: ImportCandidates = {
+    calls: [],
+    classifications: {},
+    malformed: 0,
+  };
+
+  records.forEach(record => {
+    const call =
+      record && typeof record === 'object'
+        ? parseImportedCall(record as Record<string, unknown>)
+        : null;
+    if (call) {
+      candidates.calls.push(call);
+    } else {
+      candidates.malformed++;
+    }
+  });
+
+  if (parsed?.classifications && typeof parsed.classifications === 'object') {
+    Object.entries(parsed.classifications).forEach(([number, status]) => {
+      const clientStatus = parseClientStatus(status);
+      if (clientStatus !== 'undecided') {
+        candidates.classifications[number] = clientStatus;
+      }
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Reads a generic CSV file using a column mapping. Without a timestamp
+ * column the file is treated as a client list: only numbers and their
+ * client status are imported.
+ * @param text The CSV text, including its header row.
+ * @param mapping Which CSV column holds each import field.
+ * @returns The calls and client decisions found in the file.
+ */
+export function readCsvImport(
+  text: string,
+  mapping: CsvColumnMapping,
+): ImportCandidates {
+  const [headers = [], ...rows] = parseCsv(text);
+  const candidates: ImportCandidates = {
+    calls: [],
+    classifications: {},
+    malformed: 0,
+  };
+  const columnIndex = (field: ImportField) =>
+    mapping[field] === null ? -1 : headers.indexOf(mapping[field] as string);
+  const isClientList = columnIndex('timestamp') === -1;
+
+  rows.forEach(row => {
+    const record: Record<string, unknown> = {};
+    IMPORT_FIELDS.forEach(field => {
+      const index = columnIndex(field);
+      if (index !== -1 && row[index] !== undefined) {
+        record[field] = unescapeCsvValue(row[index]);
+      }
+    });
+
+    const number = String(record.number ?? '').trim();
+    const clientStatus = parseClientStatus(record.clientStatus);
+
+    if (isClientList) {
+      if (!/\d/.test(number) || clientStatus === 'undecided') {
+        candidates.malformed++;
+      } else {
+        candidates.classifications[number] = clientStatus;
+      }
+      return;
+    }
+
+    const call = parseImportedCall(record);
+    if (!call) {
+      candidates.malformed++;
+      return;
+    }
+    candidates.calls.push(call);
+    if (clientStatus !== 'undecided') {
+      candidates.classifications[call.number] = clientStatus;
+    }
+  });
+  return candidates;
+}
+
+/**
+ * Checks whether pasted import text is JSON rather than CSV.
+ * @param text The import text.
+ */
+export function isJsonImport(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[');
+}
+
+/**
+ * Merges imported calls and client decisions into the stored data. Calls are
+ * matched against the existing history (and each other) with the same
+ * number + timestamp identity used when adding calls, and the merged history
+ * is kept newest first.
+ * @param candidates The parsed import.
+ * @returns A summary of what was added, skipped and rejected.
+ */
+export async function applyImport(
+  candidates: ImportCandidates,
+): Promise<ImportReport> {
+  let added = 0;
+  let duplicates = 0;
+
+  if (candidates.calls.length > 0) {
+    await updateCallHistory(existing => {
+      const merged = [...existing];
+      candidates.calls.forEach(call => {
+        if (merged.some(existingCall => isSameCall(existingCall, call))) {
+          duplicates++;
+        } else {
+          merged.push(call);
+          added++;
+        }
+      });
+      return added > 0
+        ? merged.sort((a, b) => b.timestamp - a.timestamp)
+        : existing;
+    });
+  }
+
+  const { added: contactsAdded, conflicts: contactConflicts } =
+    await mergeContactClassifications(candidates.classifications);
+
+  return {
+    added,
+    duplicates,
+    malformed: candidates.malformed,
+    contactsAdded,
+    contactConflicts,
+  };
+}
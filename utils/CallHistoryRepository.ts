@@ -0,0 +1,262 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalyzedCall,
+  CallAnnotation,
+  CallClassification,
+  FollowUpStatus,
+} from '../hooks/types';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import {
+  CALL_DIRECTIONS,
+  CALL_OUTCOMES,
+  CALL_TYPES,
+  analyzeCallLogEntry,
+} from './CallLogAnalyzer';
+import { createSerialQueue } from './SerialQueue';
+
+export const CALL_HISTORY_STORAGE_KEY = '@CallDetectorApp:callHistory';
+
+/**
+ * Version of the stored call history format. Bump it and add a migration to
+ * `MIGRATIONS` whenever the shape of stored `AnalyzedCall` records changes.
+ *
+ * - 0: a bare JSON array of calls (written before the repository existed).
+ * - 1: `{ version, calls }` with every record sanitized to an `AnalyzedCall`.
+ */
+export const CALL_HISTORY_SCHEMA_VERSION = 1;
+
+type StoredCallHistory = {
+  version: number;
+  calls: AnalyzedCall[];
+};
+
+type CallHistoryListener = (calls: AnalyzedCall[]) => void;
+
+export const FOLLOW_UP_STATUSES: FollowUpStatus[] = ['none', 'pending', 'done'];
+
+function pickOneOf<T extends string>(
+  allowed: T[],
+  value: unknown,
+): T | undefined {
+  return (allowed as unknown[]).includes(value) ? (value as T) : undefined;
+}
+
+/**
+ * Reads the classification and annotation fields of a stored or imported
+ * record. Fields that are missing or hold an unexpected value are left out,
+ * as are fields the app does not know.
+ * @param record The raw record.
+ * @returns The valid fields.
+ */
+export function readCallDetails(
+  record: Record<string, unknown>,
+): Partial<CallClassification> & Partial<CallAnnotation> {
+  const details: Partial<CallClassification> & Partial<CallAnnotation> = {};
+  const direction = pickOneOf(CALL_DIRECTIONS, record.direction);
+  const outcome = pickOneOf(CALL_OUTCOMES, record.outcome);
+  const followUpStatus = pickOneOf(FOLLOW_UP_STATUSES, record.followUpStatus);
+  if (direction) details.direction = direction;
+  if (outcome) details.outcome = outcome;
+  if (followUpStatus) details.followUpStatus = followUpStatus;
+  if (typeof record.note === 'string') details.note = record.note;
+  if (Array.isArray(record.tags)) {
+    details.tags = record.tags.filter(
+      (tag): tag is string => typeof tag === 'string',
+    );
+  }
+  return details;
+}
+
+/**
+ * Converts a stored record of any earlier shape into an `AnalyzedCall`.
+ * Records written by older versions of the background handler may carry the
+ * raw numeric call-log type, or numbers serialized as strings.
+ * @param record The stored record.
+ * @returns The sanitized call, or null if the record cannot be recovered.
+ */
+function sanitizeCallRecord(record: unknown): AnalyzedCall | null {
+  if (!record || typeof record !== 'object') {
+    return null;
+  }
+  const fields = record as Record<string, unknown>;
+  const number =
+    typeof fields.number === 'number' ? String(fields.number) : fields.number;
+  const timestamp = Number(fields.timestamp);
+  const duration = Number(fields.duration ?? 0);
+
+  if (typeof number !== 'string' || !Number.isFinite(timestamp)) {
+    return null;
+  }
+
+  if (typeof fields.type === 'number') {
+    return analyzeCallLogEntry({
+      number,
+      type: fields.type,
+      duration: Number.isFinite(duration) ? duration : 0,
+      timestamp,
+    });
+  }
+
+  return {
+    ...readCallDetails(fields),
+    type: pickOneOf(CALL_TYPES, fields.type) ?? 'unknown',
+    number,
+    duration: Number.isFinite(duration) ? duration : 0,
+    timestamp,
+  };
+}
+
+const MIGRATIONS: Record<number, (data: unknown) => StoredCallHistory> = {
+  0: data => ({
+    version: 1,
+    calls: (Array.isArray(data) ? data : [])
+      .map(sanitizeCallRecord)
+      .filter((call): call is AnalyzedCall => call !== null),
+  }),
+};
+
+/**
+ * Brings stored call history data up to the current schema version.
+ * @param data The parsed value stored under `CALL_HISTORY_STORAGE_KEY`.
+ * @returns The migrated history.
+ */
+export function migrateCallHistory(data: unknown): StoredCallHistory {
+  const stored =
+    data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : null;
+  let version = stored ? Number(stored.version ?? 0) : 0;
+
+  if (version > CALL_HISTORY_SCHEMA_VERSION) {
+    console.warn(
+      `Call history was written by a newer schema (v${version}). Reading it as v${CALL_HISTORY_SCHEMA_VERSION}.`,
+    );
+    const calls = stored?.calls;
+    return {
+      version,
+      calls: Array.isArray(calls) ? calls : [],
+    };
+  }
+
+  // Version 0 is a bare array; anything else without a version is empty.
+  let current: unknown = version === 0 && !Array.isArray(data) ? [] : data;
+  while (version < CALL_HISTORY_SCHEMA_VERSION) {
+    const migrated = MIGRATIONS[version](current);
+    current = migrated;
+    version = migrated.version;
+  }
+  return current as StoredCallHistory;
+}
+
+/**
+ * Checks whether two calls refer to the same call log entry. Calls are
+ * identified by their timestamp and normalized number, so "098765 43210" and
+ * "+91 98765 43210" count as the same caller.
+ * @param a The first call.
+ * @param b The second call.
+ * @returns True if both calls are the same entry.
+ */
+export function isSameCall(a: AnalyzedCall, b: AnalyzedCall): boolean {
+  return (
+    a.timestamp === b.timestamp &&
+    getPhoneNumberKey(a.number) === getPhoneNumberKey(b.number)
+  );
+}
+
+/**
+ * Prepends a call to a history list unless it is already present.
+ * @param history The current call history, newest first.
+ * @param call The call to add.
+ * @returns The updated history, or the same array if the call was a duplicate.
+ */
+export function addCallToHistoryList(
+  history: AnalyzedCall[],
+  call: AnalyzedCall,
+): AnalyzedCall[] {
+  if (history.some(existingCall => isSameCall(existingCall, call))) {
+    return history;
+  }
+  return [call, ...history];
+}
+
+const listeners = new Set<CallHistoryListener>();
+const enqueue = createSerialQueue();
+
+async function readStoredHistory(): Promise<StoredCallHistory> {
+  const stored = await AsyncStorage.getItem(CALL_HISTORY_STORAGE_KEY);
+  return migrateCallHistory(stored ? JSON.parse(stored) : []);
+}
+
+/**
+ * Subscribes to changes of the stored call history.
+ * @param listener Called with the full history, newest first, after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToCallHistory(
+  listener: CallHistoryListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the call history, migrating older stored formats on the fly.
+ * Waits for queued writes so the result reflects all of them.
+ * @returns The stored calls, newest first.
+ */
+export function loadCallHistory(): Promise<AnalyzedCall[]> {
+  return enqueue(async () => {
+    await loadDefaultCountryCode();
+    return (await readStoredHistory()).calls;
+  });
+}
+
+/**
+ * Applies an update to the stored call history as one serialized
+ * read-modify-write operation and notifies subscribers.
+ * @param updater Receives the current calls and returns the new list. Returning
+ * the same array skips the write.
+ * @returns The resulting call history.
+ */
+export function updateCallHistory(
+  updater: (calls: AnalyzedCall[]) => AnalyzedCall[],
+): Promise<AnalyzedCall[]> {
+  return enqueue(async () => {
+    await loadDefaultCountryCode();
+    const stored = await readStoredHistory();
+    const calls = updater(stored.calls);
+
+    if (calls !== stored.calls) {
+      await AsyncStorage.setItem(
+        CALL_HISTORY_STORAGE_KEY,
+        JSON.stringify({ version: CALL_HISTORY_SCHEMA_VERSION, calls }),
+      );
+      listeners.forEach(listener => listener(calls));
+    }
+    return calls;
+  });
+}
+
+/**
+ * Adds a call to the stored history, skipping duplicates.
+ * @param call The call to add.
+ */
+export async function addCallToHistory(call: AnalyzedCall): Promise<void> {
+  try {
+    await updateCallHistory(calls => addCallToHistoryList(calls, call));
+  } catch (error) {
+    console.error('Failed to add call to history:', error);
+  }
+}
+
+/**
+ * Removes every call from the stored history.
+ */
+export async function clearCallHistory(): Promise<void> {
+  await enqueue(async () => {
+    await AsyncStorage.removeItem(CALL_HISTORY_STORAGE_KEY);
+    listeners.forEach(listener => listener([]));
+  });
+}
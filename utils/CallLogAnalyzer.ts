@@ -1,37 +1,197 @@
-import { AnalyzedCall, CallLogEntry } from '../hooks/types';
+import {
+  AnalyzedCall,
+  CallClassification,
+  CallClassificationThresholds,
+  CallDirection,
+  CallLogEntry,
+  CallOutcome,
+  CallType,
+} from '../hooks/types';
+
+export const CALL_TYPES: CallType[] = [
+  'incoming',
+  'outgoing',
+  'missed',
+  'rejected',
+  'unknown',
+];
+
+export const CALL_DIRECTIONS: CallDirection[] = [
+  'incoming',
+  'outgoing',
+  'unknown',
+];
+
+export const CALL_OUTCOMES: CallOutcome[] = [
+  'answered',
+  'very_short',
+  'unanswered',
+  'missed',
+  'voicemail',
+  'rejected',
+  'blocked',
+  'answered_elsewhere',
+  'unknown',
+];
+
+export const DEFAULT_CLASSIFICATION_THRESHOLDS: CallClassificationThresholds = {
+  veryShortCallSeconds: 5,
+  unansweredOutgoingSeconds: 0,
+};
+
+// android.provider.CallLog.Calls types.
+const INCOMING_TYPE = 1;
+const OUTGOING_TYPE = 2;
+const MISSED_TYPE = 3;
+const VOICEMAIL_TYPE = 4;
+const REJECTED_TYPE = 5;
+const BLOCKED_TYPE = 6;
+const ANSWERED_EXTERNALLY_TYPE = 7;
 
 /**
- * Analyzes a call log entry and returns a structured representation.
- * Determines the type of call based on the entry type and duration.
- *
- * @param {CallLogEntry} entry - The raw call log entry data.
- * @returns {AnalyzedCall | null} An object containing the analyzed call data,
- * including type, number, duration, and timestamp, or null if analysis fails.
+ * The call log type each call type is analyzed from, used to classify calls
+ * stored before direction and outcome were recorded.
  */
-export function analyzeCallLogEntry(entry: CallLogEntry): AnalyzedCall | null {
-  let type: AnalyzedCall['type'] = 'unknown';
+const CALL_LOG_TYPES: Record<CallType, number> = {
+  incoming: INCOMING_TYPE,
+  outgoing: OUTGOING_TYPE,
+  missed: MISSED_TYPE,
+  rejected: REJECTED_TYPE,
+  unknown: 0,
+};
 
+/**
+ * Works out the direction, outcome and call type of a call log entry.
+ * Voicemail counts as a missed call, a call answered on another device as
+ * an incoming call and a blocked call as unknown, so blocked callers are
+ * never prompted for. Incoming calls without talk time keep the 'missed'
+ * type they always had, with a 'very_short' outcome even when the very short
+ * threshold is 0.
+ * @param entry The raw call log entry.
+ * @param thresholds The limits for very short and unanswered calls.
+ * @returns The call type, direction and outcome.
+ */
+export function classifyCallLogEntry(
+  entry: CallLogEntry,
+  thresholds: CallClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS,
+): CallClassification & { type: CallType } {
+  const isVeryShort = entry.duration < thresholds.veryShortCallSeconds;
   switch (entry.type) {
-    case 1:
-      type = entry.duration > 0 ? 'incoming' : 'missed';
-      break;
-    case 2:
-      type = 'outgoing';
-      break;
-    case 3:
-      type = 'missed';
-      break;
-    case 5:
-      type = 'rejected';
-      break;
+    case INCOMING_TYPE:
+      return {
+        type: entry.duration > 0 ? 'incoming' : 'missed',
+        direction: 'incoming',
+        outcome:
+          entry.duration === 0 || isVeryShort ? 'very_short' : 'answered',
+      };
+    case OUTGOING_TYPE: {
+      let outcome: CallOutcome = 'answered';
+      if (entry.duration <= thresholds.unansweredOutgoingSeconds) {
+        outcome = 'unanswered';
+      } else if (isVeryShort) {
+        outcome = 'very_short';
+      }
+      return { type: 'outgoing', direction: 'outgoing', outcome };
+    }
+    case MISSED_TYPE:
+      return { type: 'missed', direction: 'incoming', outcome: 'missed' };
+    case VOICEMAIL_TYPE:
+      return { type: 'missed', direction: 'incoming', outcome: 'voicemail' };
+    case REJECTED_TYPE:
+      return { type: 'rejected', direction: 'incoming', outcome: 'rejected' };
+    case BLOCKED_TYPE:
+      return { type: 'unknown', direction: 'incoming', outcome: 'blocked' };
+    case ANSWERED_EXTERNALLY_TYPE:
+      return {
+        type: 'incoming',
+        direction: 'incoming',
+        outcome: 'answered_elsewhere',
+      };
     default:
-      type = 'unknown';
+      return { type: 'unknown', direction: 'unknown', outcome: 'unknown' };
   }
+}
 
+/**
+ * Analyzes a call log entry and returns a structured representation.
+ * Determines the type, direction and outcome of the call from the entry
+ * type and duration.
+ *
+ * @param {CallLogEntry} entry - The raw call log entry data.
+ * @param {CallClassificationThresholds} [thresholds] - The limits for very
+ * short and unanswered calls; the defaults when omitted.
+ * @returns {AnalyzedCall | null} An object containing the analyzed call data,
+ * including type, number, duration, and timestamp, or null if analysis fails.
+ */
+export function analyzeCallLogEntry(
+  entry: CallLogEntry,
+  thresholds: CallClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS,
+): AnalyzedCall | null {
+  const { type, direction, outcome } = classifyCallLogEntry(entry, thresholds);
   return {
     type,
     number: entry.number,
     duration: entry.duration,
     timestamp: entry.timestamp,
+    direction,
+    outcome,
   };
 }
+
+/**
+ * Returns the direction and outcome of a call. Calls stored before they were
+ * recorded are classified from their type and duration.
+ * @param call The analyzed call.
+ * @returns The direction and outcome.
+ */
+export function getCallClassification(call: AnalyzedCall): CallClassification {
+  if (call.direction && call.outcome) {
+    return { direction: call.direction, outcome: call.outcome };
+  }
+  const { direction, outcome } = classifyCallLogEntry({
+    number: call.number,
+    type: CALL_LOG_TYPES[call.type] ?? 0,
+    duration: call.duration,
+    timestamp: call.timestamp,
+  });
+  return { direction, outcome };
+}
+
+/**
+ * Checks that a value received from the native module has the shape of a
+ * call log entry.
+ * @param entry The received value.
+ */
+export function isCallLogEntry(entry: unknown): entry is CallLogEntry {
+  if (!entry || typeof entry !== 'object') {
+    return false;
+  }
+  const { number, type, duration, timestamp } = entry as Record<
+    string,
+    unknown
+  >;
+  return (
+    typeof number === 'string' &&
+    typeof type === 'number' &&
+    typeof duration === 'number' &&
+    typeof timestamp === 'number'
+  );
+}
+
+/**
+ * Analyzes a batch of call log entries in the order the calls happened.
+ * Malformed entries are dropped.
+ * @param entries The raw entries, in any order.
+ * @param thresholds The limits for very short and unanswered calls.
+ * @returns The analyzed calls, oldest first.
+ */
+export function analyzeCallLogBatch(
+  entries: unknown[],
+  thresholds: CallClassificationThresholds = DEFAULT_CLASSIFICATION_THRESHOLDS,
+): AnalyzedCall[] {
+  return entries
+    .filter(isCallLogEntry)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(entry => analyzeCallLogEntry(entry, thresholds))
+    .filter((call): call is AnalyzedCall => call !== null);
+}
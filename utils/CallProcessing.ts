@@ -0,0 +1,45 @@
+import { AnalyzedCall } from '../hooks/types';
+import { getContactClassification } from './ContactClassification';
+import { autoSendMessage, decideCallAction } from './CallRules';
+import { deliverClientCheck } from './BusinessHours';
+import { handleCallForReminders } from './CallbackReminders';
+import { markCallProcessed } from './CallBackfill';
+import { recordLeadCall } from './LeadPipeline';
+
+/**
+ * Runs a detected call through the app: call-back reminders first, then the
+ * client check, unless the number is a known non-client or a rule skips or
+ * auto-sends for the call. Calls with known clients also update their lead
+ * stage. Used for live calls and for reviewed backfilled
+ * calls alike.
+ * @param call The analyzed call.
+ */
+export async function processDetectedCall(call: AnalyzedCall): Promise<void> {
+  await markCallProcessed(call.timestamp);
+  await handleCallForReminders(call);
+  const clientStatus = await getContactClassification(call.number);
+  if (clientStatus === 'not_client') {
+    console.log(`Skipping client check for known non-client: ${call.number}`);
+    return;
+  }
+  if (clientStatus === 'client') {
+    await recordLeadCall(call);
+  }
+  const decision = await decideCallAction(call);
+  switch (decision.action) {
+    case 'skip':
+      console.log(
+        `Skipping client check (rule "${decision.rule?.name}"): ${call.number}`,
+      );
+      break;
+    case 'auto_send':
+      await autoSendMessage(call, decision.templateId);
+      break;
+    default: {
+      const delivery = await deliverClientCheck(call);
+      if (delivery !== 'prompted') {
+        console.log(`Outside business hours (${delivery}): ${call.number}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalyzedCall,
+  CallRule,
+  CallRuleConditions,
+  RuleAction,
+} from '../hooks/types';
+import { getContactClassification } from './ContactClassification';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import { addCallToHistory } from './CallHistoryRepository';
+import { buildMessageForCall } from './MessageTemplates';
+import { sendMessage } from './MessagingChannels';
+import { getCallClassification } from './CallLogAnalyzer';
+
+export const CALL_RULES_STORAGE_KEY = '@CallDetectorApp:callRules';
+
+export const RULE_ACTIONS: RuleAction[] = ['prompt', 'skip', 'auto_send'];
+
+/**
+ * What happens to a call that no enabled rule matches.
+ */
+export const FALLBACK_RULE_ACTION: RuleAction = 'prompt';
+
+export const EMPTY_RULE_CONDITIONS: CallRuleConditions = {
+  types: [],
+  outcomes: [],
+  minDuration: null,
+  maxDuration: null,
+  numberPrefix: '',
+  knownNumber: 'any',
+};
+
+export const DEFAULT_CALL_RULES: CallRule[] = [
+  {
+    id: 'default_skip_outgoing',
+    name: 'Skip calls I placed',
+    enabled: true,
+    conditions: { ...EMPTY_RULE_CONDITIONS, types: ['outgoing'] },
+    action: 'skip',
+    templateId: null,
+  },
+  {
+    id: 'default_skip_short',
+    name: 'Skip wrong numbers',
+    enabled: true,
+    conditions: {
+      ...EMPTY_RULE_CONDITIONS,
+      types: ['incoming'],
+      maxDuration: 5,
+    },
+    action: 'skip',
+    templateId: null,
+  },
+];
+
+export type RuleDecision = {
+  action: RuleAction;
+  rule: CallRule | null;
+  templateId: string | null;
+};
+
+function matchesNumberPrefix(number: string, prefix: string): boolean {
+  const cleanPrefix = prefix.replace(/[^\d+]/g, '');
+  if (!cleanPrefix) {
+    return true;
+  }
+  return [number.replace(/[^\d+]/g, ''), getPhoneNumberKey(number)].some(
+    candidate => candidate.startsWith(cleanPrefix),
+  );
+}
+
+/**
+ * Checks whether a call meets every condition of a rule. Empty conditions
+ * (no types or outcomes, no duration bounds, no prefix, 'any' number) match
+ * every call.
+ * @param call The analyzed call.
+ * @param conditions The rule's conditions.
+ * @param isKnownNumber Whether the caller already has a client decision.
+ */
+export function matchesRuleConditions(
+  call: AnalyzedCall,
+  conditions: CallRuleConditions,
+  isKnownNumber: boolean,
+): boolean {
+  const {
+    types,
+    outcomes,
+    minDuration,
+    maxDuration,
+    numberPrefix,
+    knownNumber,
+  } = conditions;
+  return (
+    (types.length === 0 || types.includes(call.type)) &&
+    (outcomes.length === 0 ||
+      outcomes.includes(getCallClassification(call).outcome)) &&
+    (minDuration === null || call.duration >= minDuration) &&
+    (maxDuration === null || call.duration <= maxDuration) &&
+    matchesNumberPrefix(call.number, numberPrefix) &&
+    (knownNumber === 'any' || (knownNumber === 'known') === isKnownNumber)
+  );
+}
+
+/**
+ * Evaluates the rules in order and returns the decision of the first enabled
+ * rule that matches the call.
+ * @param call The analyzed call.
+ * @param rules The ordered rule set.
+ * @param isKnownNumber Whether the caller already has a client decision.
+ * @returns The decision, or the fallback 'prompt' decision when no rule matches.
+ */
+export function evaluateCallRules(
+  call: AnalyzedCall,
+  rules: CallRule[],
+  isKnownNumber: boolean,
+): RuleDecision {
+  const rule = rules.find(
+    candidate =>
+      candidate.enabled &&
+      matchesRuleConditions(call, candidate.conditions, isKnownNumber),
+  );
+  if (!rule) {
+    return { action: FALLBACK_RULE_ACTION, rule: null, templateId: null };
+  }
+  return {
+    action: rule.action,
+    rule,
+    templateId: rule.action === 'auto_send' ? rule.templateId : null,
+  };
+}
+
+/**
+ * Loads the rule set from AsyncStorage, falling back to the built-in
+ * defaults when nothing has been saved yet.
+ * @returns The ordered rule set.
+ */
+export async function loadCallRules(): Promise<CallRule[]> {
+  try {
+    const stored = await AsyncStorage.getItem(CALL_RULES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed.map((rule: CallRule) => ({
+          ...rule,
+          conditions: { ...EMPTY_RULE_CONDITIONS, ...rule.conditions },
+        }));
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load call rules from AsyncStorage:', error);
+  }
+  return DEFAULT_CALL_RULES;
+}
+
+/**
+ * Persists the rule set to AsyncStorage.
+ * @param rules The ordered rule set to save.
+ */
+export async function saveCallRules(rules: CallRule[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CALL_RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Failed to save call rules to AsyncStorage:', error);
+  }
+}
+
+/**
+ * Decides what to do with a detected call using the stored rule set and
+ * the stored client decision for its number.
+ * @param call The analyzed call.
+ * @returns The decision of the first matching rule.
+ */
+export async function decideCallAction(
+  call: AnalyzedCall,
+): Promise<RuleDecision> {
+  await loadDefaultCountryCode();
+  const [rules, clientStatus] = await Promise.all([
+    loadCallRules(),
+    getContactClassification(call.number),
+  ]);
+  return evaluateCallRules(call, rules, clientStatus !== 'undecided');
+}
+
+/**
+ * Sends the message for a call without asking first: the call is stored in
+ * the history and the contact's messaging channel is opened with the rule's
+ * template.
+ * @param call The analyzed call.
+ * @param templateId The template chosen by the rule.
+ */
+export async function autoSendMessage(
+  call: AnalyzedCall,
+  templateId: string | null,
+): Promise<void> {
+  await addCallToHistory(call);
+  await sendMessage(call, await buildMessageForCall(call, templateId));
+}
@@ -0,0 +1,182 @@
+import { AnalyzedCall, CallType } from '../hooks/types';
+import { CALL_TYPES } from './CallLogAnalyzer';
+import { getPhoneNumberKey } from './PhoneNumber';
+
+export type StatisticsPeriod = 'day' | 'week';
+
+export type PeriodCallCounts = {
+  periodStart: number;
+  total: number;
+  byType: Record<CallType, number>;
+};
+
+export type TalkTimeStats = {
+  totalSeconds: number;
+  averageSeconds: number;
+  answeredCalls: number;
+};
+
+export type HourCount = {
+  hour: number;
+  count: number;
+};
+
+export type NumberCount = {
+  number: string;
+  count: number;
+};
+
+export type CallStatistics = {
+  totalCalls: number;
+  missedCallRate: number;
+  talkTime: TalkTimeStats;
+  perDay: PeriodCallCounts[];
+  perWeek: PeriodCallCounts[];
+  busiestHours: HourCount[];
+  topNumbers: NumberCount[];
+};
+
+function emptyTypeCounts(): Record<CallType, number> {
+  return CALL_TYPES.reduce(
+    (counts, type) => ({ ...counts, [type]: 0 }),
+    {} as Record<CallType, number>,
+  );
+}
+
+/**
+ * Returns the local-time start of the day or week (starting Monday) that a
+ * timestamp falls in.
+ * @param timestamp The timestamp in milliseconds.
+ * @param period The period to round down to.
+ */
+export function getPeriodStart(
+  timestamp: number,
+  period: StatisticsPeriod,
+): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week') {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    date.setDate(date.getDate() - daysSinceMonday);
+  }
+  return date.getTime();
+}
+
+/**
+ * Counts calls per day or week, broken down by call type.
+ * @param calls The call history.
+ * @param period Whether to group by day or by week.
+ * @returns One entry per period that has calls, oldest first.
+ */
+export function countCallsByPeriod(
+  calls: AnalyzedCall[],
+  period: StatisticsPeriod,
+): PeriodCallCounts[] {
+  const periods = new Map<number, PeriodCallCounts>();
+  calls.forEach(call => {
+    const periodStart = getPeriodStart(call.timestamp, period);
+    const entry = periods.get(periodStart) ?? {
+      periodStart,
+      total: 0,
+      byType: emptyTypeCounts(),
+    };
+    entry.total++;
+    entry.byType[call.type] = (entry.byType[call.type] ?? 0) + 1;
+    periods.set(periodStart, entry);
+  });
+  return Array.from(periods.values()).sort(
+    (a, b) => a.periodStart - b.periodStart,
+  );
+}
+
+/**
+ * Share of inbound calls (incoming, missed and rejected) that were missed.
+ * @param calls The call history.
+ * @returns A rate between 0 and 1, or 0 when there are no inbound calls.
+ */
+export function getMissedCallRate(calls: AnalyzedCall[]): number {
+  const inbound = calls.filter(call =>
+    ['incoming', 'missed', 'rejected'].includes(call.type),
+  );
+  if (inbound.length === 0) {
+    return 0;
+  }
+  return inbound.filter(call => call.type === 'missed').length / inbound.length;
+}
+
+/**
+ * Total and average talk time over the calls that were actually connected
+ * (duration above zero).
+ * @param calls The call history.
+ */
+export function getTalkTimeStats(calls: AnalyzedCall[]): TalkTimeStats {
+  const answered = calls.filter(call => call.duration > 0);
+  const totalSeconds = answered.reduce((sum, call) => sum + call.duration, 0);
+  return {
+    totalSeconds,
+    averageSeconds:
+      answered.length > 0 ? Math.round(totalSeconds / answered.length) : 0,
+    answeredCalls: answered.length,
+  };
+}
+
+/**
+ * Hours of the day (local time, 0-23) with the most calls.
+ * @param calls The call history.
+ * @param limit The maximum number of hours to return.
+ * @returns The busiest hours, most calls first.
+ */
+export function getBusiestHours(
+  calls: AnalyzedCall[],
+  limit: number = 3,
+): HourCount[] {
+  const counts = new Array<number>(24).fill(0);
+  calls.forEach(call => {
+    counts[new Date(call.timestamp).getHours()]++;
+  });
+  return counts
+    .map((count, hour) => ({ hour, count }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count || a.hour - b.hour)
+    .slice(0, limit);
+}
+
+/**
+ * Numbers that appear more than once in the history. Different formats of
+ * the same number are counted together.
+ * @param calls The call history.
+ * @param limit The maximum number of numbers to return.
+ * @returns The repeat numbers, most calls first.
+ */
+export function getTopRepeatNumbers(
+  calls: AnalyzedCall[],
+  limit: number = 5,
+): NumberCount[] {
+  const counts = new Map<string, NumberCount>();
+  calls.forEach(call => {
+    const key = getPhoneNumberKey(call.number);
+    const entry = counts.get(key) ?? { number: key, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return Array.from(counts.values())
+    .filter(entry => entry.count > 1)
+    .sort((a, b) => b.count - a.count || a.number.localeCompare(b.number))
+    .slice(0, limit);
+}
+
+/**
+ * Builds every statistic shown on the dashboard from the call history.
+ * @param calls The call history.
+ */
+export function buildCallStatistics(calls: AnalyzedCall[]): CallStatistics {
+  return {
+    totalCalls: calls.length,
+    missedCallRate: getMissedCallRate(calls),
+    talkTime: getTalkTimeStats(calls),
+    perDay: countCallsByPeriod(calls, 'day'),
+    perWeek: countCallsByPeriod(calls, 'week'),
+    busiestHours: getBusiestHours(calls),
+    topNumbers: getTopRepeatNumbers(calls),
+  };
+}
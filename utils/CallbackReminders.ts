@@ -0,0 +1,118 @@
+import notifee from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, CallbackReminderSettings } from '../hooks/types';
+import {
+  getCallbackReminderId,
+  needsCallback,
+  scheduleCallbackReminderNotification,
+} from './Notification';
+import { getContactClassification } from './ContactClassification';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+
+export const CALLBACK_REMINDER_SETTINGS_STORAGE_KEY =
+  '@CallDetectorApp:callbackReminderSettings';
+
+export const REMINDER_DELAY_OPTIONS = [15, 30, 60, 120];
+
+export const DEFAULT_CALLBACK_REMINDER_SETTINGS: CallbackReminderSettings = {
+  autoRemind: true,
+  delayMinutes: 30,
+};
+
+/**
+ * Loads the call-back reminder settings from AsyncStorage.
+ * @returns The stored settings, or the defaults.
+ */
+export async function loadCallbackReminderSettings(): Promise<CallbackReminderSettings> {
+  try {
+    const stored = await AsyncStorage.getItem(
+      CALLBACK_REMINDER_SETTINGS_STORAGE_KEY,
+    );
+    if (stored) {
+      return { ...DEFAULT_CALLBACK_REMINDER_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load call-back reminder settings:', error);
+  }
+  return DEFAULT_CALLBACK_REMINDER_SETTINGS;
+}
+
+/**
+ * Persists the call-back reminder settings to AsyncStorage.
+ * @param settings The settings to save.
+ */
+export async function saveCallbackReminderSettings(
+  settings: CallbackReminderSettings,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      CALLBACK_REMINDER_SETTINGS_STORAGE_KEY,
+      JSON.stringify(settings),
+    );
+  } catch (error) {
+    console.error('Failed to save call-back reminder settings:', error);
+  }
+}
+
+/**
+ * Schedules a reminder to return a call after the configured delay. An
+ * earlier reminder for the same number is replaced.
+ * @param call The call to return.
+ * @param now The current time.
+ * @returns The ID of the scheduled reminder.
+ */
+export async function remindToCallBack(
+  call: AnalyzedCall,
+  now: number = Date.now(),
+): Promise<string> {
+  await loadDefaultCountryCode();
+  const { delayMinutes } = await loadCallbackReminderSettings();
+  return scheduleCallbackReminderNotification(
+    call,
+    getPhoneNumberKey(call.number),
+    now + delayMinutes * 60 * 1000,
+  );
+}
+
+/**
+ * Cancels the pending or shown call-back reminder for a number.
+ * @param number The phone number, in any format.
+ */
+export async function cancelCallbackReminder(number: string): Promise<void> {
+  await loadDefaultCountryCode();
+  await notifee.cancelNotification(
+    getCallbackReminderId(getPhoneNumberKey(number)),
+  );
+}
+
+/**
+ * Applies the reminder policy to a newly detected call. An outgoing call
+ * returns the number, so its reminder is cancelled. A missed or rejected
+ * call gets an automatic reminder when that is turned on, unless the number
+ * is a known non-client.
+ * @param call The detected call.
+ * @param now The current time.
+ */
+export async function handleCallForReminders(
+  call: AnalyzedCall,
+  now: number = Date.now(),
+): Promise<void> {
+  try {
+    if (call.type === 'outgoing') {
+      await cancelCallbackReminder(call.number);
+      return;
+    }
+    if (!needsCallback(call)) {
+      return;
+    }
+    const { autoRemind } = await loadCallbackReminderSettings();
+    if (
+      autoRemind &&
+      (await getContactClassification(call.number)) !== 'not_client'
+    ) {
+      await remindToCallBack(call, now);
+    }
+  } catch (error) {
+    console.error('Failed to update call-back reminders:', error);
+  }
+}
@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ContactChannel, ContactChannels } from '../hooks/types';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import { createSerialQueue } from './SerialQueue';
+
+export const CONTACT_CHANNELS_STORAGE_KEY = '@CallDetectorApp:contactChannels';
+
+export const EMPTY_CONTACT_CHANNEL: ContactChannel = {
+  channel: null,
+  email: '',
+};
+
+type ContactChannelsListener = (channels: ContactChannels) => void;
+
+const listeners = new Set<ContactChannelsListener>();
+
+const enqueue = createSerialQueue();
+
+async function readStoredChannels(): Promise<ContactChannels> {
+  const stored = await AsyncStorage.getItem(CONTACT_CHANNELS_STORAGE_KEY);
+  const parsed = stored ? JSON.parse(stored) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : {};
+}
+
+/**
+ * Subscribes to changes of the per-contact messaging preferences, including
+ * changes made by the notification action handlers.
+ * @param listener Called with all preferences after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToContactChannels(
+  listener: ContactChannelsListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the per-contact messaging preferences from AsyncStorage.
+ * @returns A map of normalized phone number to preference.
+ */
+export async function loadContactChannels(): Promise<ContactChannels> {
+  try {
+    return await enqueue(readStoredChannels);
+  } catch (error) {
+    console.error('Failed to load contact channels:', error);
+    return {};
+  }
+}
+
+/**
+ * Returns the messaging preference for a number.
+ * @param number The phone number, in any format.
+ * @returns The preference, or an empty preference if none was set.
+ */
+export async function getContactChannel(
+  number: string,
+): Promise<ContactChannel> {
+  await loadDefaultCountryCode();
+  const channels = await loadContactChannels();
+  return channels[getPhoneNumberKey(number)] ?? EMPTY_CONTACT_CHANNEL;
+}
+
+/**
+ * Updates the messaging preference for a number. A preference with no
+ * channel and no email address is removed.
+ * @param number The phone number, in any format.
+ * @param changes The fields to change.
+ */
+export async function setContactChannel(
+  number: string,
+  changes: Partial<ContactChannel>,
+): Promise<void> {
+  try {
+    await enqueue(async () => {
+      await loadDefaultCountryCode();
+      const key = getPhoneNumberKey(number);
+      const channels = { ...(await readStoredChannels()) };
+      const updated = {
+        ...EMPTY_CONTACT_CHANNEL,
+        ...channels[key],
+        ...changes,
+      };
+      if (updated.channel === null && !updated.email) {
+        delete channels[key];
+      } else {
+        channels[key] = updated;
+      }
+      await AsyncStorage.setItem(
+        CONTACT_CHANNELS_STORAGE_KEY,
+        JSON.stringify(channels),
+      );
+      listeners.forEach(listener => listener(channels));
+    });
+  } catch (error) {
+    console.error('Failed to save contact channel:', error);
+  }
+}
@@ -0,0 +1,135 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ClientStatus, ContactClassifications } from '../hooks/types';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import { createSerialQueue } from './SerialQueue';
+
+export const CONTACT_CLASSIFICATIONS_STORAGE_KEY =
+  '@CallDetectorApp:contactClassifications';
+
+type ClassificationListener = (classifications: ContactClassifications) => void;
+
+const listeners = new Set<ClassificationListener>();
+
+const enqueue = createSerialQueue();
+
+async function readStoredClassifications(): Promise<ContactClassifications> {
+  const stored = await AsyncStorage.getItem(
+    CONTACT_CLASSIFICATIONS_STORAGE_KEY,
+  );
+  const parsed = stored ? JSON.parse(stored) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : {};
+}
+
+/**
+ * Subscribes to changes of the stored contact classifications, including
+ * changes made by the notification action handlers.
+ * @param listener Called with the full classification map after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToClassificationChanges(
+  listener: ClassificationListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the per-number client classifications from AsyncStorage.
+ * @returns A map of phone number to client status.
+ */
+export async function loadContactClassifications(): Promise<ContactClassifications> {
+  try {
+    return await enqueue(readStoredClassifications);
+  } catch (error) {
+    console.error('Failed to load contact classifications:', error);
+    return {};
+  }
+}
+
+/**
+ * Returns the stored client status for a number. Numbers are looked up by
+ * their normalized form. Numbers that were never classified are 'undecided'.
+ * @param number The phone number to look up.
+ * @returns The client status of the number.
+ */
+export async function getContactClassification(
+  number: string,
+): Promise<ClientStatus> {
+  await loadDefaultCountryCode();
+  const classifications = await loadContactClassifications();
+  return classifications[getPhoneNumberKey(number)] ?? 'undecided';
+}
+
+/**
+ * Stores the client status for a number under its normalized form. Setting a number back to
+ * 'undecided' removes it from the list, so it will be prompted again.
+ * @param number The phone number to classify.
+ * @param status The new client status.
+ */
+export async function setContactClassification(
+  number: string,
+  status: ClientStatus,
+): Promise<void> {
+  try {
+    await enqueue(async () => {
+      await loadDefaultCountryCode();
+      const key = getPhoneNumberKey(number);
+      const classifications = { ...(await readStoredClassifications()) };
+      if (status === 'undecided') {
+        delete classifications[key];
+      } else {
+        classifications[key] = status;
+      }
+      await AsyncStorage.setItem(
+        CONTACT_CLASSIFICATIONS_STORAGE_KEY,
+        JSON.stringify(classifications),
+      );
+      listeners.forEach(listener => listener(classifications));
+    });
+  } catch (error) {
+    console.error('Failed to save contact classification:', error);
+  }
+}
+
+/**
+ * Merges imported classifications into the stored list. Numbers that are not
+ * classified yet are added; numbers that already have a different decision
+ * keep it and are counted as conflicts.
+ * @param imported The imported classifications, keyed by phone number.
+ * @returns How many numbers were added and how many conflicted.
+ */
+export async function mergeContactClassifications(
+  imported: ContactClassifications,
+): Promise<{ added: number; conflicts: number }> {
+  return enqueue(async () => {
+    await loadDefaultCountryCode();
+    const classifications = { ...(await readStoredClassifications()) };
+    let added = 0;
+    let conflicts = 0;
+
+    Object.entries(imported).forEach(([number, status]) => {
+      if (status === 'undecided') return;
+      const key = getPhoneNumberKey(number);
+      const existing = classifications[key];
+      if (!existing) {
+        classifications[key] = status;
+        added++;
+      } else if (existing !== status) {
+        conflicts++;
+      }
+    });
+
+    if (added > 0) {
+      await AsyncStorage.setItem(
+        CONTACT_CLASSIFICATIONS_STORAGE_KEY,
+        JSON.stringify(classifications),
+      );
+      listeners.forEach(listener => listener(classifications));
+    }
+    return { added, conflicts };
+  });
+}
@@ -0,0 +1,480 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalyzedCall,
+  CrmSyncEvent,
+  CrmSyncJob,
+  CrmSyncStatus,
+  CrmWebhookConfig,
+  OutboxEntry,
+} from '../hooks/types';
+import { getCallClassification } from './CallLogAnalyzer';
+import { isSameCall } from './CallHistoryRepository';
+import { describeError } from './Outbox';
+import { createSerialQueue } from './SerialQueue';
+
+export const CRM_WEBHOOK_STORAGE_KEY = '@CallDetectorApp:crmWebhook';
+
+export const CRM_SYNC_QUEUE_STORAGE_KEY = '@CallDetectorApp:crmSyncQueue';
+
+export const CRM_PLACEHOLDERS = [
+  '{event}',
+  '{number}',
+  '{callType}',
+  '{direction}',
+  '{outcome}',
+  '{duration}',
+  '{calledAt}',
+  '{note}',
+  '{channel}',
+  '{message}',
+  '{sentAt}',
+];
+
+export const DEFAULT_CRM_BODY_TEMPLATE = `{
+  "event": {event},
+  "phoneNumber": {number},
+  "callType": {callType},
+  "outcome": {outcome},
+  "durationSeconds": {duration},
+  "calledAt": {calledAt},
+  "channel": {channel},
+  "message": {message}
+}`;
+
+export const DEFAULT_CRM_WEBHOOK_CONFIG: CrmWebhookConfig = {
+  enabled: false,
+  url: '',
+  headers: {},
+  bodyTemplate: DEFAULT_CRM_BODY_TEMPLATE,
+};
+
+/** Attempts made before a job is marked as failed. */
+export const CRM_MAX_ATTEMPTS = 8;
+
+/** The delay before the first retry; it doubles with every failed attempt. */
+export const CRM_RETRY_BASE_DELAY_MS = 30 * 1000;
+
+export const CRM_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export const CRM_REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * How many jobs are kept. Only synced jobs are dropped, oldest first, so
+ * nothing that still has to reach the CRM is lost.
+ */
+export const CRM_SYNC_QUEUE_LIMIT = 500;
+
+type CrmSyncQueueListener = (jobs: CrmSyncJob[]) => void;
+
+const listeners = new Set<CrmSyncQueueListener>();
+
+const enqueue = createSerialQueue();
+
+const enqueueFlush = createSerialQueue();
+
+async function readStoredQueue(): Promise<CrmSyncJob[]> {
+  const stored = await AsyncStorage.getItem(CRM_SYNC_QUEUE_STORAGE_KEY);
+  const parsed = stored ? JSON.parse(stored) : [];
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+function isUnsynced(job: CrmSyncJob): boolean {
+  return job.status !== 'synced';
+}
+
+function pruneQueue(jobs: CrmSyncJob[]): CrmSyncJob[] {
+  let room = CRM_SYNC_QUEUE_LIMIT - jobs.filter(isUnsynced).length;
+  return jobs.filter(job => isUnsynced(job) || room-- > 0);
+}
+
+/**
+ * Applies an update to the stored queue as one serialized read-modify-write
+ * operation and notifies subscribers.
+ * @param updater Receives the jobs, newest first, and returns the new list.
+ * @returns The resulting jobs.
+ */
+function updateQueue(
+  updater: (jobs: CrmSyncJob[]) => CrmSyncJob[],
+): Promise<CrmSyncJob[]> {
+  return enqueue(async () => {
+    const jobs = pruneQueue(updater(await readStoredQueue()));
+    await AsyncStorage.setItem(
+      CRM_SYNC_QUEUE_STORAGE_KEY,
+      JSON.stringify(jobs),
+    );
+    listeners.forEach(listener => listener(jobs));
+    return jobs;
+  });
+}
+
+/**
+ * Loads the webhook settings.
+ * @returns The stored settings, or the defaults with the webhook disabled.
+ */
+export async function loadCrmWebhookConfig(): Promise<CrmWebhookConfig> {
+  try {
+    const stored = await AsyncStorage.getItem(CRM_WEBHOOK_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        enabled: parsed?.enabled === true,
+        url: typeof parsed?.url === 'string' ? parsed.url : '',
+        headers:
+          parsed?.headers && typeof parsed.headers === 'object'
+            ? parsed.headers
+            : {},
+        bodyTemplate:
+          typeof parsed?.bodyTemplate === 'string'
+            ? parsed.bodyTemplate
+            : DEFAULT_CRM_BODY_TEMPLATE,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load CRM webhook settings:', error);
+  }
+  return DEFAULT_CRM_WEBHOOK_CONFIG;
+}
+
+/**
+ * Persists the webhook settings. Jobs already queued are sent with the new
+ * settings.
+ * @param config The settings to save.
+ */
+export async function saveCrmWebhookConfig(
+  config: CrmWebhookConfig,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(CRM_WEBHOOK_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save CRM webhook settings:', error);
+  }
+}
+
+/**
+ * Parses headers entered one per line as "Name: value". Lines without a
+ * name are ignored.
+ * @param text The entered headers.
+ * @returns The headers by name.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  return text.split('\n').reduce<Record<string, string>>((headers, line) => {
+    const separator = line.indexOf(':');
+    const name = separator > 0 ? line.slice(0, separator).trim() : '';
+    if (name) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+    return headers;
+  }, {});
+}
+
+/**
+ * Formats headers as "Name: value" lines, the inverse of `parseHeaderLines`.
+ * @param headers The headers by name.
+ */
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Renders the request body for a job. Every placeholder is replaced by a
+ * JSON value, so templates write `{number}` rather than `"{number}"`.
+ * Unknown placeholders are left untouched.
+ * @param template The body template.
+ * @param job The job to describe.
+ * @returns The rendered body.
+ */
+export function renderCrmPayload(
+  template: string,
+  job: Pick<CrmSyncJob, 'event' | 'call' | 'message'>,
+): string {
+  const { call, message } = job;
+  const { direction, outcome } = getCallClassification(call);
+  const values: Record<string, string | number | null> = {
+    event: job.event,
+    number: call.number,
+    callType: call.type,
+    direction,
+    outcome,
+    duration: call.duration,
+    calledAt: new Date(call.timestamp).toISOString(),
+    note: call.note ?? null,
+    channel: message?.channel ?? null,
+    message: message?.message ?? null,
+    sentAt: message ? new Date(message.timestamp).toISOString() : null,
+  };
+
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? JSON.stringify(values[key]) : match,
+  );
+}
+
+/**
+ * Checks the webhook settings before they are saved.
+ * @param config The settings to check.
+ * @returns A message describing the problem, or null if the settings are
+ * usable.
+ */
+export function validateCrmWebhookConfig(
+  config: CrmWebhookConfig,
+): string | null {
+  if (!config.enabled) {
+    return null;
+  }
+  if (!/^https?:\/\/\S+$/i.test(config.url.trim())) {
+    return 'Enter a webhook URL starting with http:// or https://.';
+  }
+  try {
+    JSON.parse(
+      renderCrmPayload(config.bodyTemplate, {
+        event: 'message_sent',
+        call: {
+          number: '+10000000000',
+          type: 'missed',
+          duration: 0,
+          timestamp: 0,
+        },
+        message: null,
+      }),
+    );
+  } catch {
+    return 'The body template must be valid JSON once placeholders are filled in.';
+  }
+  return null;
+}
+
+/**
+ * Returns how long to wait before retrying a job.
+ * @param attempts The attempts made so far, at least 1.
+ * @returns The delay in milliseconds, doubling per attempt up to
+ * `CRM_RETRY_MAX_DELAY_MS`.
+ */
+export function getCrmRetryDelayMs(attempts: number): number {
+  return Math.min(
+    CRM_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    CRM_RETRY_MAX_DELAY_MS,
+  );
+}
+
+/**
+ * Records the result of an attempt to send a job.
+ * @param job The job that was sent.
+ * @param error Why the attempt failed, or null if the CRM accepted it.
+ * @param now The time of the attempt.
+ * @returns The updated job: synced, pending with a later retry, or failed
+ * after `CRM_MAX_ATTEMPTS` attempts.
+ */
+export function applyCrmSyncResult(
+  job: CrmSyncJob,
+  error: string | null,
+  now: number = Date.now(),
+): CrmSyncJob {
+  const attempts = job.attempts + 1;
+  if (error === null) {
+    return {
+      ...job,
+      status: 'synced',
+      attempts,
+      lastError: null,
+      syncedAt: now,
+    };
+  }
+  return {
+    ...job,
+    status: attempts >= CRM_MAX_ATTEMPTS ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt: now + getCrmRetryDelayMs(attempts),
+    lastError: error,
+  };
+}
+
+/**
+ * Subscribes to changes of the sync queue.
+ * @param listener Called with every job, newest first, after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToCrmSyncQueue(
+  listener: CrmSyncQueueListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the sync queue from AsyncStorage.
+ * @returns Every kept job, newest first.
+ */
+export async function loadCrmSyncQueue(): Promise<CrmSyncJob[]> {
+  try {
+    return await enqueue(readStoredQueue);
+  } catch (error) {
+    console.error('Failed to load CRM sync queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Queues a payload for the CRM and starts sending it. Nothing is queued
+ * while the webhook is disabled.
+ * @param event What happened.
+ * @param call The confirmed client call, or the call a message follows up on.
+ * @param message The message sent, for 'message_sent'.
+ * @param now The current time.
+ * @returns The queued job, or null if nothing was queued.
+ */
+export async function queueCrmSync(
+  event: CrmSyncEvent,
+  call: AnalyzedCall,
+  message: OutboxEntry | null = null,
+  now: number = Date.now(),
+): Promise<CrmSyncJob | null> {
+  const config = await loadCrmWebhookConfig();
+  if (!config.enabled || !config.url) {
+    return null;
+  }
+
+  const job: CrmSyncJob = {
+    id: `crm_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    event,
+    call,
+    message,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    createdAt: now,
+    syncedAt: null,
+  };
+  try {
+    await updateQueue(jobs => [job, ...jobs]);
+  } catch (error) {
+    console.error('Failed to queue CRM sync:', error);
+    return null;
+  }
+  flushCrmSyncQueue(now);
+  return job;
+}
+
+/**
+ * Posts one job to the webhook.
+ * @returns Why the attempt failed, or null if the CRM accepted it.
+ */
+async function postCrmSyncJob(
+  config: CrmWebhookConfig,
+  job: CrmSyncJob,
+): Promise<string | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CRM_REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(config.url.trim(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...config.headers },
+      body: renderCrmPayload(config.bodyTemplate, job),
+      signal: controller.signal,
+    });
+    return response.ok ? null : `HTTP ${response.status}`;
+  } catch (error) {
+    return describeError(error);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function sendDueJobs(now: number): Promise<void> {
+  const config = await loadCrmWebhookConfig();
+  if (!config.enabled || !config.url) {
+    return;
+  }
+  const due = (await loadCrmSyncQueue())
+    .filter(job => job.status === 'pending' && job.nextAttemptAt <= now)
+    .reverse();
+
+  for (const job of due) {
+    const error = await postCrmSyncJob(config, job);
+    if (error !== null) {
+      console.warn(`CRM sync of ${job.event} failed: ${error}`);
+    }
+    await updateQueue(jobs =>
+      jobs.map(current =>
+        current.id === job.id
+          ? applyCrmSyncResult(current, error, Date.now())
+          : current,
+      ),
+    );
+  }
+}
+
+/**
+ * Sends every pending job whose retry is due, oldest first. Flushes run one
+ * after another, so a job is never sent twice at the same time.
+ * @param now The current time, deciding which retries are due.
+ */
+export function flushCrmSyncQueue(now: number = Date.now()): Promise<void> {
+  return enqueueFlush(() => sendDueJobs(now)).catch(error =>
+    console.error('Failed to flush CRM sync queue:', error),
+  );
+}
+
+/**
+ * Puts every failed job back in the queue with a fresh set of attempts and
+ * sends them.
+ * @param now The current time.
+ * @returns How many jobs were retried.
+ */
+export async function retryFailedCrmSyncJobs(
+  now: number = Date.now(),
+): Promise<number> {
+  let retried = 0;
+  await updateQueue(jobs =>
+    jobs.map(job => {
+      if (job.status !== 'failed') {
+        return job;
+      }
+      retried++;
+      return { ...job, status: 'pending', attempts: 0, nextAttemptAt: now };
+    }),
+  );
+  await flushCrmSyncQueue(now);
+  return retried;
+}
+
+/**
+ * Returns when the next pending job is due.
+ * @param jobs The jobs.
+ * @returns The earliest retry time, or null if nothing is pending.
+ */
+export function getNextCrmSyncAttemptAt(jobs: CrmSyncJob[]): number | null {
+  return jobs.reduce<number | null>(
+    (next, job) =>
+      job.status === 'pending' && (next === null || job.nextAttemptAt < next)
+        ? job.nextAttemptAt
+        : next,
+    null,
+  );
+}
+
+/**
+ * Summarizes how a call reached the CRM: failed if any of its jobs failed,
+ * otherwise pending if any is still queued, otherwise synced.
+ * @param jobs The jobs.
+ * @param call The call from the history.
+ * @returns The call's sync status, or null if nothing was queued for it.
+ */
+export function getCrmSyncStatusForCall(
+  jobs: CrmSyncJob[],
+  call: AnalyzedCall,
+): CrmSyncStatus | null {
+  const statuses = jobs
+    .filter(job => isSameCall(job.call, call))
+    .map(job => job.status);
+  if (statuses.length === 0) {
+    return null;
+  }
+  if (statuses.includes('failed')) {
+    return 'failed';
+  }
+  return statuses.includes('pending') ? 'pending' : 'synced';
+}
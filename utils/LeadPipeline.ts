@@ -0,0 +1,288 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalyzedCall,
+  ContactClassifications,
+  LeadPipeline,
+  LeadPipelineEntry,
+  LeadStage,
+} from '../hooks/types';
+import { getCallClassification } from './CallLogAnalyzer';
+import { getContactClassification } from './ContactClassification';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import { createSerialQueue } from './SerialQueue';
+
+export const LEAD_PIPELINE_STORAGE_KEY = '@CallDetectorApp:leadPipeline';
+
+export const LEAD_STAGES: LeadStage[] = [
+  'new_lead',
+  'contacted',
+  'quoted',
+  'won',
+  'lost',
+];
+
+/**
+ * Tags that move a lead forward when they are added to one of its calls,
+ * e.g. with "#quoted" in a note.
+ */
+export const LEAD_STAGE_TAGS: Partial<Record<LeadStage, string[]>> = {
+  quoted: ['quote requested', 'quoted', 'quote sent'],
+  won: ['won', 'order'],
+  lost: ['lost'],
+};
+
+/**
+ * How far each stage is along the pipeline. Automatic updates only move a
+ * lead forward; 'won' and 'lost' both close it.
+ */
+const STAGE_RANK: Record<LeadStage, number> = {
+  new_lead: 0,
+  contacted: 1,
+  quoted: 2,
+  won: 3,
+  lost: 3,
+};
+
+export type LeadContact = {
+  /** The number as it appears on the contact's latest call. */
+  number: string;
+  stage: LeadStage;
+  callCount: number;
+  lastCallAt: number;
+};
+
+type LeadPipelineListener = (pipeline: LeadPipeline) => void;
+
+const listeners = new Set<LeadPipelineListener>();
+
+const enqueue = createSerialQueue();
+
+async function readStoredPipeline(): Promise<LeadPipeline> {
+  const stored = await AsyncStorage.getItem(LEAD_PIPELINE_STORAGE_KEY);
+  const parsed = stored ? JSON.parse(stored) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : {};
+}
+
+/**
+ * Changes the stage of one number as a serialized read-modify-write.
+ * @param number The phone number, in any format.
+ * @param decide Receives the stored entry and returns the new stage, or null
+ * to keep the stored one.
+ * @param now The time of the change.
+ */
+async function updateLeadStage(
+  number: string,
+  decide: (current: LeadPipelineEntry | undefined) => LeadStage | null,
+  now: number,
+): Promise<void> {
+  try {
+    await enqueue(async () => {
+      await loadDefaultCountryCode();
+      const key = getPhoneNumberKey(number);
+      const pipeline = await readStoredPipeline();
+      const stage = decide(pipeline[key]);
+      if (stage === null || stage === pipeline[key]?.stage) {
+        return;
+      }
+      const updated = { ...pipeline, [key]: { stage, updatedAt: now } };
+      await AsyncStorage.setItem(
+        LEAD_PIPELINE_STORAGE_KEY,
+        JSON.stringify(updated),
+      );
+      listeners.forEach(listener => listener(updated));
+    });
+  } catch (error) {
+    console.error('Failed to save lead stage:', error);
+  }
+}
+
+/**
+ * Subscribes to changes of the stored pipeline, including changes made by
+ * the notification action handlers.
+ * @param listener Called with the full pipeline after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToLeadPipeline(
+  listener: LeadPipelineListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the per-number pipeline stages from AsyncStorage.
+ * @returns A map of normalized phone number to its stage.
+ */
+export async function loadLeadPipeline(): Promise<LeadPipeline> {
+  try {
+    return await enqueue(readStoredPipeline);
+  } catch (error) {
+    console.error('Failed to load lead pipeline:', error);
+    return {};
+  }
+}
+
+/**
+ * Returns the stage of a number. Numbers without a stored stage are new
+ * leads.
+ * @param pipeline The stored pipeline.
+ * @param number The phone number, in any format.
+ */
+export function getLeadStage(
+  pipeline: LeadPipeline,
+  number: string,
+): LeadStage {
+  return pipeline[getPhoneNumberKey(number)]?.stage ?? 'new_lead';
+}
+
+/**
+ * Decides whether an automatic update may move a lead to a stage: only
+ * forward, and never out of 'won' or 'lost'.
+ * @param current The lead's current stage, or undefined if it has none.
+ * @param next The stage suggested by new activity.
+ * @returns True if the lead should move to `next`.
+ */
+export function canAdvanceLeadStage(
+  current: LeadStage | undefined,
+  next: LeadStage,
+): boolean {
+  if (current === undefined) {
+    return true;
+  }
+  if (current === 'won' || current === 'lost') {
+    return false;
+  }
+  return STAGE_RANK[next] > STAGE_RANK[current];
+}
+
+/**
+ * Returns the stage that a set of tags points to, the furthest along if
+ * several match.
+ * @param tags The tags of a call.
+ * @returns The stage, or null if no tag is a stage tag.
+ */
+export function getLeadStageForTags(tags: string[]): LeadStage | null {
+  return LEAD_STAGES.reduce<LeadStage | null>((found, stage) => {
+    const matches = (LEAD_STAGE_TAGS[stage] ?? []).some(tag =>
+      tags.includes(tag),
+    );
+    return matches && (found === null || STAGE_RANK[stage] >= STAGE_RANK[found])
+      ? stage
+      : found;
+  }, null);
+}
+
+/**
+ * Sets the stage of a number by hand. Any stage can be chosen, including
+ * reopening a closed lead.
+ * @param number The phone number, in any format.
+ * @param stage The new stage.
+ * @param now The time of the change.
+ */
+export async function setLeadStage(
+  number: string,
+  stage: LeadStage,
+  now: number = Date.now(),
+): Promise<void> {
+  await updateLeadStage(number, () => stage, now);
+}
+
+/**
+ * Moves a number to a stage because of new activity, unless it is already
+ * at or past that stage. Only contacts classified as clients are tracked;
+ * activity with anyone else leaves the pipeline alone.
+ * @param number The phone number, in any format.
+ * @param stage The stage the activity points to.
+ * @param now The time of the activity.
+ */
+export async function advanceLeadStage(
+  number: string,
+  stage: LeadStage,
+  now: number = Date.now(),
+): Promise<void> {
+  if ((await getContactClassification(number)) !== 'client') {
+    return;
+  }
+  await updateLeadStage(
+    number,
+    current => (canAdvanceLeadStage(current?.stage, stage) ? stage : null),
+    now,
+  );
+}
+
+/**
+ * Updates a client's stage for a new call: a call that was answered, in
+ * either direction, means the lead was contacted.
+ * @param call The call with a known client.
+ */
+export async function recordLeadCall(call: AnalyzedCall): Promise<void> {
+  if (getCallClassification(call).outcome === 'answered') {
+    await advanceLeadStage(call.number, 'contacted', call.timestamp);
+  }
+}
+
+/**
+ * Updates a contact's stage for the notes of one of its calls, based on the
+ * stage tags in `LEAD_STAGE_TAGS`.
+ * @param call The annotated call, with its tags.
+ */
+export async function recordLeadNotes(call: AnalyzedCall): Promise<void> {
+  const stage = getLeadStageForTags(call.tags ?? []);
+  if (stage) {
+    await advanceLeadStage(call.number, stage);
+  }
+}
+
+/**
+ * Builds the pipeline view from the call history: one contact per
+ * normalized number classified as a client, with its stage.
+ * @param calls The call history, newest first.
+ * @param pipeline The stored pipeline.
+ * @param classifications The stored client / not-client list.
+ * @returns The contacts, most recently called first, and how many are in
+ * each stage.
+ */
+export function summarizeLeadPipeline(
+  calls: AnalyzedCall[],
+  pipeline: LeadPipeline,
+  classifications: ContactClassifications,
+): { contacts: LeadContact[]; counts: Record<LeadStage, number> } {
+  const contactsByKey = new Map<string, LeadContact>();
+  calls.forEach(call => {
+    const key = getPhoneNumberKey(call.number);
+    if (classifications[key] !== 'client') {
+      return;
+    }
+    const contact = contactsByKey.get(key);
+    if (!contact) {
+      contactsByKey.set(key, {
+        number: call.number,
+        stage: pipeline[key]?.stage ?? 'new_lead',
+        callCount: 1,
+        lastCallAt: call.timestamp,
+      });
+    } else {
+      contact.callCount++;
+      if (call.timestamp > contact.lastCallAt) {
+        contact.number = call.number;
+        contact.lastCallAt = call.timestamp;
+      }
+    }
+  });
+
+  const contacts = Array.from(contactsByKey.values()).sort(
+    (a, b) => b.lastCallAt - a.lastCallAt,
+  );
+  const counts = LEAD_STAGES.reduce(
+    (totals, stage) => ({ ...totals, [stage]: 0 }),
+    {} as Record<LeadStage, number>,
+  );
+  contacts.forEach(contact => {
+    counts[contact.stage]++;
+  });
+  return { contacts, counts };
+}
@@ -0,0 +1,264 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AnalyzedCall,
+  CallType,
+  MessageTemplate,
+  TemplateLibrary,
+} from '../hooks/types';
+import { CALL_TYPES } from './CallLogAnalyzer';
+
+export const TEMPLATE_LIBRARY_STORAGE_KEY = '@CallDetectorApp:messageTemplates';
+
+export const TEMPLATE_PLACEHOLDERS = [
+  '{number}',
+  '{callType}',
+  '{duration}',
+  '{date}',
+  '{businessName}',
+];
+
+export const DEFAULT_TEMPLATE_LIBRARY: TemplateLibrary = {
+  templates: [
+    {
+      id: 'default_general',
+      name: 'General follow-up',
+      body: 'Hello! We recently had a call. How can I help you today?',
+    },
+    {
+      id: 'default_missed',
+      name: 'Missed call',
+      body: 'Hello! Sorry we missed your call on {date}. This is {businessName}, how can we help you?',
+    },
+    {
+      id: 'default_answered',
+      name: 'After answered call',
+      body: 'Hello! Thank you for speaking with {businessName} today. Feel free to message us here if you need anything else.',
+    },
+    {
+      id: 'default_after_hours',
+      name: 'After hours',
+      body: 'Hello! Thanks for calling {businessName}. We are closed right now and will get back to you as soon as we open.',
+    },
+  ],
+  defaults: {
+    incoming: 'default_answered',
+    outgoing: 'default_general',
+    missed: 'default_missed',
+    rejected: 'default_missed',
+    unknown: 'default_general',
+  },
+  businessName: 'our team',
+};
+
+/**
+ * Version of the stored template library. Bump it and list the IDs of the
+ * new built-in templates in `ADDED_TEMPLATE_IDS` whenever a release adds one,
+ * so libraries saved before that release gain it once. A built-in template
+ * the user deletes afterwards stays deleted.
+ *
+ * - 0: saved without a version, before the after-hours template existed.
+ * - 1: includes `default_after_hours`.
+ */
+export const TEMPLATE_LIBRARY_SCHEMA_VERSION = 1;
+
+const ADDED_TEMPLATE_IDS: Record<number, string[]> = {
+  1: ['default_after_hours'],
+};
+
+/**
+ * Formats a call duration in seconds as a short human-readable string,
+ * e.g. "45s" or "3m 20s".
+ * @param seconds The call duration in seconds.
+ * @returns The formatted duration.
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  if (minutes === 0) {
+    return `${remainder}s`;
+  }
+  return `${minutes}m ${String(remainder).padStart(2, '0')}s`;
+}
+
+/**
+ * Replaces the supported placeholders in a template body with values taken
+ * from the analyzed call. Unknown placeholders are left untouched.
+ * @param body The template body containing placeholders.
+ * @param call The analyzed call to fill the placeholders from.
+ * @param businessName The business name used for `{businessName}`.
+ * @returns The rendered message text.
+ */
+export function renderTemplate(
+  body: string,
+  call: AnalyzedCall,
+  businessName: string,
+): string {
+  const values: Record<string, string> = {
+    number: call.number,
+    callType: call.type,
+    duration: formatDuration(call.duration),
+    date: new Date(call.timestamp).toLocaleString(),
+    businessName,
+  };
+
+  return body.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match,
+  );
+}
+
+/**
+ * Picks the template that should be used for a call, based on the default
+ * configured for its call type. Falls back to the first template in the
+ * library, and finally to the built-in general template.
+ * @param library The template library.
+ * @param callType The type of the call being answered.
+ * @returns The template to render.
+ */
+export function getTemplateForCallType(
+  library: TemplateLibrary,
+  callType: CallType,
+): MessageTemplate {
+  const defaultId = library.defaults[callType];
+  return (
+    library.templates.find(template => template.id === defaultId) ??
+    library.templates[0] ??
+    DEFAULT_TEMPLATE_LIBRARY.templates[0]
+  );
+}
+
+/**
+ * Adds a template to the library, or replaces the existing template with the same ID.
+ * @param library The template library.
+ * @param template The template to add or update.
+ * @returns The updated library.
+ */
+export function upsertTemplate(
+  library: TemplateLibrary,
+  template: MessageTemplate,
+): TemplateLibrary {
+  const exists = library.templates.some(t => t.id === template.id);
+  return {
+    ...library,
+    templates: exists
+      ? library.templates.map(t => (t.id === template.id ? template : t))
+      : [...library.templates, template],
+  };
+}
+
+/**
+ * Removes a template from the library. Call types that used it as their
+ * default fall back to the first remaining template.
+ * @param library The template library.
+ * @param templateId The ID of the template to remove.
+ * @returns The updated library.
+ */
+export function deleteTemplate(
+  library: TemplateLibrary,
+  templateId: string,
+): TemplateLibrary {
+  const templates = library.templates.filter(t => t.id !== templateId);
+  const fallbackId = templates[0]?.id ?? '';
+  const defaults = { ...library.defaults };
+  CALL_TYPES.forEach(callType => {
+    if (defaults[callType] === templateId) {
+      defaults[callType] = fallbackId;
+    }
+  });
+  return { ...library, templates, defaults };
+}
+
+/**
+ * Adds the built-in templates introduced after a library was saved.
+ * @param templates The stored templates.
+ * @param version The version the library was saved with.
+ * @returns The templates, with the missing built-in ones appended.
+ */
+function addNewBuiltInTemplates(
+  templates: MessageTemplate[],
+  version: number,
+): MessageTemplate[] {
+  const added = [...templates];
+  for (
+    let next = version + 1;
+    next <= TEMPLATE_LIBRARY_SCHEMA_VERSION;
+    next++
+  ) {
+    ADDED_TEMPLATE_IDS[next].forEach(id => {
+      const template = DEFAULT_TEMPLATE_LIBRARY.templates.find(
+        builtIn => builtIn.id === id,
+      );
+      if (template && !added.some(existing => existing.id === id)) {
+        added.push(template);
+      }
+    });
+  }
+  return added;
+}
+
+/**
+ * Loads the template library from AsyncStorage, falling back to the
+ * built-in defaults when nothing has been saved yet. Built-in templates
+ * added since the library was saved are merged in.
+ * @returns The stored template library.
+ */
+export async function loadTemplateLibrary(): Promise<TemplateLibrary> {
+  try {
+    const stored = await AsyncStorage.getItem(TEMPLATE_LIBRARY_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && Array.isArray(parsed.templates)) {
+        const { version, ...library } = parsed;
+        return {
+          ...DEFAULT_TEMPLATE_LIBRARY,
+          ...library,
+          templates: addNewBuiltInTemplates(
+            library.templates,
+            Number(version ?? 0),
+          ),
+          defaults: {
+            ...DEFAULT_TEMPLATE_LIBRARY.defaults,
+            ...library.defaults,
+          },
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load message templates from AsyncStorage:', error);
+  }
+  return DEFAULT_TEMPLATE_LIBRARY;
+}
+
+/**
+ * Persists the template library to AsyncStorage.
+ * @param library The template library to save.
+ */
+export async function saveTemplateLibrary(
+  library: TemplateLibrary,
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      TEMPLATE_LIBRARY_STORAGE_KEY,
+      JSON.stringify({ ...library, version: TEMPLATE_LIBRARY_SCHEMA_VERSION }),
+    );
+  } catch (error) {
+    console.error('Failed to save message templates to AsyncStorage:', error);
+  }
+}
+
+/**
+ * Builds the message text to send for a call, using the stored library and
+ * either the given template or the default template for the call's type.
+ * @param call The analyzed call the message is about.
+ * @param templateId The template to use; falls back to the call type's default when missing.
+ * @returns The rendered message text.
+ */
+export async function buildMessageForCall(
+  call: AnalyzedCall,
+  templateId?: string | null,
+): Promise<string> {
+  const library = await loadTemplateLibrary();
+  const template =
+    library.templates.find(t => t.id === templateId) ??
+    getTemplateForCallType(library, call.type);
+  return renderTemplate(template.body, call, library.businessName);
+}
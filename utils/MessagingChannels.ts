@@ -0,0 +1,272 @@
+import { Linking } from 'react-native';
+import {
+  AnalyzedCall,
+  MessagingChannelId,
+  OutboxEntry,
+  SendResult,
+} from '../hooks/types';
+import { isPackageInstalled, openUrlInPackage } from '../CallLogModule';
+import { getContactChannel } from './ContactChannels';
+import { loadDefaultCountryCode, normalizePhoneNumber } from './PhoneNumber';
+import { openWhatsApp } from './OpenWhatsApp';
+import { describeError, loadOutbox, recordOutboxEntry } from './Outbox';
+import { queueCrmSync } from './CrmSync';
+import { advanceLeadStage } from './LeadPipeline';
+
+export type MessageRecipient = {
+  /** The recipient's number in E.164 format. */
+  phone: string;
+  email: string;
+};
+
+export type MessagingProvider = {
+  id: MessagingChannelId;
+  label: string;
+  /** Whether the channel can be used on this device at all. */
+  isAvailable: () => Promise<boolean>;
+  /** Whether the channel can reach this recipient, e.g. needs an email address. */
+  canReach: (recipient: MessageRecipient) => boolean;
+  /** Opens the channel with the message ready to send. */
+  send: (recipient: MessageRecipient, message: string) => Promise<SendResult>;
+};
+
+/**
+ * Used when no channel is available at all, because WhatsApp still works
+ * through its web link.
+ */
+export const FALLBACK_CHANNEL: MessagingChannelId = 'whatsapp';
+
+const EMAIL_SUBJECT = 'Following up on our call';
+
+const providers = new Map<MessagingChannelId, MessagingProvider>();
+
+/**
+ * Registers a messaging channel. Channels are offered in registration
+ * order; registering an ID again replaces the previous provider.
+ * @param provider The channel implementation.
+ */
+export function registerMessagingProvider(provider: MessagingProvider) {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Returns the provider for a channel.
+ * @param channelId The channel ID.
+ */
+export function getMessagingProvider(
+  channelId: MessagingChannelId,
+): MessagingProvider | undefined {
+  return providers.get(channelId);
+}
+
+/**
+ * Returns every registered provider, in the order they are offered.
+ */
+export function getMessagingProviders(): MessagingProvider[] {
+  return Array.from(providers.values());
+}
+
+// WhatsApp expects the full international number without the leading "+".
+const withoutPlus = (phone: string) => phone.replace(/^\+/, '');
+
+const canReachByPhone = () => true;
+
+const OPENED: SendResult = { outcome: 'opened', error: null };
+
+/**
+ * Opens a URL in a specific app, failing when the app could not open it.
+ * @param url The deep link.
+ * @param packageName The Android package of the app.
+ * @param label The app's name, used in the error.
+ */
+async function openInPackage(
+  url: string,
+  packageName: string,
+  label: string,
+): Promise<SendResult> {
+  return (await openUrlInPackage(url, packageName))
+    ? OPENED
+    : { outcome: 'failed', error: `${label} could not be opened` };
+}
+
+registerMessagingProvider({
+  id: 'whatsapp',
+  label: 'WhatsApp',
+  isAvailable: () => isPackageInstalled('com.whatsapp'),
+  canReach: canReachByPhone,
+  send: (recipient, message) => openWhatsApp(recipient.phone, message),
+});
+
+registerMessagingProvider({
+  id: 'whatsapp_business',
+  label: 'WhatsApp Business',
+  isAvailable: () => isPackageInstalled('com.whatsapp.w4b'),
+  canReach: canReachByPhone,
+  send: (recipient, message) =>
+    openInPackage(
+      `whatsapp://send?phone=${withoutPlus(
+        recipient.phone,
+      )}&text=${encodeURIComponent(message)}`,
+      'com.whatsapp.w4b',
+      'WhatsApp Business',
+    ),
+});
+
+registerMessagingProvider({
+  id: 'sms',
+  label: 'SMS',
+  isAvailable: () => Linking.canOpenURL('sms:'),
+  canReach: canReachByPhone,
+  send: async (recipient, message) => {
+    await Linking.openURL(
+      `sms:${recipient.phone}?body=${encodeURIComponent(message)}`,
+    );
+    return OPENED;
+  },
+});
+
+registerMessagingProvider({
+  id: 'telegram',
+  label: 'Telegram',
+  isAvailable: () => isPackageInstalled('org.telegram.messenger'),
+  canReach: canReachByPhone,
+  send: (recipient, message) =>
+    openInPackage(
+      `tg://resolve?phone=${withoutPlus(
+        recipient.phone,
+      )}&text=${encodeURIComponent(message)}`,
+      'org.telegram.messenger',
+      'Telegram',
+    ),
+});
+
+registerMessagingProvider({
+  id: 'email',
+  label: 'Email',
+  isAvailable: () => Linking.canOpenURL('mailto:'),
+  canReach: recipient => recipient.email.includes('@'),
+  send: async (recipient, message) => {
+    await Linking.openURL(
+      `mailto:${recipient.email}?subject=${encodeURIComponent(
+        EMAIL_SUBJECT,
+      )}&body=${encodeURIComponent(message)}`,
+    );
+    return OPENED;
+  },
+});
+
+/**
+ * Returns the channels installed on this device, in the order they are
+ * offered. Channels whose check fails count as unavailable.
+ */
+export async function getAvailableChannels(): Promise<MessagingChannelId[]> {
+  const checks = await Promise.all(
+    getMessagingProviders().map(provider =>
+      provider.isAvailable().catch(() => false),
+    ),
+  );
+  return getMessagingProviders()
+    .filter((_, index) => checks[index])
+    .map(provider => provider.id);
+}
+
+/**
+ * Works out which channels can reach a number: the contact's preferred
+ * channel, if it is still available, and every available channel that can
+ * reach the contact.
+ * @param number The phone number, in any format.
+ * @returns The recipient, the usable preferred channel (or null) and the
+ * channels to offer.
+ */
+export async function getChannelOptions(number: string): Promise<{
+  recipient: MessageRecipient | null;
+  preferred: MessagingChannelId | null;
+  available: MessagingChannelId[];
+}> {
+  const phone = normalizePhoneNumber(number, await loadDefaultCountryCode());
+  if (!phone) {
+    return { recipient: null, preferred: null, available: [] };
+  }
+  const { channel, email } = await getContactChannel(number);
+  const recipient = { phone, email };
+  const available = (await getAvailableChannels()).filter(id =>
+    getMessagingProvider(id)?.canReach(recipient),
+  );
+  return {
+    recipient,
+    preferred: channel && available.includes(channel) ? channel : null,
+    available,
+  };
+}
+
+/**
+ * Orders channels by how many messages have been opened through them, most
+ * used first. Channels used equally often keep their order.
+ * @param channels The channels to order.
+ * @returns The ordered channels.
+ */
+export async function sortChannelsByUse(
+  channels: MessagingChannelId[],
+): Promise<MessagingChannelId[]> {
+  const uses = new Map<MessagingChannelId, number>();
+  (await loadOutbox()).forEach(entry => {
+    if (entry.outcome !== 'failed') {
+      uses.set(entry.channel, (uses.get(entry.channel) ?? 0) + 1);
+    }
+  });
+  return [...channels].sort((a, b) => (uses.get(b) ?? 0) - (uses.get(a) ?? 0));
+}
+
+/**
+ * Opens a channel with the message for a call and records the attempt in
+ * the outbox. A message that was opened marks the lead as contacted and is
+ * queued for the CRM. Without an explicit channel the contact's preferred channel is
+ * used, then the first available one.
+ * @param call The call the message follows up on.
+ * @param message The message text.
+ * @param channelId The channel to use, if already chosen.
+ * @returns The outbox entry, whose outcome tells whether the channel opened.
+ */
+export async function sendMessage(
+  call: AnalyzedCall,
+  message: string,
+  channelId?: MessagingChannelId,
+): Promise<OutboxEntry> {
+  const { recipient, preferred, available } = await getChannelOptions(
+    call.number,
+  );
+  const channel = channelId ?? preferred ?? available[0] ?? FALLBACK_CHANNEL;
+  const provider = getMessagingProvider(channel);
+  let result: SendResult;
+
+  if (!recipient) {
+    console.warn(`Cannot message ${call.number}: not a messageable number.`);
+    result = { outcome: 'failed', error: 'Not a messageable number' };
+  } else if (!provider) {
+    console.warn(`Unknown messaging channel: ${channel}`);
+    result = { outcome: 'failed', error: `Unknown channel: ${channel}` };
+  } else {
+    try {
+      result = await provider.send(recipient, message);
+    } catch (error) {
+      console.error(
+        `An error occurred while opening ${provider.label}:`,
+        error,
+      );
+      result = { outcome: 'failed', error: describeError(error) };
+    }
+  }
+
+  const entry = await recordOutboxEntry({
+    call,
+    channel,
+    message,
+    timestamp: Date.now(),
+    ...result,
+  });
+  if (entry.outcome !== 'failed') {
+    await advanceLeadStage(call.number, 'contacted', entry.timestamp);
+    await queueCrmSync('message_sent', call, entry);
+  }
+  return entry;
+}
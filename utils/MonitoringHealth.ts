@@ -0,0 +1,54 @@
+import { DEFAULT_MONITORING_OPTIONS, MonitoringStatus } from '../CallLogModule';
+
+/**
+ * The state of the monitoring service as shown to the user:
+ * - 'stopped': the service is not running, whatever the app asked for.
+ * - 'starting': the service is running but has not read the call log yet.
+ * - 'active': the service read the call log recently.
+ * - 'stalled': the service is running but has missed several polls.
+ * - 'error': the last poll failed, e.g. because READ_CALL_LOG was revoked.
+ */
+export type MonitoringHealth =
+  | 'stopped'
+  | 'starting'
+  | 'active'
+  | 'stalled'
+  | 'error';
+
+/** How many polls may be missed before the service counts as stalled. */
+export const MISSED_POLLS_BEFORE_STALLED = 3;
+
+/** How long a freshly started service has to complete its first poll. */
+export const FIRST_POLL_GRACE_MS = 30 * 1000;
+
+/**
+ * Works out the state of the monitoring service from its last reported
+ * status.
+ * @param status The status reported by the native service, or null if it
+ * has not been read yet.
+ * @param now The current time.
+ * @returns The health of the service.
+ */
+export function getMonitoringHealth(
+  status: MonitoringStatus | null,
+  now: number = Date.now(),
+): MonitoringHealth {
+  if (!status || !status.isRunning) {
+    return 'stopped';
+  }
+  if (
+    status.lastErrorAt !== null &&
+    (status.lastPollAt === null || status.lastErrorAt > status.lastPollAt)
+  ) {
+    return 'error';
+  }
+  if (status.lastPollAt === null) {
+    const startedAt = status.startedAt ?? now;
+    return now - startedAt > FIRST_POLL_GRACE_MS ? 'stalled' : 'starting';
+  }
+  const pollDelayMs =
+    status.pollDelayMs ?? DEFAULT_MONITORING_OPTIONS.pollIntervalMs;
+  return now - status.lastPollAt > pollDelayMs * MISSED_POLLS_BEFORE_STALLED
+    ? 'stalled'
+    : 'active';
+}
@@ -1,11 +1,85 @@
-import { AnalyzedCall } from '../hooks/types';
+import { AnalyzedCall, MessagingChannelId } from '../hooks/types';
 import notifee, {
   AndroidCategory,
   AndroidImportance,
+  Notification,
+  TriggerType,
 } from '@notifee/react-native';
 
 export const CHANNEL_ID = 'call_monitor_channel';
 
+/**
+ * The `pressAction.id` of each action button on the client-check and call
+ * notes notifications. The handlers live in `NotificationActions.ts`.
+ */
+export const NOTIFICATION_ACTIONS = {
+  NO_CLIENT: 'no_client',
+  YES_SEND_MESSAGE: 'yes_send_message',
+  REMIND_ME: 'remind_me',
+  LATER: 'later',
+  ADD_NOTE: 'add_note',
+  FOLLOW_UP: 'follow_up',
+  MORE_CHANNELS: 'more_channels',
+} as const;
+
+/**
+ * Android shows at most three actions on a notification.
+ */
+const MAX_NOTIFICATION_ACTIONS = 3;
+
+/**
+ * The intervals offered after pressing "⏰ Later", in minutes.
+ */
+export const SNOOZE_OPTIONS_MINUTES = [15, 60, 180];
+
+/**
+ * Returns the `pressAction.id` of the snooze option for an interval.
+ * @param minutes The snooze interval in minutes.
+ */
+export function getSnoozeActionId(minutes: number): string {
+  return `snooze_${minutes}`;
+}
+
+/**
+ * Returns the `pressAction.id` of the action that sends through a channel.
+ * @param channelId The messaging channel.
+ */
+export function getSendViaActionId(channelId: MessagingChannelId): string {
+  return `send_via_${channelId}`;
+}
+
+function formatSnoozeInterval(minutes: number) {
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+const CALLBACK_CALL_TYPES: AnalyzedCall['type'][] = ['missed', 'rejected'];
+
+/**
+ * Checks whether a call is one we may need to return, i.e. missed or
+ * rejected.
+ * @param call The analyzed call.
+ */
+export function needsCallback(call: AnalyzedCall): boolean {
+  return CALLBACK_CALL_TYPES.includes(call.type);
+}
+
+/**
+ * Returns the ID of the call-back reminder for a number. There is at most
+ * one reminder per number, so scheduling again replaces the previous one.
+ * @param numberKey The normalized phone number.
+ */
+export function getCallbackReminderId(numberKey: string): string {
+  return `callback_reminder_${numberKey}`;
+}
+
+/**
+ * Returns the ID of the notification that asks for notes about a call.
+ * @param call The call the notes are about.
+ */
+export function getCallNotesId(call: AnalyzedCall): string {
+  return `call_notes_${call.timestamp}`;
+}
+
 /**
  * Creates the notification channel for the call monitor notifications.
  * The channel is configured with:
@@ -32,15 +106,19 @@ export async function createNotificationChannel() {
 
 /**
  * Displays a notification to ask the user if the person at the given phone number is a client.
- * The notification has two actions: "Yes, Send" and "No". When the user presses "Yes, Send",
+ * The notification has three actions: "Yes, Send", "No" and "Later". When the user presses "Yes, Send",
  * the notification with ID "message_prompt_<timestamp>" is displayed. When the user presses
- * "No", the notification is cancelled.
+ * "No", the notification is cancelled. "Later" offers to ask again after a chosen interval.
  * @param call The analyzed call to display the notification for.
+ * @param deliverAt When set, the notification is scheduled for this timestamp instead of shown now.
  * @returns The ID of the notification that was displayed.
  */
-export async function displayClientCheckNotification(call: AnalyzedCall) {
+export async function displayClientCheckNotification(
+  call: AnalyzedCall,
+  deliverAt?: number,
+) {
   const notificationId = `client_check_${call.timestamp}`;
-  await notifee.displayNotification({
+  const notification: Notification = {
     id: notificationId,
     title: '📞 Recent Call Processed',
     body: `Was the person at ${call.number} a client? Do you want to send a template message to them?`,
@@ -59,21 +137,215 @@ export async function displayClientCheckNotification(call: AnalyzedCall) {
         {
           title: '✅ Yes, Send',
           pressAction: {
-            id: 'yes_send_message',
+            id: NOTIFICATION_ACTIONS.YES_SEND_MESSAGE,
           },
         },
         {
           title: '❌ No',
           pressAction: {
-            id: 'no_client',
+            id: NOTIFICATION_ACTIONS.NO_CLIENT,
+          },
+        },
+        {
+          title: '⏰ Later',
+          pressAction: {
+            id: NOTIFICATION_ACTIONS.LATER,
+          },
+        },
+      ],
+    },
+  };
+
+  if (deliverAt !== undefined && deliverAt > Date.now()) {
+    await notifee.createTriggerNotification(notification, {
+      type: TriggerType.TIMESTAMP,
+      timestamp: deliverAt,
+    });
+  } else {
+    await notifee.displayNotification(notification);
+  }
+  return notificationId;
+}
+
+/**
+ * Replaces the client-check notification with a choice of when to ask
+ * again. Android shows at most three actions, so for missed and rejected
+ * calls the longest interval makes way for a call-back reminder, after which
+ * the client check is shown again.
+ * @param call The call the client check is about.
+ * @param notificationId The ID of the client-check notification.
+ */
+export async function displaySnoozeOptionsNotification(
+  call: AnalyzedCall,
+  notificationId: string,
+) {
+  const intervals = needsCallback(call)
+    ? SNOOZE_OPTIONS_MINUTES.slice(0, -1)
+    : SNOOZE_OPTIONS_MINUTES;
+  await notifee.displayNotification({
+    id: notificationId,
+    title: '⏰ Ask again later',
+    body: `When should we ask again about ${call.number}?`,
+    data: {
+      callData: JSON.stringify(call),
+      notificationStage: 'snoozeOptions',
+    },
+    android: {
+      channelId: CHANNEL_ID,
+      autoCancel: false,
+      pressAction: {
+        id: 'default',
+        launchActivity: 'default',
+      },
+      actions: [
+        ...intervals.map(minutes => ({
+          title: `In ${formatSnoozeInterval(minutes)}`,
+          pressAction: { id: getSnoozeActionId(minutes) },
+        })),
+        ...(needsCallback(call)
+          ? [
+              {
+                title: '📞 Remind me to call back',
+                pressAction: { id: NOTIFICATION_ACTIONS.REMIND_ME },
+              },
+            ]
+          : []),
+      ],
+    },
+  });
+}
+
+/**
+ * Replaces the client-check notification with a choice of messaging
+ * channels. Android shows at most three actions, so when there are more
+ * channels the first two are offered next to "More…", which opens the app
+ * to pick from all of them.
+ * @param call The call the message is about.
+ * @param notificationId The ID of the client-check notification.
+ * @param channels The available channels, with their labels, most used first.
+ */
+export async function displayChannelOptionsNotification(
+  call: AnalyzedCall,
+  notificationId: string,
+  channels: { id: MessagingChannelId; label: string }[],
+) {
+  const sendViaActions = channels.map(channel => ({
+    title: channel.label,
+    pressAction: { id: getSendViaActionId(channel.id) },
+  }));
+  const actions =
+    sendViaActions.length > MAX_NOTIFICATION_ACTIONS
+      ? [
+          ...sendViaActions.slice(0, MAX_NOTIFICATION_ACTIONS - 1),
+          {
+            title: 'More…',
+            pressAction: {
+              id: NOTIFICATION_ACTIONS.MORE_CHANNELS,
+              launchActivity: 'default',
+            },
+          },
+        ]
+      : sendViaActions;
+
+  await notifee.displayNotification({
+    id: notificationId,
+    title: '💬 Send via…',
+    body: `How should we message ${call.number}? Your choice is remembered for this contact.`,
+    data: {
+      callData: JSON.stringify(call),
+      notificationStage: 'channelOptions',
+    },
+    android: {
+      channelId: CHANNEL_ID,
+      autoCancel: false,
+      pressAction: {
+        id: 'default',
+        launchActivity: 'default',
+      },
+      actions,
+    },
+  });
+}
+
+/**
+ * Displays a notification that lets the user note what a call was about
+ * once it has been stored. "Add note" takes free text in which hashtags
+ * become tags; "Follow up" marks the call as needing a follow-up.
+ * @param call The stored call.
+ * @returns The ID of the notification that was displayed.
+ */
+export async function displayCallNotesNotification(call: AnalyzedCall) {
+  const notificationId = getCallNotesId(call);
+  await notifee.displayNotification({
+    id: notificationId,
+    title: '📝 Add a note?',
+    body: `What was the call with ${call.number} about? Use #tags, e.g. #quote_requested.`,
+    data: {
+      callData: JSON.stringify(call),
+      notificationStage: 'callNotes',
+    },
+    android: {
+      channelId: CHANNEL_ID,
+      pressAction: {
+        id: 'default',
+        launchActivity: 'default',
+      },
+      actions: [
+        {
+          title: '📝 Add note',
+          pressAction: { id: NOTIFICATION_ACTIONS.ADD_NOTE },
+          input: {
+            allowFreeFormInput: true,
+            placeholder: 'Note and #tags',
           },
         },
+        {
+          title: '🔔 Follow up',
+          pressAction: { id: NOTIFICATION_ACTIONS.FOLLOW_UP },
+        },
       ],
     },
   });
   return notificationId;
 }
 
+/**
+ * Schedules a reminder to return a missed or rejected call.
+ * @param call The call to return.
+ * @param numberKey The normalized phone number, used for the reminder ID.
+ * @param remindAt When to show the reminder.
+ * @returns The ID of the scheduled notification.
+ */
+export async function scheduleCallbackReminderNotification(
+  call: AnalyzedCall,
+  numberKey: string,
+  remindAt: number,
+) {
+  const notificationId = getCallbackReminderId(numberKey);
+  await notifee.createTriggerNotification(
+    {
+      id: notificationId,
+      title: '📞 Call back?',
+      body: `You have not returned the ${call.type} call from ${
+        call.number
+      } at ${new Date(call.timestamp).toLocaleTimeString()}.`,
+      data: {
+        callData: JSON.stringify(call),
+        notificationStage: 'callbackReminder',
+      },
+      android: {
+        channelId: CHANNEL_ID,
+        pressAction: {
+          id: 'default',
+          launchActivity: 'default',
+        },
+      },
+    },
+    { type: TriggerType.TIMESTAMP, timestamp: remindAt },
+  );
+  return notificationId;
+}
+
 // // Function to display the "Send Message" notification
 // export async function displayMessagePromptNotification(call: AnalyzedCall) {
 //   const notificationId = `message_prompt_${call.timestamp}`;
@@ -0,0 +1,227 @@
+import notifee, { Event, EventType } from '@notifee/react-native';
+import { AnalyzedCall } from '../hooks/types';
+import { buildMessageForCall } from './MessageTemplates';
+import { setContactClassification } from './ContactClassification';
+import { addCallToHistory } from './CallHistoryRepository';
+import { queueCrmSync } from './CrmSync';
+import { advanceLeadStage } from './LeadPipeline';
+import {
+  NOTIFICATION_ACTIONS,
+  SNOOZE_OPTIONS_MINUTES,
+  displayCallNotesNotification,
+  displayChannelOptionsNotification,
+  displayClientCheckNotification,
+  displaySnoozeOptionsNotification,
+  getSendViaActionId,
+  getSnoozeActionId,
+} from './Notification';
+import {
+  getChannelOptions,
+  getMessagingProvider,
+  getMessagingProviders,
+  sendMessage,
+  sortChannelsByUse,
+} from './MessagingChannels';
+import { setContactChannel } from './ContactChannels';
+import { requestChannelChoice } from './PendingChannelChoices';
+import { remindToCallBack } from './CallbackReminders';
+import { clearSnoozedPrompt, snoozeClientCheck } from './SnoozedPrompts';
+import { annotateCall, parseNoteInput } from './CallAnnotations';
+import { recordProcessedCalls } from './ProcessedCalls';
+
+export { NOTIFICATION_ACTIONS };
+
+export type NotificationActionContext = {
+  call: AnalyzedCall;
+  notificationId?: string;
+  /** The text typed into an action's input, if it has one. */
+  input?: string;
+};
+
+export type NotificationActionHandler = (
+  context: NotificationActionContext,
+) => Promise<void>;
+
+const actionHandlers = new Map<string, NotificationActionHandler>();
+
+/**
+ * Registers the handler that runs when the notification action with the
+ * given `pressAction.id` is pressed. Registering an ID again replaces the
+ * previous handler.
+ * @param actionId The `pressAction.id` of the notification action.
+ * @param handler The function to run for the action.
+ */
+export function registerNotificationAction(
+  actionId: string,
+  handler: NotificationActionHandler,
+) {
+  actionHandlers.set(actionId, handler);
+}
+
+async function cancelNotification(notificationId?: string) {
+  if (notificationId) {
+    await notifee.cancelNotification(notificationId);
+    await clearSnoozedPrompt(notificationId);
+  }
+}
+
+registerNotificationAction(
+  NOTIFICATION_ACTIONS.NO_CLIENT,
+  async ({ call, notificationId }) => {
+    console.log(
+      `❌ User chose NO (client check), call will NOT be stored for: ${call.number}`,
+    );
+    await setContactClassification(call.number, 'not_client');
+    await cancelNotification(notificationId);
+  },
+);
+
+registerNotificationAction(
+  NOTIFICATION_ACTIONS.YES_SEND_MESSAGE,
+  async ({ call, notificationId }) => {
+    console.log(
+      `✅ User chose YES (message prompt), sending message to: ${call.number}`,
+    );
+    await setContactClassification(call.number, 'client');
+    await advanceLeadStage(call.number, 'new_lead');
+    await addCallToHistory(call);
+    await queueCrmSync('client_call', call);
+
+    const { preferred, available } = await getChannelOptions(call.number);
+    if (!preferred && available.length > 1 && notificationId) {
+      await displayChannelOptionsNotification(
+        call,
+        notificationId,
+        (
+          await sortChannelsByUse(available)
+        ).map(id => ({
+          id,
+          label: getMessagingProvider(id)?.label ?? id,
+        })),
+      );
+      return;
+    }
+    await sendMessage(call, await buildMessageForCall(call));
+    await cancelNotification(notificationId);
+    await displayCallNotesNotification(call);
+  },
+);
+
+getMessagingProviders().forEach(provider =>
+  registerNotificationAction(
+    getSendViaActionId(provider.id),
+    async ({ call, notificationId }) => {
+      console.log(`💬 Sending via ${provider.label} to: ${call.number}`);
+      await setContactChannel(call.number, { channel: provider.id });
+      await sendMessage(call, await buildMessageForCall(call), provider.id);
+      await cancelNotification(notificationId);
+      await displayCallNotesNotification(call);
+    },
+  ),
+);
+
+registerNotificationAction(
+  NOTIFICATION_ACTIONS.MORE_CHANNELS,
+  async ({ call, notificationId }) => {
+    console.log(`💬 Picking a channel in the app for: ${call.number}`);
+    if (notificationId) {
+      await requestChannelChoice(call, notificationId);
+    }
+    await cancelNotification(notificationId);
+  },
+);
+
+registerNotificationAction(NOTIFICATION_ACTIONS.REMIND_ME, async ({ call }) => {
+  console.log(`⏰ User chose REMIND ME for: ${call.number}`);
+  await remindToCallBack(call);
+  // The reminder does not answer the client question, so ask it again.
+  await displayClientCheckNotification(call);
+});
+
+registerNotificationAction(
+  NOTIFICATION_ACTIONS.LATER,
+  async ({ call, notificationId }) => {
+    if (notificationId) {
+      await displaySnoozeOptionsNotification(call, notificationId);
+    }
+  },
+);
+
+SNOOZE_OPTIONS_MINUTES.forEach(minutes =>
+  registerNotificationAction(
+    getSnoozeActionId(minutes),
+    async ({ call, notificationId }) => {
+      if (!notificationId) return;
+      console.log(`⏰ Snoozing client check for ${call.number}: ${minutes}m`);
+      await snoozeClientCheck(call, notificationId, minutes);
+    },
+  ),
+);
+
+registerNotificationAction(
+  NOTIFICATION_ACTIONS.ADD_NOTE,
+  async ({ call, notificationId, input }) => {
+    const { note, tags } = parseNoteInput(input ?? '');
+    console.log(`📝 Saving note for: ${call.number}`);
+    await annotateCall(call, current => ({
+      note: note || current.note,
+      tags: [...current.tags, ...tags],
+    }));
+    await cancelNotification(notificationId);
+  },
+);
+
+registerNotificationAction(
+  NOTIFICATION_ACTIONS.FOLLOW_UP,
+  async ({ call, notificationId }) => {
+    console.log(`🔔 Marking call from ${call.number} for follow-up`);
+    await annotateCall(call, { followUpStatus: 'pending' });
+    await cancelNotification(notificationId);
+  },
+);
+
+/**
+ * Handles a notifee event for the client-check notification. Used by both
+ * `notifee.onForegroundEvent` and `notifee.onBackgroundEvent` so every
+ * action behaves the same whether or not the app is open.
+ * @param event The notifee event.
+ */
+export async function handleNotificationEvent({
+  type,
+  detail,
+}: Event): Promise<void> {
+  const { notification, pressAction } = detail;
+
+  if (!notification || !pressAction) return;
+
+  const callDataString = notification.data?.callData;
+
+  if (typeof callDataString !== 'string') {
+    console.warn('No callData found in notification payload.');
+    return;
+  }
+  const call: AnalyzedCall = JSON.parse(callDataString);
+  // The handler may run headless, without the app that detected the call;
+  // make sure the call is never prompted for again after acting on it.
+  await recordProcessedCalls([call]);
+
+  switch (type) {
+    case EventType.PRESS:
+      await cancelNotification(notification.id);
+      break;
+
+    case EventType.ACTION_PRESS: {
+      const handler = actionHandlers.get(pressAction.id);
+      if (!handler) {
+        console.log(`Unknown action ID: ${pressAction.id}`);
+        return;
+      }
+      await handler({
+        call,
+        notificationId: notification.id,
+        input: detail.input,
+      });
+      break;
+    }
+  }
+}
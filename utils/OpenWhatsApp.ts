@@ -1,25 +1,41 @@
 import { Linking } from 'react-native';
+import { SendResult } from '../hooks/types';
+import { loadDefaultCountryCode, normalizePhoneNumber } from './PhoneNumber';
+import { describeError } from './Outbox';
 
 export const openWhatsApp = async (
   number: string,
   templateMessage: string,
-): Promise<void> => {
-  const url = `whatsapp://send?phone=${number}&text=${encodeURIComponent(
+): Promise<SendResult> => {
+  const e164Number = normalizePhoneNumber(
+    number,
+    await loadDefaultCountryCode(),
+  );
+  if (!e164Number) {
+    console.warn(
+      `Cannot open WhatsApp for ${number}: not a messageable number.`,
+    );
+    return { outcome: 'failed', error: 'Not a messageable number' };
+  }
+  // WhatsApp expects the full international number without the leading "+".
+  const phone = e164Number.slice(1);
+
+  const url = `whatsapp://send?phone=${phone}&text=${encodeURIComponent(
     templateMessage,
   )}`;
   try {
     const supported = await Linking.canOpenURL(url);
     if (supported) {
       await Linking.openURL(url);
-    } else {
-      console.log(
-        'WhatsApp is not installed on this device. Opening web link.',
-      );
-      await Linking.openURL(
-        `https://wa.me/${number}?text=${encodeURIComponent(templateMessage)}`,
-      );
+      return { outcome: 'opened', error: null };
     }
+    console.log('WhatsApp is not installed on this device. Opening web link.');
+    await Linking.openURL(
+      `https://wa.me/${phone}?text=${encodeURIComponent(templateMessage)}`,
+    );
+    return { outcome: 'fallback_web', error: null };
   } catch (error) {
     console.error('An error occurred while trying to open WhatsApp:', error);
+    return { outcome: 'failed', error: describeError(error) };
   }
 };
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OutboxEntry } from '../hooks/types';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import { createSerialQueue } from './SerialQueue';
+
+export const OUTBOX_STORAGE_KEY = '@CallDetectorApp:outbox';
+
+/**
+ * How many entries are kept. The oldest entries are dropped first.
+ */
+export const OUTBOX_LIMIT = 500;
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+
+const enqueue = createSerialQueue();
+
+async function readStoredOutbox(): Promise<OutboxEntry[]> {
+  const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+  const parsed = stored ? JSON.parse(stored) : [];
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+/**
+ * Turns a caught value into a message that can be stored with an entry.
+ * @param error The caught value.
+ */
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Subscribes to changes of the outbox.
+ * @param listener Called with every entry, newest first, after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the outbox from AsyncStorage.
+ * @returns Every recorded message attempt, newest first.
+ */
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  try {
+    return await enqueue(readStoredOutbox);
+  } catch (error) {
+    console.error('Failed to load outbox:', error);
+    return [];
+  }
+}
+
+/**
+ * Records an attempt to send a message. The outbox keeps the newest
+ * `OUTBOX_LIMIT` entries.
+ * @param entry The attempt, without an ID.
+ * @returns The recorded entry.
+ */
+export async function recordOutboxEntry(
+  entry: Omit<OutboxEntry, 'id'>,
+): Promise<OutboxEntry> {
+  const recorded: OutboxEntry = {
+    id: `outbox_${entry.timestamp}_${Math.random().toString(36).slice(2, 8)}`,
+    ...entry,
+  };
+  try {
+    await enqueue(async () => {
+      const entries = [recorded, ...(await readStoredOutbox())].slice(
+        0,
+        OUTBOX_LIMIT,
+      );
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+      listeners.forEach(listener => listener(entries));
+    });
+  } catch (error) {
+    console.error('Failed to record outbox entry:', error);
+  }
+  return recorded;
+}
+
+/**
+ * Groups outbox entries by the normalized number they were sent to.
+ * @param entries The entries, newest first.
+ * @returns A map of normalized phone number to that contact's entries,
+ * newest first.
+ */
+export function groupOutboxByContact(
+  entries: OutboxEntry[],
+): Record<string, OutboxEntry[]> {
+  return entries.reduce<Record<string, OutboxEntry[]>>((groups, entry) => {
+    const key = getPhoneNumberKey(entry.call.number);
+    groups[key] = [...(groups[key] ?? []), entry];
+    return groups;
+  }, {});
+}
+
+/**
+ * Returns the messages sent to a number, so a contact that was already
+ * messaged can be recognized.
+ * @param number The phone number, in any format.
+ * @returns The contact's entries, newest first.
+ */
+export async function getOutboxForNumber(
+  number: string,
+): Promise<OutboxEntry[]> {
+  await loadDefaultCountryCode();
+  const key = getPhoneNumberKey(number);
+  return (await loadOutbox()).filter(
+    entry => getPhoneNumberKey(entry.call.number) === key,
+  );
+}
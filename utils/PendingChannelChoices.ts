@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, PendingChannelChoices } from '../hooks/types';
+import { createSerialQueue } from './SerialQueue';
+
+export const PENDING_CHANNEL_CHOICES_STORAGE_KEY =
+  '@CallDetectorApp:pendingChannelChoices';
+
+type PendingChannelChoicesListener = (choices: PendingChannelChoices) => void;
+
+const listeners = new Set<PendingChannelChoicesListener>();
+
+const enqueue = createSerialQueue();
+
+async function readStoredChoices(): Promise<PendingChannelChoices> {
+  const stored = await AsyncStorage.getItem(
+    PENDING_CHANNEL_CHOICES_STORAGE_KEY,
+  );
+  const parsed = stored ? JSON.parse(stored) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : {};
+}
+
+async function saveChoices(choices: PendingChannelChoices) {
+  await AsyncStorage.setItem(
+    PENDING_CHANNEL_CHOICES_STORAGE_KEY,
+    JSON.stringify(choices),
+  );
+  listeners.forEach(listener => listener(choices));
+}
+
+/**
+ * Subscribes to changes of the pending channel choices made while the app
+ * is open.
+ * @param listener Called with all pending choices after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToPendingChannelChoices(
+  listener: PendingChannelChoicesListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the calls waiting for a channel to be picked in the app.
+ * @returns The pending choices, keyed by notification ID.
+ */
+export async function loadPendingChannelChoices(): Promise<PendingChannelChoices> {
+  try {
+    return await enqueue(readStoredChoices);
+  } catch (error) {
+    console.error('Failed to load pending channel choices:', error);
+    return {};
+  }
+}
+
+/**
+ * Leaves the channel for a call to be picked in the app, for when the
+ * channel options notification cannot show every channel.
+ * @param call The call the message is about.
+ * @param notificationId The ID of the channel options notification.
+ */
+export async function requestChannelChoice(
+  call: AnalyzedCall,
+  notificationId: string,
+): Promise<void> {
+  try {
+    await enqueue(async () => {
+      const choices = await readStoredChoices();
+      await saveChoices({ ...choices, [notificationId]: call });
+    });
+  } catch (error) {
+    console.error('Failed to save pending channel choice:', error);
+  }
+}
+
+/**
+ * Forgets a pending channel choice once the message was sent or dismissed.
+ * @param notificationId The ID of the channel options notification.
+ */
+export async function clearPendingChannelChoice(
+  notificationId: string,
+): Promise<void> {
+  try {
+    await enqueue(async () => {
+      const choices = await readStoredChoices();
+      if (!choices[notificationId]) {
+        return;
+      }
+      const remaining = { ...choices };
+      delete remaining[notificationId];
+      await saveChoices(remaining);
+    });
+  } catch (error) {
+    console.error('Failed to clear pending channel choice:', error);
+  }
+}
@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const DEFAULT_COUNTRY_CODE_STORAGE_KEY =
+  '@CallDetectorApp:defaultCountryCode';
+
+export const FALLBACK_COUNTRY_CODE = '91';
+
+// National significant numbers shorter than this are treated as short codes
+// (carrier services, banks, OTP senders) that cannot be messaged.
+const MIN_NATIONAL_NUMBER_LENGTH = 7;
+const MAX_E164_DIGITS = 15;
+const TYPICAL_NATIONAL_NUMBER_LENGTH = 10;
+
+let defaultCountryCode = FALLBACK_COUNTRY_CODE;
+
+/**
+ * Returns the default country code (digits only, without "+") currently
+ * used for numbers that have no international prefix.
+ */
+export function getDefaultCountryCode(): string {
+  return defaultCountryCode;
+}
+
+/**
+ * Loads the configured default country code from AsyncStorage and caches it
+ * for the synchronous helpers in this module.
+ * @returns The default country code.
+ */
+export async function loadDefaultCountryCode(): Promise<string> {
+  try {
+    const stored = await AsyncStorage.getItem(DEFAULT_COUNTRY_CODE_STORAGE_KEY);
+    if (stored && /^\d{1,3}$/.test(stored)) {
+      defaultCountryCode = stored;
+    }
+  } catch (error) {
+    console.error('Failed to load default country code:', error);
+  }
+  return defaultCountryCode;
+}
+
+/**
+ * Persists the default country code and updates the cached value.
+ * @param countryCode The country calling code, with or without a leading "+".
+ * @returns True if the code was valid and saved.
+ */
+export async function saveDefaultCountryCode(
+  countryCode: string,
+): Promise<boolean> {
+  const digits = countryCode.replace(/^\+/, '').trim();
+  if (!/^\d{1,3}$/.test(digits)) {
+    return false;
+  }
+  defaultCountryCode = digits;
+  try {
+    await AsyncStorage.setItem(DEFAULT_COUNTRY_CODE_STORAGE_KEY, digits);
+  } catch (error) {
+    console.error('Failed to save default country code:', error);
+  }
+  return true;
+}
+
+/**
+ * Checks whether a number is a short code, e.g. "121" or "56161", which has
+ * no international form and cannot be messaged.
+ * @param rawNumber The number as it appears in the call log.
+ */
+export function isShortCode(rawNumber: string): boolean {
+  const trimmed = rawNumber.trim();
+  if (trimmed.startsWith('+')) {
+    return false;
+  }
+  const digits = trimmed.replace(/\D/g, '').replace(/^0+/, '');
+  return digits.length > 0 && digits.length < MIN_NATIONAL_NUMBER_LENGTH;
+}
+
+/**
+ * Normalizes a call-log number to E.164 format ("+919876543210").
+ * Formatting characters are stripped, a "00" international prefix is turned
+ * into "+", and national numbers drop their trunk prefix ("0") and get the
+ * default country code.
+ *
+ * @param rawNumber The number as it appears in the call log.
+ * @param countryCode The country code to assume for national numbers.
+ * @returns The E.164 number, or null for short codes and invalid numbers.
+ */
+export function normalizePhoneNumber(
+  rawNumber: string,
+  countryCode: string = defaultCountryCode,
+): string | null {
+  if (typeof rawNumber !== 'string') {
+    return null;
+  }
+  const trimmed = rawNumber.trim();
+  let digits = trimmed.replace(/\D/g, '');
+
+  if (!digits || isShortCode(trimmed)) {
+    return null;
+  }
+
+  if (trimmed.startsWith('+')) {
+    // Already international.
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = countryCode + digits.replace(/^0+/, '');
+  } else if (
+    !(
+      digits.startsWith(countryCode) &&
+      digits.length > TYPICAL_NATIONAL_NUMBER_LENGTH
+    )
+  ) {
+    digits = countryCode + digits;
+  }
+
+  if (
+    digits.startsWith('0') ||
+    digits.length < MIN_NATIONAL_NUMBER_LENGTH + 1 ||
+    digits.length > MAX_E164_DIGITS
+  ) {
+    return null;
+  }
+  return `+${digits}`;
+}
+
+/**
+ * Returns a stable key for comparing numbers: the E.164 form when the number
+ * can be normalized, otherwise the trimmed raw number.
+ * @param rawNumber The number as it appears in the call log.
+ */
+export function getPhoneNumberKey(rawNumber: string): string {
+  return normalizePhoneNumber(rawNumber) ?? rawNumber.trim();
+}
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, ProcessedCall } from '../hooks/types';
+import { getPhoneNumberKey, loadDefaultCountryCode } from './PhoneNumber';
+import { isSameCall } from './CallHistoryRepository';
+import { createSerialQueue } from './SerialQueue';
+
+export const PROCESSED_CALLS_STORAGE_KEY = '@CallDetectorApp:processedCalls';
+
+/** The most calls remembered; the ones handled longest ago are forgotten first. */
+export const PROCESSED_CALL_LIMIT = 1000;
+
+/**
+ * How long a handled call is remembered. Calls this old are no longer
+ * re-emitted by the service or offered for review.
+ */
+export const PROCESSED_CALL_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const enqueue = createSerialQueue();
+
+function isProcessedCall(record: unknown): record is ProcessedCall {
+  if (!record || typeof record !== 'object') {
+    return false;
+  }
+  const { timestamp, numberKey, processedAt } = record as Record<
+    string,
+    unknown
+  >;
+  return (
+    typeof timestamp === 'number' &&
+    typeof numberKey === 'string' &&
+    typeof processedAt === 'number'
+  );
+}
+
+function matchesCall(record: ProcessedCall, call: AnalyzedCall): boolean {
+  return (
+    record.timestamp === call.timestamp &&
+    record.numberKey === getPhoneNumberKey(call.number)
+  );
+}
+
+/**
+ * Drops records older than `PROCESSED_CALL_MAX_AGE_MS` and keeps at most
+ * `PROCESSED_CALL_LIMIT` of the most recently handled ones.
+ * @param records The records, in any order.
+ * @param now The current time.
+ * @returns The remaining records, most recently handled first.
+ */
+export function pruneProcessedCalls(
+  records: ProcessedCall[],
+  now: number = Date.now(),
+): ProcessedCall[] {
+  return records
+    .filter(record => now - record.processedAt <= PROCESSED_CALL_MAX_AGE_MS)
+    .sort((a, b) => b.processedAt - a.processedAt)
+    .slice(0, PROCESSED_CALL_LIMIT);
+}
+
+async function readProcessedCalls(): Promise<ProcessedCall[]> {
+  try {
+    const stored = await AsyncStorage.getItem(PROCESSED_CALLS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) {
+      return parsed.filter(isProcessedCall);
+    }
+  } catch (error) {
+    console.error('Failed to load processed calls:', error);
+  }
+  return [];
+}
+
+async function addProcessedCalls(
+  calls: AnalyzedCall[],
+  now: number,
+): Promise<AnalyzedCall[]> {
+  await loadDefaultCountryCode();
+  const records = await readProcessedCalls();
+  const added = calls.filter(
+    (call, index) =>
+      !records.some(record => matchesCall(record, call)) &&
+      !calls.slice(0, index).some(earlier => isSameCall(earlier, call)),
+  );
+  const next = pruneProcessedCalls(
+    [
+      ...added.map(call => ({
+        timestamp: call.timestamp,
+        numberKey: getPhoneNumberKey(call.number),
+        processedAt: now,
+      })),
+      ...records,
+    ],
+    now,
+  );
+  try {
+    await AsyncStorage.setItem(
+      PROCESSED_CALLS_STORAGE_KEY,
+      JSON.stringify(next),
+    );
+  } catch (error) {
+    console.error('Failed to save processed calls:', error);
+  }
+  return added;
+}
+
+/**
+ * Loads the ledger of handled calls.
+ * @returns The records, most recently handled first.
+ */
+export async function loadProcessedCalls(): Promise<ProcessedCall[]> {
+  return enqueue(readProcessedCalls);
+}
+
+/**
+ * Leaves out the calls that have already been handled.
+ * @param calls The calls to check.
+ * @returns The calls not handled yet, in their original order.
+ */
+export async function filterUnprocessedCalls(
+  calls: AnalyzedCall[],
+): Promise<AnalyzedCall[]> {
+  return enqueue(async () => {
+    await loadDefaultCountryCode();
+    const records = await readProcessedCalls();
+    return calls.filter(
+      call => !records.some(record => matchesCall(record, call)),
+    );
+  });
+}
+
+/**
+ * Checks whether a call has already been handled.
+ * @param call The call.
+ */
+export async function hasProcessedCall(call: AnalyzedCall): Promise<boolean> {
+  return (await filterUnprocessedCalls([call])).length === 0;
+}
+
+/**
+ * Records a call as handled unless it already was. This is the single check
+ * for "have we already handled this call?": only the caller that gets true
+ * back should handle it.
+ * @param call The detected call.
+ * @param now The current time.
+ * @returns True if the call had not been handled yet.
+ */
+export async function claimCall(
+  call: AnalyzedCall,
+  now: number = Date.now(),
+): Promise<boolean> {
+  return enqueue(async () => (await addProcessedCalls([call], now)).length > 0);
+}
+
+/**
+ * Records calls as handled. Calls already in the ledger keep their record.
+ * @param calls The handled calls.
+ * @param now The current time.
+ */
+export async function recordProcessedCalls(
+  calls: AnalyzedCall[],
+  now: number = Date.now(),
+): Promise<void> {
+  if (calls.length === 0) return;
+  await enqueue(() => addProcessedCalls(calls, now));
+}
+
+/**
+ * Forgets a claimed call, so that it is handled again the next time it is
+ * emitted or offered for review. Used when handling the call failed.
+ * @param call The claimed call.
+ */
+export async function releaseCall(call: AnalyzedCall): Promise<void> {
+  await enqueue(async () => {
+    await loadDefaultCountryCode();
+    const records = await readProcessedCalls();
+    const next = records.filter(record => !matchesCall(record, call));
+    if (next.length === records.length) return;
+    try {
+      await AsyncStorage.setItem(
+        PROCESSED_CALLS_STORAGE_KEY,
+        JSON.stringify(next),
+      );
+    } catch (error) {
+      console.error('Failed to save processed calls:', error);
+    }
+  });
+}
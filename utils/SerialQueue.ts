@@ -0,0 +1,21 @@
+/**
+ * Queues an operation and resolves or rejects with its result.
+ */
+export type SerialQueue = <T>(operation: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a queue that runs each operation after every previously queued one
+ * has finished. Stores that read, change and write back an AsyncStorage key
+ * use one, so changes made by the app and by the background notification
+ * handler at the same time cannot overwrite each other. A failed operation
+ * only rejects its own promise; the operations queued after it still run.
+ * @returns The function that queues operations.
+ */
+export function createSerialQueue(): SerialQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = tail.then(operation);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
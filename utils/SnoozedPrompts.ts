@@ -0,0 +1,120 @@
+import notifee from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AnalyzedCall, SnoozedPrompts } from '../hooks/types';
+import { displayClientCheckNotification } from './Notification';
+import { createSerialQueue } from './SerialQueue';
+
+export const SNOOZED_PROMPTS_STORAGE_KEY = '@CallDetectorApp:snoozedPrompts';
+
+type SnoozedPromptsListener = (prompts: SnoozedPrompts) => void;
+
+const listeners = new Set<SnoozedPromptsListener>();
+
+const enqueue = createSerialQueue();
+
+async function readStoredPrompts(): Promise<SnoozedPrompts> {
+  const stored = await AsyncStorage.getItem(SNOOZED_PROMPTS_STORAGE_KEY);
+  const parsed = stored ? JSON.parse(stored) : {};
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : {};
+}
+
+/**
+ * Subscribes to changes of the snoozed prompts made while the app is open.
+ * @param listener Called with all snoozed prompts after every write.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToSnoozedPrompts(
+  listener: SnoozedPromptsListener,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads the snoozed client-check prompts, keyed by notification ID.
+ * @returns The snoozed prompts.
+ */
+export async function loadSnoozedPrompts(): Promise<SnoozedPrompts> {
+  try {
+    return await enqueue(readStoredPrompts);
+  } catch (error) {
+    console.error('Failed to load snoozed prompts:', error);
+    return {};
+  }
+}
+
+async function saveSnoozedPrompts(prompts: SnoozedPrompts) {
+  await AsyncStorage.setItem(
+    SNOOZED_PROMPTS_STORAGE_KEY,
+    JSON.stringify(prompts),
+  );
+  listeners.forEach(listener => listener(prompts));
+}
+
+/**
+ * Counts the prompts that are still waiting to be shown again.
+ * @param prompts The snoozed prompts.
+ * @param now The current time.
+ */
+export function countActiveSnoozes(
+  prompts: SnoozedPrompts,
+  now: number = Date.now(),
+): number {
+  return Object.values(prompts).filter(prompt => prompt.snoozedUntil > now)
+    .length;
+}
+
+/**
+ * Hides the client-check notification and schedules the same prompt again
+ * after the chosen interval.
+ * @param call The call the client check is about.
+ * @param notificationId The ID of the client-check notification.
+ * @param minutes How long to snooze for.
+ * @param now The current time.
+ * @returns When the prompt will be shown again.
+ */
+export async function snoozeClientCheck(
+  call: AnalyzedCall,
+  notificationId: string,
+  minutes: number,
+  now: number = Date.now(),
+): Promise<number> {
+  const snoozedUntil = now + minutes * 60 * 1000;
+  await notifee.cancelDisplayedNotification(notificationId);
+  await displayClientCheckNotification(call, snoozedUntil);
+
+  await enqueue(async () => {
+    const prompts = await readStoredPrompts();
+    await saveSnoozedPrompts({
+      ...prompts,
+      [notificationId]: {
+        call,
+        snoozedUntil,
+        snoozeCount: (prompts[notificationId]?.snoozeCount ?? 0) + 1,
+      },
+    });
+  });
+  return snoozedUntil;
+}
+
+/**
+ * Forgets a snoozed prompt once it has been answered.
+ * @param notificationId The ID of the client-check notification.
+ */
+export async function clearSnoozedPrompt(
+  notificationId: string,
+): Promise<void> {
+  await enqueue(async () => {
+    const prompts = await readStoredPrompts();
+    if (!prompts[notificationId]) {
+      return;
+    }
+    const remaining = { ...prompts };
+    delete remaining[notificationId];
+    await saveSnoozedPrompts(remaining);
+  });
+}